@@ -15,6 +15,8 @@ import * as util from './common';
 import * as vscode from 'vscode';
 
 import { OmniSharpServer } from './omnisharp/server';
+import ActiveTargetFrameworks from './omnisharp/activeTargetFrameworks';
+import { getCommandLinePropertyArguments, getOutputFolder, MSBuildProperties } from './omnisharp/msbuildProfiles';
 import { tolerantParse } from './json';
 
 export class AssetGenerator {
@@ -27,7 +29,7 @@ export class AssetGenerator {
     private startupProject: protocol.MSBuildProject | undefined;
     private fallbackBuildProject: protocol.MSBuildProject;
 
-    public constructor(workspaceInfo: protocol.WorkspaceInformationResponse, workspaceFolder: vscode.WorkspaceFolder = undefined) {
+    public constructor(workspaceInfo: protocol.WorkspaceInformationResponse, workspaceFolder: vscode.WorkspaceFolder = undefined, private activeTargetFrameworks?: ActiveTargetFrameworks, private msbuildProperties: MSBuildProperties = {}) {
         if (workspaceFolder) {
             this.workspaceFolder = workspaceFolder;
         }
@@ -163,9 +165,9 @@ export class AssetGenerator {
 
         const startupProjectDir = path.dirname(this.startupProject.Path);
         const relativeProjectDir = path.join('${workspaceFolder}', path.relative(this.workspaceFolder.uri.fsPath, startupProjectDir));
-        const configurationName = 'Debug';
-        const targetFramework = protocol.findNetCoreTargetFramework(this.startupProject);
-        const result = path.join(relativeProjectDir, `bin/${configurationName}/${targetFramework.ShortName}/${this.startupProject.AssemblyName}.dll`);
+        const targetFramework = (this.activeTargetFrameworks && this.activeTargetFrameworks.getSelected(this.startupProject))
+            || protocol.findNetCoreTargetFramework(this.startupProject);
+        const result = path.join(relativeProjectDir, `${getOutputFolder(this.msbuildProperties)}/${targetFramework.ShortName}/${this.startupProject.AssemblyName}.dll`);
         return result;
     }
 
@@ -292,6 +294,7 @@ export class AssetGenerator {
         }
 
         commandArgs.push("/property:GenerateFullPaths=true");
+        commandArgs.push(...getCommandLinePropertyArguments(this.msbuildProperties));
         commandArgs.push("/consoleloggerparameters:NoSummary");
     }
 
@@ -702,14 +705,14 @@ export enum AddAssetResult {
     Cancelled
 }
 
-export async function addAssetsIfNecessary(server: OmniSharpServer): Promise<AddAssetResult> {
+export async function addAssetsIfNecessary(server: OmniSharpServer, activeTargetFrameworks?: ActiveTargetFrameworks, msbuildProperties?: MSBuildProperties): Promise<AddAssetResult> {
     return new Promise<AddAssetResult>((resolve, reject) => {
         if (!vscode.workspace.workspaceFolders) {
             return resolve(AddAssetResult.NotApplicable);
         }
 
         serverUtils.requestWorkspaceInformation(server).then(async info => {
-            const generator = new AssetGenerator(info);
+            const generator = new AssetGenerator(info, undefined, activeTargetFrameworks, msbuildProperties);
             // If there aren't executable projects, we will not prompt
             if (generator.hasExecutableProjects()) {
                 return getOperations(generator).then(operations => {
@@ -796,11 +799,11 @@ async function shouldGenerateAssets(generator: AssetGenerator): Promise<Boolean>
     });
 }
 
-export async function generateAssets(server: OmniSharpServer, selectedIndex?: number): Promise<void> {
+export async function generateAssets(server: OmniSharpServer, selectedIndex?: number, activeTargetFrameworks?: ActiveTargetFrameworks, msbuildProperties?: MSBuildProperties): Promise<void> {
     try {
         let workspaceInformation = await serverUtils.requestWorkspaceInformation(server);
         if (workspaceInformation.MsBuild && workspaceInformation.MsBuild.Projects.length > 0) {
-            const generator = new AssetGenerator(workspaceInformation);
+            const generator = new AssetGenerator(workspaceInformation, undefined, activeTargetFrameworks, msbuildProperties);
             let doGenerateAssets = await shouldGenerateAssets(generator);
             if (!doGenerateAssets) {
                 return; // user cancelled
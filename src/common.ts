@@ -67,6 +67,30 @@ export async function buildPromiseChain<T, TResult>(array: T[], builder: (item:
         Promise.resolve<TResult>(null));
 }
 
+/**
+ * Maps the items of an array through an asynchronous selector, running at most `concurrency` selectors at a time.
+ * The results are returned in the order of the items.
+ */
+export async function mapWithConcurrency<T, TResult>(array: T[], concurrency: number, selector: (item: T, index: number) => Promise<TResult>): Promise<TResult[]> {
+    const results: TResult[] = new Array(array.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < array.length) {
+            const index = nextIndex++;
+            results[index] = await selector(array[index], index);
+        }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.max(1, Math.min(concurrency, array.length)); i++) {
+        workers.push(worker());
+    }
+
+    await Promise.all(workers);
+    return results;
+}
+
 export async function execChildProcess(command: string, workingDirectory: string = getExtensionPath()): Promise<string> {
     return new Promise<string>((resolve, reject) => {
         cp.exec(command, { cwd: workingDirectory, maxBuffer: 500 * 1024 }, (error, stdout, stderr) => {
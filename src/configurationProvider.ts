@@ -12,6 +12,9 @@ import { ParsedEnvironmentFile } from './coreclr-debug/ParsedEnvironmentFile';
 import { AssetGenerator, AssetOperations, addTasksJsonIfNecessary, createAttachConfiguration, createFallbackLaunchConfiguration, getBuildOperations } from './assets';
 
 import { OmniSharpServer } from './omnisharp/server';
+import ActiveTargetFrameworks from './omnisharp/activeTargetFrameworks';
+import OptionProvider from './observers/OptionProvider';
+import { getActiveMSBuildProperties } from './omnisharp/msbuildProfiles';
 import { WorkspaceInformationResponse } from './omnisharp/protocol';
 import { isSubfolderOf } from './common';
 import { parse } from 'jsonc-parser';
@@ -20,7 +23,7 @@ import { MessageItem } from './vscodeAdapter';
 export class CSharpConfigurationProvider implements vscode.DebugConfigurationProvider {
     private server: OmniSharpServer;
 
-    public constructor(server: OmniSharpServer) {
+    public constructor(server: OmniSharpServer, private activeTargetFrameworks?: ActiveTargetFrameworks, private optionProvider?: OptionProvider) {
         this.server = server;
     }
 
@@ -80,7 +83,8 @@ export class CSharpConfigurationProvider implements vscode.DebugConfigurationPro
 
             let info: WorkspaceInformationResponse = await serverUtils.requestWorkspaceInformation(this.server);
 
-            const generator = new AssetGenerator(info, folder);
+            const msbuildProperties = this.optionProvider ? getActiveMSBuildProperties(this.optionProvider.GetLatestOptions()) : {};
+            const generator = new AssetGenerator(info, folder, this.activeTargetFrameworks, msbuildProperties);
             if (generator.hasExecutableProjects()) {
 
                 if (!await generator.selectStartupProject()) {
@@ -3,38 +3,57 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Uri, workspace } from 'vscode';
+import { TextDocumentContentChangeEvent, Uri, workspace } from 'vscode';
 import { OmniSharpServer } from '../omnisharp/server';
+import { OmniSharpServerPool } from '../omnisharp/serverPool';
 import * as serverUtils from '../omnisharp/utils';
-import { FileChangeType } from '../omnisharp/protocol';
+import { FileChangeType, LinePositionSpanTextChange } from '../omnisharp/protocol';
 import { IDisposable } from '../Disposable';
 import CompositeDisposable from '../CompositeDisposable';
+import { BufferSynchronizer } from '../omnisharp/bufferSynchronizer';
+
+function toTextChange(change: TextDocumentContentChangeEvent): LinePositionSpanTextChange {
+    return {
+        NewText: change.text,
+        StartLine: change.range.start.line,
+        StartColumn: change.range.start.character,
+        EndLine: change.range.end.line,
+        EndColumn: change.range.end.character
+    };
+}
+
+function forwardDocumentChanges(server: OmniSharpServer, serverPool: OmniSharpServerPool): IDisposable {
 
-function forwardDocumentChanges(server: OmniSharpServer): IDisposable {
+    // The primary server forwards the requests about a document to the server of the pool that owns it.
+    const synchronizer = new BufferSynchronizer(
+        fileName => serverPool.isRunningForPath(fileName),
+        async request => serverUtils.updateBuffer(server, request),
+        async request => serverUtils.changeBuffer(server, request));
 
-    return workspace.onDidChangeTextDocument(event => {
+    const changeSubscription = workspace.onDidChangeTextDocument(event => {
 
         let { document, contentChanges } = event;
         if (document.isUntitled || document.languageId !== 'csharp' || document.uri.scheme !== 'file' || contentChanges.length === 0) {
             return;
         }
 
-        if (!server.isRunning()) {
-            return;
-        }
-
-        serverUtils.updateBuffer(server, { Buffer: document.getText(), FileName: document.fileName }).catch(err => {
-            console.error(err);
-            return err;
-        });
+        synchronizer.onDidChange(document, contentChanges.map(toTextChange));
     });
+
+    const closeSubscription = workspace.onDidCloseTextDocument(document => synchronizer.onDidClose(document.fileName));
+
+    // A restarted server only knows the contents of the files on disk. Any server of the pool may own the document.
+    const startSubscription = serverPool.onServerStart(() => synchronizer.reset());
+    const stopSubscription = serverPool.onServerStop(() => synchronizer.reset());
+
+    return new CompositeDisposable(changeSubscription, closeSubscription, startSubscription, stopSubscription);
 }
 
-function forwardFileChanges(server: OmniSharpServer): IDisposable {
+function forwardFileChanges(server: OmniSharpServer, serverPool: OmniSharpServerPool): IDisposable {
 
     function onFileSystemEvent(changeType: FileChangeType): (uri: Uri) => void {
         return function (uri: Uri) {
-            if (!server.isRunning()) {
+            if (!serverPool.isRunningForPath(uri.fsPath)) {
                 return;
             }
 
@@ -49,7 +68,7 @@ function forwardFileChanges(server: OmniSharpServer): IDisposable {
 
     function onFolderEvent(changeType: FileChangeType): (uri: Uri) => void {
         return async function (uri: Uri) {
-            if (!server.isRunning()) {
+            if (!serverPool.isRunningForPath(uri.fsPath)) {
                 return;
             }
 
@@ -75,10 +94,25 @@ function forwardFileChanges(server: OmniSharpServer): IDisposable {
     return new CompositeDisposable(watcher, d1, d2, d3, watcherForFolders, d4);
 }
 
-export default function forwardChanges(server: OmniSharpServer): IDisposable {
+/**
+ * Sends the contents of open C# documents with unsaved changes to the server. A server that was
+ * restarted only knows the contents of the files on disk.
+ */
+export async function replayDirtyBuffers(server: OmniSharpServer): Promise<void> {
+    const requests = workspace.textDocuments
+        .filter(document => document.isDirty && document.languageId === 'csharp' && document.uri.scheme === 'file')
+        .map(async document => serverUtils.updateBuffer(server, { Buffer: document.getText(), FileName: document.fileName }).catch(err => {
+            console.error(err);
+            return err;
+        }));
+
+    await Promise.all(requests);
+}
+
+export default function forwardChanges(server: OmniSharpServer, serverPool: OmniSharpServerPool): IDisposable {
 
     // combine file watching and text document watching
     return new CompositeDisposable(
-        forwardDocumentChanges(server),
-        forwardFileChanges(server));
+        forwardDocumentChanges(server, serverPool),
+        forwardFileChanges(server, serverPool));
 }
@@ -4,16 +4,16 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { OmniSharpServer } from '../omnisharp/server';
+import { OmniSharpServerPool } from '../omnisharp/serverPool';
 import * as serverUtils from '../omnisharp/utils';
-import { findLaunchTargets, LaunchTarget } from '../omnisharp/launcher';
-import * as cp from 'child_process';
+import { createProjectsLaunchTarget, findLaunchTargets, LaunchTarget, LaunchTargetKind } from '../omnisharp/launcher';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as protocol from '../omnisharp/protocol';
 import * as vscode from 'vscode';
 import { RemoteAttachPicker } from './processPicker';
 import { generateAssets } from '../assets';
-import { ShowOmniSharpChannel, CommandDotNetRestoreStart, CommandDotNetRestoreProgress, CommandDotNetRestoreSucceeded, CommandDotNetRestoreFailed } from '../omnisharp/loggingEvents';
+import { ShowOmniSharpChannel, CommandDotNetRestoreStart } from '../omnisharp/loggingEvents';
 import { EventStream } from '../EventStream';
 import { PlatformInformation } from '../platform';
 import CompositeDisposable from '../CompositeDisposable';
@@ -22,16 +22,47 @@ import reportIssue from './reportIssue';
 import { IHostExecutableResolver } from '../constants/IHostExecutableResolver';
 import { getDotnetInfo } from '../utils/getDotnetInfo';
 import { getDecompilationAuthorization, resetDecompilationAuthorization } from '../omnisharp/decompilationPrompt';
-
-export default function registerCommands(context: vscode.ExtensionContext, server: OmniSharpServer, platformInfo: PlatformInformation, eventStream: EventStream, optionProvider: OptionProvider, monoResolver: IHostExecutableResolver, packageJSON: any, extensionPath: string): CompositeDisposable {
+import ServerPerformanceDocumentProvider from './serverPerformanceDocumentProvider';
+import createSolutionFilter from './solutionFilter';
+import ProjectTreeDataProvider from './projectTreeDataProvider';
+import { ProjectTreeNode } from '../omnisharp/projectTree';
+import Disposable from '../Disposable';
+import ActiveTargetFrameworks from '../omnisharp/activeTargetFrameworks';
+import { getActiveMSBuildProperties, getCommandLinePropertyArguments } from '../omnisharp/msbuildProfiles';
+import UnresolvedDependencyReporter from './unresolvedDependencyReporter';
+import ProjectLoadDiagnosticsProvider from './projectLoadDiagnosticsProvider';
+import { dotnetRestore, dotnetRestoreProjects } from './dotnetRestore';
+import DotnetBuildCommands from './dotnetBuild';
+
+export default function registerCommands(context: vscode.ExtensionContext, server: OmniSharpServer, serverPool: OmniSharpServerPool, platformInfo: PlatformInformation, eventStream: EventStream, optionProvider: OptionProvider, monoResolver: IHostExecutableResolver, packageJSON: any, extensionPath: string, activeTargetFrameworks: ActiveTargetFrameworks): CompositeDisposable {
     let disposable = new CompositeDisposable();
-    disposable.add(vscode.commands.registerCommand('o.restart', async () => restartOmniSharp(context, server, optionProvider)));
-    disposable.add(vscode.commands.registerCommand('o.pickProjectAndStart', async () => pickProjectAndStart(server, optionProvider)));
+    disposable.add(vscode.commands.registerCommand('o.restart', async () => restartOmniSharp(context, serverPool, optionProvider)));
+    disposable.add(vscode.commands.registerCommand('o.restartWithDiagnostics', async () => restartWithDiagnostics(context, serverPool, optionProvider)));
+    disposable.add(vscode.commands.registerCommand('o.pickProjectAndStart', async () => pickProjectAndStart(serverPool, optionProvider)));
+    disposable.add(vscode.commands.registerCommand('o.selectMSBuildProfile', async () => selectMSBuildProfile(serverPool, optionProvider)));
+    disposable.add(vscode.commands.registerCommand('o.createSolutionFilter', async () => createSolutionFilter(serverPool, optionProvider)));
     disposable.add(vscode.commands.registerCommand('o.showOutput', () => eventStream.post(new ShowOmniSharpChannel())));
 
+    const projectLoadDiagnosticsProvider = new ProjectLoadDiagnosticsProvider();
+    disposable.add(projectLoadDiagnosticsProvider);
+    disposable.add(new Disposable(eventStream.subscribe(projectLoadDiagnosticsProvider.post)));
+    disposable.add(vscode.commands.registerCommand('o.showFailedProjects', async () => projectLoadDiagnosticsProvider.showFailedProjects()));
+
     disposable.add(vscode.commands.registerCommand('dotnet.restore.project', async () => pickProjectAndDotnetRestore(server, eventStream)));
     disposable.add(vscode.commands.registerCommand('dotnet.restore.all', async () => dotnetRestoreAllProjects(server, eventStream)));
 
+    const unresolvedDependencyReporter = new UnresolvedDependencyReporter(eventStream);
+    disposable.add(unresolvedDependencyReporter);
+    disposable.add(new Disposable(eventStream.subscribe(unresolvedDependencyReporter.post)));
+    disposable.add(vscode.commands.registerCommand('dotnet.restore.unresolved', async () => dotnetRestoreUnresolvedProjects(unresolvedDependencyReporter, eventStream)));
+
+    const buildCommands = new DotnetBuildCommands(serverPool, optionProvider);
+    disposable.add(buildCommands);
+    disposable.add(vscode.commands.registerCommand('dotnet.build.project', async () => buildCommands.buildProject()));
+    disposable.add(vscode.commands.registerCommand('dotnet.build.solution', async () => buildCommands.buildSolution()));
+    disposable.add(vscode.commands.registerCommand('dotnet.clean', async () => buildCommands.clean()));
+    disposable.add(vscode.commands.registerCommand('dotnet.publish', async () => buildCommands.publish()));
+
     disposable.add(vscode.commands.registerCommand('o.reanalyze.allProjects', async () => reAnalyzeAllProjects(server, eventStream)));
     disposable.add(vscode.commands.registerCommand('o.reanalyze.currentProject', async () => reAnalyzeCurrentProject(server, eventStream)));
 
@@ -51,62 +82,189 @@ export default function registerCommands(context: vscode.ExtensionContext, serve
     }));
 
     // Register command for generating tasks.json and launch.json assets.
-    disposable.add(vscode.commands.registerCommand('dotnet.generateAssets', async (selectedIndex) => generateAssets(server, selectedIndex)));
+    disposable.add(vscode.commands.registerCommand('dotnet.generateAssets', async (selectedIndex) => generateAssets(server, selectedIndex, activeTargetFrameworks, getActiveMSBuildProperties(optionProvider.GetLatestOptions()))));
 
     disposable.add(vscode.commands.registerCommand('csharp.reportIssue', async () => reportIssue(vscode, eventStream, getDotnetInfo, platformInfo.isValidPlatformForMono(), optionProvider.GetLatestOptions(), monoResolver)));
 
-    disposable.add(vscode.commands.registerCommand('csharp.showDecompilationTerms', async () => showDecompilationTerms(context, server, optionProvider)));
+    disposable.add(vscode.commands.registerCommand('csharp.showDecompilationTerms', async () => showDecompilationTerms(context, serverPool, optionProvider)));
+
+    const performanceDocumentProvider = new ServerPerformanceDocumentProvider(serverPool);
+    performanceDocumentProvider.register();
+    disposable.add(performanceDocumentProvider);
+    disposable.add(vscode.commands.registerCommand('csharp.showServerPerformance', async () => performanceDocumentProvider.show()));
+    disposable.add(vscode.commands.registerCommand('csharp.exportServerPerformance', async () => performanceDocumentProvider.export()));
+
+    const projectTreeDataProvider = new ProjectTreeDataProvider(serverPool);
+    projectTreeDataProvider.register();
+    disposable.add(projectTreeDataProvider);
+    disposable.add(new Disposable(eventStream.subscribe(projectTreeDataProvider.post)));
+    disposable.add(vscode.commands.registerCommand('csharp.projects.refresh', () => projectTreeDataProvider.refresh()));
+    disposable.add(vscode.commands.registerCommand('csharp.projects.restore', async (node: ProjectTreeNode) => restoreProject(node, eventStream)));
+    disposable.add(vscode.commands.registerCommand('csharp.projects.reanalyze', async (node: ProjectTreeNode) => reAnalyzeProject(node, serverPool)));
+    disposable.add(vscode.commands.registerCommand('csharp.projects.runTests', async (node: ProjectTreeNode) => runProjectTests(node, optionProvider)));
+    disposable.add(vscode.commands.registerCommand('csharp.projects.openProjectFile', async (node: ProjectTreeNode) => openProjectFile(node)));
+    disposable.add(vscode.commands.registerCommand('csharp.projects.generateAssets', async (node: ProjectTreeNode) => generateProjectAssets(node, serverPool, activeTargetFrameworks, optionProvider)));
 
     return new CompositeDisposable(disposable);
 }
 
-async function showDecompilationTerms(context: vscode.ExtensionContext, server: OmniSharpServer, optionProvider: OptionProvider) {
+async function showDecompilationTerms(context: vscode.ExtensionContext, serverPool: OmniSharpServerPool, optionProvider: OptionProvider) {
     // Reset the decompilation authorization so the user will be prompted on restart.
     resetDecompilationAuthorization(context);
 
-    await restartOmniSharp(context, server, optionProvider);
+    await restartOmniSharp(context, serverPool, optionProvider);
 }
 
-async function restartOmniSharp(context: vscode.ExtensionContext, server: OmniSharpServer, optionProvider: OptionProvider) {
+async function restartOmniSharp(context: vscode.ExtensionContext, serverPool: OmniSharpServerPool, optionProvider: OptionProvider) {
     // Update decompilation authorization.
-    server.decompilationAuthorized = await getDecompilationAuthorization(context, optionProvider);
+    const decompilationAuthorized = await getDecompilationAuthorization(context, optionProvider);
+    for (const server of serverPool.servers) {
+        server.decompilationAuthorized = decompilationAuthorized;
+    }
+
+    if (serverPool.servers.some(server => server.isRunning())) {
+        serverPool.restart();
+    }
+    else {
+        serverPool.autoStart('');
+    }
+}
 
-    if (server.isRunning()) {
-        server.restart();
+async function restartWithDiagnostics(context: vscode.ExtensionContext, serverPool: OmniSharpServerPool, optionProvider: OptionProvider): Promise<void> {
+    // Capture the state of the servers before the restart throws it away.
+    const servers = serverPool.servers.filter(server => server.isRunning());
+    const diagnostics = {
+        capturedAt: new Date().toISOString(),
+        servers: servers.map(server => ({
+            unresponsive: server.isUnresponsive(),
+            health: server.getHealth(),
+            performance: server.getPerformanceReport()
+        }))
+    };
+
+    await fs.promises.mkdir(context.logUri.fsPath, { recursive: true });
+    const diagnosticsPath = path.join(context.logUri.fsPath, `omnisharp-diagnostics-${Date.now()}.json`);
+    await fs.promises.writeFile(diagnosticsPath, JSON.stringify(diagnostics, null, 4));
+
+    const unresponsiveServers = servers.filter(server => server.isUnresponsive());
+    if (unresponsiveServers.length > 0) {
+        await Promise.all(unresponsiveServers.map(async server => server.restart()));
     }
     else {
-        server.autoStart('');
+        await restartOmniSharp(context, serverPool, optionProvider);
+    }
+
+    const openDiagnostics = 'Open Diagnostics';
+    const choice = await vscode.window.showInformationMessage(`OmniSharp was restarted. Diagnostics were saved to ${diagnosticsPath}.`, openDiagnostics);
+    if (choice === openDiagnostics) {
+        await vscode.window.showTextDocument(vscode.Uri.file(diagnosticsPath));
     }
 }
 
-async function pickProjectAndStart(server: OmniSharpServer, optionProvider: OptionProvider): Promise<void> {
+async function selectMSBuildProfile(serverPool: OmniSharpServerPool, optionProvider: OptionProvider): Promise<void> {
+    const options = optionProvider.GetLatestOptions();
+    const profiles = options.msbuildProfiles || {};
+    const profileNames = Object.keys(profiles);
+    if (profileNames.length === 0) {
+        const openSettings = 'Open Settings';
+        const choice = await vscode.window.showInformationMessage('No MSBuild property profiles are configured.', openSettings);
+        if (choice === openSettings) {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'omnisharp.msbuildProfiles');
+        }
+        return;
+    }
+
+    const describe = (profile: string) => {
+        const properties = profiles[profile] || {};
+        return Object.keys(properties).map(name => `${name}=${properties[name]}`).join(', ');
+    };
+
+    const items = [{ label: 'Default', description: 'No additional properties', profile: '' }]
+        .concat(profileNames.map(profile => ({ label: profile, description: describe(profile), profile })))
+        .map(item => item.profile === (options.msbuildProfile || '') ? { ...item, label: `\u2713 ${item.label}` } : item);
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the MSBuild property profile to load projects with' });
+    if (!picked || picked.profile === (options.msbuildProfile || '')) {
+        return;
+    }
+
+    const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('omnisharp').update('msbuildProfile', picked.profile, target);
+
+    // The properties are passed to OmniSharp on startup, so they only take effect after a restart.
+    if (serverPool.servers.some(server => server.isRunning())) {
+        await serverPool.restart();
+    }
+}
+
+async function pickProjectAndStart(serverPool: OmniSharpServerPool, optionProvider: OptionProvider): Promise<void> {
     let options = optionProvider.GetLatestOptions();
     return findLaunchTargets(options).then(async targets => {
 
-        let currentPath = server.getSolutionPathOrFolder();
-        if (currentPath) {
-            for (let target of targets) {
-                if (target.target === currentPath) {
-                    target.label = `\u2713 ${target.label}`;
-                }
+        // Mark the targets any server of the pool is currently running with.
+        let currentTargets = serverPool.servers.map(server => server.getLaunchTarget()).filter(target => target);
+        let currentPaths = currentTargets.map(target => target.target);
+        let currentProjects = currentTargets.reduce<string[]>((projects, target) => projects.concat(target.projects || []), []);
+        for (let target of targets) {
+            if (currentPaths.indexOf(target.target) !== -1 || currentProjects.indexOf(target.target) !== -1) {
+                target.label = `\u2713 ${target.label}`;
             }
         }
 
-        return showProjectSelector(server, targets);
+        return pickLaunchTarget(targets, currentProjects).then(async launchTarget => {
+            if (launchTarget) {
+                return serverPool.getServerForLaunchTarget(launchTarget).restart(launchTarget);
+            }
+        });
     });
 }
 
 export async function showProjectSelector(server: OmniSharpServer, targets: LaunchTarget[]): Promise<void> {
-    return vscode.window.showQuickPick(targets, {
-        matchOnDescription: true,
-        placeHolder: `Select 1 of ${targets.length} projects`
-    }).then(async launchTarget => {
+    return pickLaunchTarget(targets).then(async launchTarget => {
         if (launchTarget) {
             return server.restart(launchTarget);
         }
     });
 }
 
+const selectSeveralProjectsItem: vscode.QuickPickItem = {
+    label: 'Select several projects...',
+    description: 'Load .csproj projects together'
+};
+
+/**
+ * Lets the user pick a launch target. Several projects can be picked together in a second step to launch them
+ * as a single target.
+ */
+async function pickLaunchTarget(targets: LaunchTarget[], loadedProjects: string[] = []): Promise<LaunchTarget> {
+    const projects = targets.filter(target => target.workspaceKind === LaunchTargetKind.Project);
+    const items: vscode.QuickPickItem[] = projects.length > 1 ? [...targets, selectSeveralProjectsItem] : targets;
+
+    const picked = await vscode.window.showQuickPick(items, {
+        matchOnDescription: true,
+        placeHolder: `Select 1 of ${targets.length} projects`
+    });
+
+    if (picked !== selectSeveralProjectsItem) {
+        return <LaunchTarget>picked;
+    }
+
+    const pickedProjects = await vscode.window.showQuickPick(
+        projects.map(project => ({ label: project.label, description: project.description, picked: loadedProjects.indexOf(project.target) !== -1, project })), {
+            matchOnDescription: true,
+            canPickMany: true,
+            placeHolder: 'Select the .csproj projects to load together'
+        });
+
+    if (!pickedProjects || pickedProjects.length === 0) {
+        return undefined;
+    }
+
+    return pickedProjects.length === 1
+        ? pickedProjects[0].project
+        : createProjectsLaunchTarget(pickedProjects.map(item => item.project));
+}
+
 interface Command {
     label: string;
     description: string;
@@ -131,7 +289,7 @@ function projectsToCommands(projects: protocol.ProjectDescriptor[], eventStream:
                     label: `dotnet restore - (${project.Name || path.basename(project.Directory)})`,
                     description: projectDirectory,
                     async execute() {
-                        return dotnetRestore(projectDirectory, eventStream, project.Name);
+                        await dotnetRestore(projectDirectory, eventStream, project.Name);
                     }
                 });
             });
@@ -162,9 +320,62 @@ async function reAnalyzeCurrentProject(server: OmniSharpServer, eventStream: Eve
 async function dotnetRestoreAllProjects(server: OmniSharpServer, eventStream: EventStream): Promise<void> {
     let descriptors = await getProjectDescriptors(server);
     eventStream.post(new CommandDotNetRestoreStart());
-    for (let descriptor of descriptors) {
-        await dotnetRestore(descriptor.Directory, eventStream, descriptor.Name);
+    await dotnetRestoreProjects(descriptors.map(descriptor => descriptor.FilePath), eventStream);
+}
+
+function getServerForProject(project: protocol.MSBuildProject, serverPool: OmniSharpServerPool): OmniSharpServer {
+    return serverPool.getServerForPath(project.Path) || serverPool.primary;
+}
+
+async function restoreProject(node: ProjectTreeNode, eventStream: EventStream): Promise<void> {
+    eventStream.post(new CommandDotNetRestoreStart());
+    await dotnetRestore(path.dirname(node.project.Path), eventStream, node.project.Path);
+}
+
+async function reAnalyzeProject(node: ProjectTreeNode, serverPool: OmniSharpServerPool): Promise<void> {
+    await serverUtils.reAnalyze(getServerForProject(node.project, serverPool), {
+        fileName: node.project.Path
+    });
+}
+
+async function runProjectTests(node: ProjectTreeNode, optionProvider: OptionProvider): Promise<void> {
+    const projectPath = node.project.Path;
+    const properties = getActiveMSBuildProperties(optionProvider.GetLatestOptions());
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectPath));
+    const task = new vscode.Task(
+        { type: 'shell' },
+        folder || vscode.TaskScope.Workspace,
+        `test ${path.basename(projectPath)}`,
+        'dotnet',
+        new vscode.ShellExecution('dotnet', ['test', projectPath, ...getCommandLinePropertyArguments(properties)], { cwd: path.dirname(projectPath) }),
+        '$msCompile');
+
+    await vscode.tasks.executeTask(task);
+}
+
+async function openProjectFile(node: ProjectTreeNode): Promise<void> {
+    await vscode.window.showTextDocument(vscode.Uri.file(node.project.Path));
+}
+
+async function generateProjectAssets(node: ProjectTreeNode, serverPool: OmniSharpServerPool, activeTargetFrameworks: ActiveTargetFrameworks, optionProvider: OptionProvider): Promise<void> {
+    const server = getServerForProject(node.project, serverPool);
+    const info = await serverUtils.requestWorkspaceInformation(server);
+
+    // Launch the selected project when it is executable, otherwise let the user pick one.
+    const executableProjects = info.MsBuild ? protocol.findExecutableMSBuildProjects(info.MsBuild.Projects) : [];
+    const selectedIndex = executableProjects.findIndex(project => project.Path === node.project.Path);
+    return generateAssets(server, selectedIndex !== -1 ? selectedIndex : undefined, activeTargetFrameworks, getActiveMSBuildProperties(optionProvider.GetLatestOptions()));
+}
+
+async function dotnetRestoreUnresolvedProjects(reporter: UnresolvedDependencyReporter, eventStream: EventStream): Promise<void> {
+    const projects = reporter.getProjects();
+    if (projects.length === 0) {
+        vscode.window.showInformationMessage('All dependencies are resolved.');
+        return;
     }
+
+    eventStream.post(new CommandDotNetRestoreStart());
+    await dotnetRestoreProjects(projects.map(project => project.projectPath), eventStream);
 }
 
 async function getProjectDescriptors(server: OmniSharpServer): Promise<protocol.ProjectDescriptor[]> {
@@ -180,39 +391,3 @@ async function getProjectDescriptors(server: OmniSharpServer): Promise<protocol.
 
     return descriptors;
 }
-
-export async function dotnetRestore(cwd: string, eventStream: EventStream, filePath?: string): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-        let cmd = 'dotnet';
-        let args = ['restore'];
-
-        if (filePath) {
-            args.push(filePath);
-        }
-
-        let dotnet = cp.spawn(cmd, args, { cwd: cwd, env: process.env });
-
-        function handleData(stream: NodeJS.ReadableStream) {
-            stream.on('data', chunk => {
-                eventStream.post(new CommandDotNetRestoreProgress(chunk.toString()));
-            });
-
-            stream.on('err', err => {
-                eventStream.post(new CommandDotNetRestoreProgress(`ERROR: ${err}`));
-            });
-        }
-
-        handleData(dotnet.stdout);
-        handleData(dotnet.stderr);
-
-        dotnet.on('close', (code, signal) => {
-            eventStream.post(new CommandDotNetRestoreSucceeded(`Done: ${code}.`));
-            resolve();
-        });
-
-        dotnet.on('error', err => {
-            eventStream.post(new CommandDotNetRestoreFailed(`ERROR: ${err}`));
-            reject(err);
-        });
-    });
-}
@@ -0,0 +1,355 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import CompositeDisposable from '../CompositeDisposable';
+import { IDisposable } from '../Disposable';
+import { EventStream } from '../EventStream';
+import { countTestOutcomes, findEnclosingTestMethods, findReferencingProjects, getChangedSymbols, getTestMethods, ProjectReferences } from '../omnisharp/impactedTests';
+import { ContinuousTestingDisabled, ContinuousTestRunCancelled, ContinuousTestRunCompleted, ContinuousTestRunFailed, ContinuousTestRunStart } from '../omnisharp/loggingEvents';
+import * as protocol from '../omnisharp/protocol';
+import { OmniSharpServer } from '../omnisharp/server';
+import { readProjectReferences } from '../omnisharp/solutionFile';
+import { detectTestFramework, splitTestName } from '../omnisharp/testTree';
+import * as serverUtils from '../omnisharp/utils';
+import OptionProvider from '../observers/OptionProvider';
+import TestManager from './dotnetTest';
+
+interface ProjectInfo extends ProjectReferences {
+    project: protocol.MSBuildProject;
+    testFrameworkName?: string;
+}
+
+interface ContinuousTestRun {
+    files: Map<string, Set<number>>;
+    cancellation: vscode.CancellationTokenSource;
+
+    /**
+     * Settles once the run has ended, including the request that was in flight when it was cancelled.
+     */
+    done: Promise<void>;
+}
+
+interface ImpactedTests {
+    project: ProjectInfo;
+
+    /**
+     * A file of the project, by which OmniSharp finds the project to run the tests in.
+     */
+    fileName: string;
+    testFrameworkName: string;
+
+    /**
+     * The tests to run, or undefined to run all tests of the project.
+     */
+    methodNames?: Set<string>;
+}
+
+/**
+ * Reruns the tests impacted by the C# files that were saved when continuous testing is turned on: the tests in the
+ * saved files and the tests of the test projects that reference their projects. Saves in quick succession are
+ * combined into one run, and a run that is still going when the next one starts is cancelled. The next run starts
+ * once the tests of the cancelled run that OmniSharp is still running have finished.
+ */
+export default class ContinuousTesting implements IDisposable {
+    private _disposables = new CompositeDisposable();
+
+    // The zero-based lines changed since each file was last saved, to find the symbols that changed.
+    private _changedLines = new Map<string, Set<number>>();
+    private _pendingFiles = new Map<string, Set<number>>();
+    private _timer: NodeJS.Timer;
+    private _run: ContinuousTestRun;
+
+    constructor(private _server: OmniSharpServer, private _testManager: TestManager, private _optionProvider: OptionProvider, private _eventStream: EventStream) {
+    }
+
+    public register(): void {
+        this._disposables.add(vscode.commands.registerCommand('dotnet.test.toggleContinuousTesting', async () => this.toggle()));
+        this._disposables.add(vscode.commands.registerCommand('dotnet.test.cancelContinuousTestRun', () => this.cancel()));
+
+        this._disposables.add(vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document.languageId !== 'csharp' || event.contentChanges.length === 0) {
+                return;
+            }
+
+            // Lines moved by later edits are not tracked, so this is only an approximation of the changed lines.
+            const lines = this._changedLines.get(event.document.fileName) || new Set<number>();
+            for (const change of event.contentChanges) {
+                const insertedLineCount = change.text.split('\n').length - 1;
+                for (let line = change.range.start.line; line <= change.range.start.line + insertedLineCount; line++) {
+                    lines.add(line);
+                }
+            }
+
+            this._changedLines.set(event.document.fileName, lines);
+        }));
+
+        this._disposables.add(vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.languageId === 'csharp' && this._optionProvider.GetLatestOptions().continuousTesting) {
+                this._schedule(document.fileName);
+            }
+        }));
+
+        this._disposables.add(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('omnisharp.continuousTesting') && !this._optionProvider.GetLatestOptions().continuousTesting) {
+                clearTimeout(this._timer);
+                this._pendingFiles.clear();
+                this.cancel();
+                this._eventStream.post(new ContinuousTestingDisabled());
+            }
+        }));
+    }
+
+    public dispose(): void {
+        clearTimeout(this._timer);
+        this.cancel();
+        this._disposables.dispose();
+    }
+
+    public async toggle(): Promise<void> {
+        const enabled = !this._optionProvider.GetLatestOptions().continuousTesting;
+        const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        await vscode.workspace.getConfiguration('omnisharp').update('continuousTesting', enabled, target);
+
+        vscode.window.showInformationMessage(enabled
+            ? 'Continuous testing is on. The impacted tests are run whenever a C# file is saved.'
+            : 'Continuous testing is off.');
+    }
+
+    public cancel(): void {
+        if (this._run) {
+            this._run.cancellation.cancel();
+        }
+    }
+
+    private _schedule(fileName: string): void {
+        const pendingLines = this._pendingFiles.get(fileName) || new Set<number>();
+        (this._changedLines.get(fileName) || new Set<number>()).forEach(line => pendingLines.add(line));
+        this._pendingFiles.set(fileName, pendingLines);
+        this._changedLines.delete(fileName);
+
+        clearTimeout(this._timer);
+        this._timer = setTimeout(async () => this._startRun(), this._optionProvider.GetLatestOptions().continuousTestingDelay);
+    }
+
+    private async _startRun(): Promise<void> {
+        const files = this._pendingFiles;
+        this._pendingFiles = new Map<string, Set<number>>();
+
+        // The files of a cancelled run are tested with the files saved since.
+        const previous = this._run;
+        if (previous) {
+            previous.cancellation.cancel();
+            for (const [fileName, lines] of previous.files) {
+                const pendingLines = files.get(fileName) || new Set<number>();
+                lines.forEach(line => pendingLines.add(line));
+                files.set(fileName, pendingLines);
+            }
+        }
+
+        const run: ContinuousTestRun = { files, cancellation: new vscode.CancellationTokenSource(), done: undefined };
+        this._run = run;
+        run.done = this._executeRun(run, previous);
+        await run.done;
+    }
+
+    private async _executeRun(run: ContinuousTestRun, previous: ContinuousTestRun | undefined): Promise<void> {
+        try {
+            // OmniSharp finishes the tests it is running even when the run is cancelled, so the next run waits for them.
+            if (previous) {
+                await previous.done;
+            }
+
+            // Either a newer run took over the files while this one was waiting, or the run was cancelled.
+            if (run.cancellation.token.isCancellationRequested) {
+                if (this._run === run) {
+                    this._eventStream.post(new ContinuousTestRunCancelled());
+                }
+
+                return;
+            }
+
+            const results = await this._runImpactedTests(run.files, run.cancellation.token);
+
+            // A run that was cancelled for a newer one leaves reporting to it.
+            if (results && this._run === run) {
+                this._eventStream.post(run.cancellation.token.isCancellationRequested ? new ContinuousTestRunCancelled() : new ContinuousTestRunCompleted(countTestOutcomes(results)));
+            }
+        }
+        finally {
+            run.cancellation.dispose();
+            if (this._run === run) {
+                this._run = undefined;
+            }
+        }
+    }
+
+    private async _runImpactedTests(files: Map<string, Set<number>>, token: vscode.CancellationToken): Promise<protocol.V2.DotNetTestResult[] | undefined> {
+        if (!this._server.isRunning()) {
+            return undefined;
+        }
+
+        this._eventStream.post(new ContinuousTestRunStart(Array.from(files.keys())));
+
+        const results: protocol.V2.DotNetTestResult[] = [];
+        const runId = this._testManager.createTestRunId();
+        try {
+            const impactedTests = await this._findImpactedTests(files, token);
+            for (const tests of impactedTests) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+
+                const methodNames = tests.methodNames ? Array.from(tests.methodNames) : await this._discoverTests(tests);
+                if (methodNames.length === 0 || token.isCancellationRequested) {
+                    continue;
+                }
+
+                results.push(...(await this._testManager.runDotnetTestsInClass(getClassNames(methodNames), methodNames, tests.fileName, tests.testFrameworkName, /* noBuild */ false, runId) || []));
+            }
+        }
+        catch (error) {
+            // Partial results would pass for a completed run. The next save starts over.
+            this._eventStream.post(new ContinuousTestRunFailed(`Could not run the tests impacted by ${Array.from(files.keys()).join(', ')}: ${error}`));
+            return undefined;
+        }
+
+        return results;
+    }
+
+    private async _findImpactedTests(files: Map<string, Set<number>>, token: vscode.CancellationToken): Promise<ImpactedTests[]> {
+        const workspaceInfo = await serverUtils.requestWorkspaceInformation(this._server);
+        const projects = await Promise.all((workspaceInfo.MsBuild ? workspaceInfo.MsBuild.Projects : []).map(async project => readProjectInfo(project)));
+        const impacted = new Map<string, ImpactedTests>();
+
+        for (const [fileName, changedLines] of files) {
+            const elements = await this._getCodeElements(fileName, token);
+
+            for (const owner of projects.filter(project => project.project.SourceFiles.indexOf(fileName) !== -1)) {
+                // The tests in the saved file itself.
+                if (owner.testFrameworkName) {
+                    for (const testMethod of getTestMethods(elements)) {
+                        addTest(impacted, owner, fileName, testMethod.testFrameworkName, testMethod.methodName);
+                    }
+                }
+
+                const referencingTestProjects = findReferencingProjects(owner.projectPath, projects)
+                    .filter(projectPath => projectPath !== owner.projectPath)
+                    .map(projectPath => projects.find(project => project.projectPath === projectPath))
+                    .filter(project => project.testFrameworkName && project.project.SourceFiles.length > 0);
+
+                if (referencingTestProjects.length === 0) {
+                    continue;
+                }
+
+                const testsUsingChanges = this._optionProvider.GetLatestOptions().continuousTestingUseFindUsages
+                    ? await this._findTestsUsingChangedSymbols(fileName, elements, Array.from(changedLines), referencingTestProjects, token)
+                    : undefined;
+
+                for (const testProject of referencingTestProjects) {
+                    const tests = testsUsingChanges && testsUsingChanges.get(testProject.projectPath);
+                    if (tests) {
+                        tests.forEach(test => addTest(impacted, testProject, test.fileName, test.testFrameworkName, test.methodName));
+                    }
+                    else {
+                        impacted.set(testProject.projectPath, { project: testProject, fileName: getProjectFileName(testProject.project), testFrameworkName: testProject.testFrameworkName });
+                    }
+                }
+            }
+        }
+
+        return Array.from(impacted.values());
+    }
+
+    /**
+     * Returns the tests of each test project that use the changed symbols of a file. A test project is left out
+     * when no changed symbol was found, or when the symbols are only used outside of its tests, so that all of its
+     * tests are run.
+     */
+    private async _findTestsUsingChangedSymbols(fileName: string, elements: protocol.V2.Structure.CodeElement[], changedLines: number[], testProjects: ProjectInfo[], token: vscode.CancellationToken) {
+        const usageLines = new Map<string, number[]>();
+        for (const symbol of getChangedSymbols(elements, changedLines)) {
+            const position = symbol.Ranges[protocol.V2.SymbolRangeNames.Name].Start;
+            const usages = await serverUtils.findUsages(this._server, { FileName: fileName, Line: position.Line, Column: position.Column, OnlyThisFile: false, ExcludeDefinition: true }, token);
+            for (const usage of (usages && usages.QuickFixes) || []) {
+                usageLines.set(usage.FileName, [...(usageLines.get(usage.FileName) || []), usage.Line]);
+            }
+        }
+
+        const tests = new Map<string, { fileName: string, testFrameworkName: string, methodName: string }[]>();
+        for (const [usageFileName, lines] of usageLines) {
+            const testProject = testProjects.find(project => project.project.SourceFiles.indexOf(usageFileName) !== -1);
+            if (!testProject) {
+                continue;
+            }
+
+            const testMethods = findEnclosingTestMethods(getTestMethods(await this._getCodeElements(usageFileName, token)), lines);
+            tests.set(testProject.projectPath, [
+                ...(tests.get(testProject.projectPath) || []),
+                ...testMethods.map(testMethod => ({ fileName: usageFileName, testFrameworkName: testMethod.testFrameworkName, methodName: testMethod.methodName }))
+            ]);
+        }
+
+        for (const [projectPath, projectTests] of tests) {
+            if (projectTests.length === 0) {
+                tests.delete(projectPath);
+            }
+        }
+
+        return tests;
+    }
+
+    private async _getCodeElements(fileName: string, token: vscode.CancellationToken): Promise<protocol.V2.Structure.CodeElement[]> {
+        const response = await serverUtils.codeStructure(this._server, { FileName: fileName }, token);
+        return (response && response.Elements) || [];
+    }
+
+    private async _discoverTests(tests: ImpactedTests): Promise<string[]> {
+        const discovered = await this._testManager.discoverTests(tests.fileName, tests.testFrameworkName, /* noBuild */ false) || [];
+
+        // A parameterized test is discovered for each set of arguments, but is run by its method.
+        return Array.from(new Set(discovered.map(test => {
+            const { namespaceName, className, methodName } = splitTestName(test.FullyQualifiedName);
+            return [namespaceName, className, methodName].filter(part => part.length > 0).join('.');
+        })));
+    }
+}
+
+async function readProjectInfo(project: protocol.MSBuildProject): Promise<ProjectInfo> {
+    try {
+        const projectText = await fs.promises.readFile(project.Path, 'utf8');
+        return { project, projectPath: project.Path, references: await readProjectReferences(project.Path), testFrameworkName: detectTestFramework(projectText) };
+    }
+    catch {
+        return { project, projectPath: project.Path, references: [] };
+    }
+}
+
+function getProjectFileName(project: protocol.MSBuildProject): string {
+    const objFolder = `${path.sep}obj${path.sep}`;
+    return project.SourceFiles.find(sourceFile => sourceFile.indexOf(objFolder) === -1) || project.SourceFiles[0];
+}
+
+function addTest(impacted: Map<string, ImpactedTests>, project: ProjectInfo, fileName: string, testFrameworkName: string, methodName: string) {
+    const existing = impacted.get(project.projectPath);
+    if (!existing) {
+        impacted.set(project.projectPath, { project, fileName, testFrameworkName, methodNames: new Set<string>([methodName]) });
+    }
+    else if (existing.methodNames) {
+        existing.methodNames.add(methodName);
+    }
+}
+
+/**
+ * Returns the classes of the given tests, for the test log. The impacted tests of a project may span several classes.
+ */
+function getClassNames(methodNames: string[]): string {
+    return Array.from(new Set(methodNames.map(methodName => {
+        const { namespaceName, className } = splitTestName(methodName);
+        return [namespaceName, className].filter(part => part.length > 0).join('.');
+    }))).join(', ');
+}
@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { OmniSharpServer } from '../omnisharp/server';
+import { OmniSharpServerPool } from '../omnisharp/serverPool';
 import AbstractSupport from './abstractProvider';
 import * as protocol from '../omnisharp/protocol';
 import * as serverUtils from '../omnisharp/utils';
@@ -22,13 +23,10 @@ import { LanguageMiddlewareFeature } from '../omnisharp/LanguageMiddlewareFeatur
 export class Advisor {
 
     private _disposable: CompositeDisposable;
-    private _server: OmniSharpServer;
     private _packageRestoreCounter: number = 0;
     private _projectSourceFileCounts: { [path: string]: number } = Object.create(null);
 
-    constructor(server: OmniSharpServer, private optionProvider: OptionProvider) {
-        this._server = server;
-
+    constructor(server: OmniSharpServer, private _serverPool: OmniSharpServerPool, private optionProvider: OptionProvider) {
         let d1 = server.onProjectChange(this._onProjectChange, this);
         let d2 = server.onProjectAdded(this._onProjectAdded, this);
         let d3 = server.onProjectRemoved(this._onProjectRemoved, this);
@@ -93,7 +91,8 @@ export class Advisor {
     }
 
     private _isServerStarted(): boolean {
-        return this._server.isRunning();
+        // The primary server forwards the diagnostics requests to the other servers of the pool.
+        return this._serverPool.isRunning();
     }
 
     private _isOverFileLimit(): boolean {
@@ -0,0 +1,222 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cp from 'child_process';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IDisposable } from '../Disposable';
+import OptionProvider from '../observers/OptionProvider';
+import { getActiveMSBuildProperties, getCommandLinePropertyArguments } from '../omnisharp/msbuildProfiles';
+import { BuildDiagnostic, BuildDiagnosticTracker, MSBuildOutputParser, ProjectOutput } from '../omnisharp/msbuildOutput';
+import { OmniSharpServerPool } from '../omnisharp/serverPool';
+import * as serverUtils from '../omnisharp/utils';
+import { DotnetTaskType } from './dotnetRestore';
+
+type DotnetBuildCommand = 'build' | 'clean' | 'publish';
+
+interface BuildTargetItem extends vscode.QuickPickItem {
+    targetPath: string;
+    isSolution: boolean;
+}
+
+/**
+ * Builds, cleans and publishes projects and solutions as tasks, and shows the errors and warnings in the MSBuild
+ * output in the Problems panel. These include errors only a build reports, e.g. from source generators or targets,
+ * which are missing from the live diagnostics.
+ */
+export default class DotnetBuildCommands implements IDisposable {
+    private _tracker = new BuildDiagnosticTracker();
+    private _diagnostics = vscode.languages.createDiagnosticCollection('msbuild');
+
+    constructor(private _serverPool: OmniSharpServerPool, private _optionProvider: OptionProvider) {
+    }
+
+    public dispose() {
+        this._diagnostics.dispose();
+    }
+
+    public async buildProject(): Promise<void> {
+        const target = await this._pickTarget('Select the project to build', false);
+        if (target) {
+            await this._run('build', target);
+        }
+    }
+
+    public async buildSolution(): Promise<void> {
+        const targets = (await this._getTargets()).filter(target => target.isSolution);
+        if (targets.length === 0) {
+            vscode.window.showErrorMessage('No solution is loaded. Build a project instead.');
+            return;
+        }
+
+        const target = targets.length === 1 ? targets[0] : await vscode.window.showQuickPick(targets, { placeHolder: 'Select the solution to build' });
+        if (target) {
+            await this._run('build', target);
+        }
+    }
+
+    public async clean(): Promise<void> {
+        const target = await this._pickTarget('Select the solution or project to clean', true);
+        if (target) {
+            await this._run('clean', target);
+        }
+    }
+
+    public async publish(): Promise<void> {
+        const target = await this._pickTarget('Select the project to publish', false);
+        if (target) {
+            await this._run('publish', target);
+        }
+    }
+
+    private async _pickTarget(placeHolder: string, includeSolutions: boolean): Promise<BuildTargetItem | undefined> {
+        const targets = (await this._getTargets()).filter(target => includeSolutions || !target.isSolution);
+        if (targets.length === 0) {
+            vscode.window.showErrorMessage('No projects are loaded.');
+            return undefined;
+        }
+
+        return vscode.window.showQuickPick(targets, { matchOnDescription: true, placeHolder });
+    }
+
+    private async _getTargets(): Promise<BuildTargetItem[]> {
+        const servers = this._serverPool.servers.filter(server => server.isRunning());
+        const infos = await Promise.all(servers.map(async server => serverUtils.requestWorkspaceInformation(server)));
+
+        const targets: BuildTargetItem[] = [];
+        for (const info of infos) {
+            if (!info.MsBuild) {
+                continue;
+            }
+
+            const paths = info.MsBuild.SolutionPath ? [info.MsBuild.SolutionPath] : [];
+            paths.push(...info.MsBuild.Projects.map(project => project.Path));
+
+            for (const targetPath of paths) {
+                targets.push({
+                    label: path.basename(targetPath),
+                    description: vscode.workspace.asRelativePath(path.dirname(targetPath)),
+                    targetPath,
+                    isSolution: targetPath === info.MsBuild.SolutionPath
+                });
+            }
+        }
+
+        return targets;
+    }
+
+    private async _run(command: DotnetBuildCommand, target: BuildTargetItem): Promise<void> {
+        const properties = getActiveMSBuildProperties(this._optionProvider.GetLatestOptions());
+        const args = [
+            command,
+            target.targetPath,
+            '/property:GenerateFullPaths=true',
+            ...getCommandLinePropertyArguments(properties),
+            '/consoleloggerparameters:NoSummary'
+        ];
+
+        const cwd = path.dirname(target.targetPath);
+        const builtProjectPath = target.isSolution ? undefined : target.targetPath;
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(target.targetPath));
+        const task = new vscode.Task(
+            { type: DotnetTaskType, command, project: target.targetPath },
+            folder || vscode.TaskScope.Workspace,
+            `${command} ${target.label}`,
+            'dotnet',
+            new vscode.CustomExecution(async () => new DotnetProcessTerminal(args, cwd, (diagnostics, projectOutputs, exitCode) => this._onCompleted(command, builtProjectPath, diagnostics, projectOutputs, exitCode))));
+
+        task.group = command === 'clean' ? vscode.TaskGroup.Clean : vscode.TaskGroup.Build;
+        await vscode.tasks.executeTask(task);
+    }
+
+    private _onCompleted(command: DotnetBuildCommand, builtProjectPath: string | undefined, diagnostics: BuildDiagnostic[], projectOutputs: ProjectOutput[], exitCode: number | undefined) {
+        if (exitCode === undefined) {
+            // The output of a cancelled build is incomplete.
+            return;
+        }
+
+        if (command === 'clean') {
+            this._tracker.clear(builtProjectPath);
+        }
+        else {
+            this._tracker.update(builtProjectPath, diagnostics, projectOutputs);
+        }
+
+        this._diagnostics.clear();
+        for (const [fileName, fileDiagnostics] of this._tracker.getDiagnosticsByFile()) {
+            this._diagnostics.set(vscode.Uri.file(fileName), fileDiagnostics.map(toVSCodeDiagnostic));
+        }
+    }
+}
+
+/**
+ * Runs dotnet in the terminal of a task, parsing its output while it is written.
+ */
+class DotnetProcessTerminal implements vscode.Pseudoterminal {
+    private _onDidWrite = new vscode.EventEmitter<string>();
+    private _onDidClose = new vscode.EventEmitter<number>();
+    private _process: cp.ChildProcess;
+    private _exited = false;
+
+    public readonly onDidWrite = this._onDidWrite.event;
+    public readonly onDidClose = this._onDidClose.event;
+
+    constructor(private _args: string[], private _cwd: string, private _onExit: (diagnostics: BuildDiagnostic[], projectOutputs: ProjectOutput[], exitCode: number | undefined) => void) {
+    }
+
+    public open() {
+        const parser = new MSBuildOutputParser(this._cwd);
+        const write = (text: string) => this._onDidWrite.fire(text.replace(/\r?\n/g, '\r\n'));
+        const exit = (exitCode: number | undefined) => {
+            if (!this._exited) {
+                this._exited = true;
+                this._onExit(parser.finish(), parser.getProjectOutputs(), exitCode);
+                this._onDidClose.fire(exitCode === undefined ? 1 : exitCode);
+            }
+        };
+
+        write(`> dotnet ${this._args.join(' ')}\n\n`);
+        this._process = cp.spawn('dotnet', this._args, { cwd: this._cwd, env: process.env });
+
+        const handleData = (chunk: Buffer) => {
+            const text = chunk.toString();
+            parser.append(text);
+            write(text);
+        };
+
+        this._process.stdout.on('data', handleData);
+        this._process.stderr.on('data', handleData);
+        this._process.on('error', err => {
+            write(`${err.message}\n`);
+            exit(undefined);
+        });
+
+        // A process that was killed has no exit code.
+        this._process.on('close', (code: number | null) => exit(code === null ? undefined : code));
+    }
+
+    public close() {
+        if (this._process && !this._exited) {
+            this._process.kill();
+        }
+    }
+}
+
+function toVSCodeDiagnostic(diagnostic: BuildDiagnostic): vscode.Diagnostic {
+    const result = new vscode.Diagnostic(
+        new vscode.Range(diagnostic.startLine, diagnostic.startColumn, diagnostic.endLine, diagnostic.endColumn),
+        diagnostic.text,
+        diagnostic.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+    result.source = 'msbuild';
+    result.code = diagnostic.code;
+
+    if (diagnostic.projectPath && diagnostic.fileName !== diagnostic.projectPath) {
+        result.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(new vscode.Location(vscode.Uri.file(diagnostic.projectPath), new vscode.Position(0, 0)), `While building ${path.basename(diagnostic.projectPath)}`)
+        ];
+    }
+
+    return result;
+}
@@ -0,0 +1,154 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { mapWithConcurrency } from '../common';
+import { EventStream } from '../EventStream';
+import { CommandDotNetRestoreFailed, CommandDotNetRestoreProgress, CommandDotNetRestoreSucceeded } from '../omnisharp/loggingEvents';
+
+export const DotnetTaskType = 'csharp-dotnet';
+
+// Restoring too many projects at once makes them compete for the same packages and for the disk.
+const MaxParallelRestores = 4;
+
+export interface RestoreResult {
+    projectPath: string;
+    succeeded: boolean;
+    cancelled?: boolean;
+
+    /**
+     * The exit code of `dotnet restore`, or undefined when it was cancelled or could not be started.
+     */
+    exitCode?: number;
+}
+
+interface TaskResult {
+    exitCode?: number;
+    cancelled: boolean;
+
+    /**
+     * Why the task could not be started, if it was not.
+     */
+    error?: string;
+}
+
+/**
+ * Runs `dotnet restore` for a project, or for the projects of a folder, as a task, so that its output is shown
+ * in a terminal and its errors in the Problems panel.
+ */
+export async function dotnetRestore(cwd: string, eventStream: EventStream, filePath?: string, token?: vscode.CancellationToken): Promise<RestoreResult> {
+    const projectPath = filePath ? path.resolve(cwd, filePath) : cwd;
+    const args = filePath ? ['restore', filePath] : ['restore'];
+    const definition = { type: DotnetTaskType, command: 'restore', project: projectPath };
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectPath));
+    const task = new vscode.Task(
+        definition,
+        folder || vscode.TaskScope.Workspace,
+        `restore ${path.basename(projectPath)}`,
+        'dotnet',
+        new vscode.ProcessExecution('dotnet', args, { cwd }),
+        '$msCompile');
+    task.presentationOptions = { reveal: vscode.TaskRevealKind.Silent };
+
+    eventStream.post(new CommandDotNetRestoreProgress(`Restoring ${projectPath}...\n`));
+    const { exitCode, cancelled, error } = await executeTask(task, token);
+
+    if (exitCode === 0) {
+        eventStream.post(new CommandDotNetRestoreSucceeded(`Restored ${projectPath}.`, projectPath));
+    }
+    else if (cancelled) {
+        eventStream.post(new CommandDotNetRestoreFailed(`Restore of ${projectPath} was cancelled.`, projectPath));
+    }
+    else if (exitCode === undefined) {
+        eventStream.post(new CommandDotNetRestoreFailed(`Restore of ${projectPath} failed: ${error}`, projectPath));
+    }
+    else {
+        eventStream.post(new CommandDotNetRestoreFailed(`Restore of ${projectPath} failed with exit code ${exitCode}.`, projectPath));
+    }
+
+    return { projectPath, succeeded: exitCode === 0, cancelled, exitCode };
+}
+
+/**
+ * Restores several projects, a few at a time, and reports the projects that failed to restore.
+ */
+export async function dotnetRestoreProjects(projectPaths: string[], eventStream: EventStream): Promise<RestoreResult[]> {
+    const results = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Restoring ${projectPaths.length} project(s)`,
+        cancellable: true
+    }, async (progress, token) => {
+        let completed = 0;
+        return mapWithConcurrency(projectPaths, MaxParallelRestores, async projectPath => {
+            const result = token.isCancellationRequested
+                ? { projectPath, succeeded: false, cancelled: true }
+                : await dotnetRestore(path.dirname(projectPath), eventStream, projectPath, token);
+
+            completed++;
+            progress.report({ message: `${completed}/${projectPaths.length}`, increment: 100 / projectPaths.length });
+            return result;
+        });
+    });
+
+    const failed = results.filter(result => !result.succeeded && !result.cancelled);
+    const cancelled = results.filter(result => result.cancelled);
+    if (failed.length > 0) {
+        const names = failed.map(result => path.basename(result.projectPath)).join(', ');
+        vscode.window.showErrorMessage(`Restore failed for ${failed.length} of ${results.length} project(s): ${names}. See the Problems panel for details.`);
+    }
+    else if (cancelled.length > 0) {
+        vscode.window.showWarningMessage(`Restore was cancelled. ${results.length - cancelled.length} of ${results.length} project(s) were restored.`);
+    }
+    else {
+        vscode.window.showInformationMessage(`Restored ${results.length} project(s).`);
+    }
+
+    return results;
+}
+
+/**
+ * Executes a task and returns the exit code of its process, or why it did not run to completion.
+ */
+async function executeTask(task: vscode.Task, token?: vscode.CancellationToken): Promise<TaskResult> {
+    const disposables: vscode.Disposable[] = [];
+    const isTask = (execution: vscode.TaskExecution) =>
+        execution.task.definition.type === task.definition.type
+        && execution.task.definition.command === task.definition.command
+        && execution.task.definition.project === task.definition.project;
+
+    let cancelled = false;
+    try {
+        return await new Promise<TaskResult>(resolve => {
+            let exitCode: number;
+            disposables.push(vscode.tasks.onDidEndTaskProcess(e => {
+                if (isTask(e.execution)) {
+                    exitCode = e.exitCode;
+                }
+            }));
+
+            // A task also ends without a process, e.g. when it could not be started.
+            disposables.push(vscode.tasks.onDidEndTask(e => {
+                if (isTask(e.execution)) {
+                    resolve(exitCode === undefined && !cancelled
+                        ? { cancelled, error: 'the dotnet process could not be started.' }
+                        : { exitCode, cancelled });
+                }
+            }));
+
+            vscode.tasks.executeTask(task).then(execution => {
+                if (token) {
+                    disposables.push(token.onCancellationRequested(() => {
+                        cancelled = true;
+                        execution.terminate();
+                    }));
+                }
+            }, err => resolve({ cancelled, error: `${err}` }));
+        });
+    }
+    finally {
+        disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -3,6 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as fs from 'fs-extra';
 import * as net from 'net';
 import * as os from 'os';
 import * as path from 'path';
@@ -13,13 +14,16 @@ import * as vscode from 'vscode';
 import AbstractProvider from './abstractProvider';
 import { DebuggerEventsProtocol } from '../coreclr-debug/debuggerEventsProtocol';
 import { OmniSharpServer } from '../omnisharp/server';
-import { TestExecutionCountReport, ReportDotNetTestResults, DotNetTestRunStart, DotNetTestMessage, DotNetTestRunFailure, DotNetTestsInClassRunStart, DotNetTestDebugWarning, DotNetTestDebugProcessStart, DotNetTestDebugComplete, DotNetTestDebugStart, DotNetTestsInClassDebugStart, DotNetTestDebugStartFailure, DotNetTestRunInContextStart, DotNetTestDebugInContextStart } from '../omnisharp/loggingEvents';
+import { TestExecutionCountReport, ReportDotNetTestResults, DotNetTestRunStart, DotNetTestMessage, DotNetTestRunFailure, DotNetTestsInClassRunStart, DotNetTestDebugWarning, DotNetTestDebugProcessStart, DotNetTestDebugComplete, DotNetTestDebugStart, DotNetTestsInClassDebugStart, DotNetTestDebugStartFailure, DotNetTestRunInContextStart, DotNetTestDebugInContextStart, DotNetTestCoverageCollected, DotNetTestCoverageMissing } from '../omnisharp/loggingEvents';
 import { EventStream } from '../EventStream';
 import LaunchConfiguration from './launchConfiguration';
 import Disposable from '../Disposable';
 import CompositeDisposable from '../CompositeDisposable';
 import { LanguageMiddlewareFeature } from '../omnisharp/LanguageMiddlewareFeature';
 import OptionProvider from '../observers/OptionProvider';
+import ActiveTargetFrameworks from '../omnisharp/activeTargetFrameworks';
+import { createCoverageRunSettings, findCoberturaReports, parseCoberturaReport } from '../omnisharp/testCoverage';
+import { getTestFrameworkName, getTestMethods } from '../omnisharp/impactedTests';
 
 const TelemetryReportingDelay = 2 * 60 * 1000; // two minutes
 
@@ -29,8 +33,9 @@ export default class TestManager extends AbstractProvider {
     private _debugCounts: { [testFrameworkName: string]: number };
     private _telemetryIntervalId: NodeJS.Timer = undefined;
     private _eventStream: EventStream;
+    private _lastRunId = 0;
 
-    constructor(private optionProvider: OptionProvider, server: OmniSharpServer, eventStream: EventStream, languageMiddlewareFeature: LanguageMiddlewareFeature) {
+    constructor(private optionProvider: OptionProvider, server: OmniSharpServer, eventStream: EventStream, languageMiddlewareFeature: LanguageMiddlewareFeature, private activeTargetFrameworks?: ActiveTargetFrameworks) {
         super(server, languageMiddlewareFeature);
         this._eventStream = eventStream;
 
@@ -146,6 +151,12 @@ export default class TestManager extends AbstractProvider {
         }
     }
 
+    private _getTargetFrameworkVersion(project: protocol.MSBuildProject): string {
+        // Run the tests of multi-targeted projects for the framework the user selected.
+        const selected = this.activeTargetFrameworks && this.activeTargetFrameworks.getSelected(project);
+        return selected ? selected.Name : project.TargetFramework;
+    }
+
     private async _recordRunAndGetFrameworkVersion(fileName: string, testFrameworkName?: string): Promise<string> {
 
         await this._saveDirtyFiles();
@@ -161,7 +172,7 @@ export default class TestManager extends AbstractProvider {
         let targetFrameworkVersion: string;
 
         if (projectInfo.MsBuildProject) {
-            targetFrameworkVersion = projectInfo.MsBuildProject.TargetFramework;
+            targetFrameworkVersion = this._getTargetFrameworkVersion(projectInfo.MsBuildProject);
         }
         else {
             throw new Error('Expected project.json or .csproj project.');
@@ -221,8 +232,9 @@ export default class TestManager extends AbstractProvider {
         let runSettings = this._getRunSettings(fileName);
 
         try {
+            const start = Date.now();
             let results = await this._runTest(fileName, testMethod, runSettings, testFrameworkName, targetFrameworkVersion, noBuild);
-            this._eventStream.post(new ReportDotNetTestResults(results));
+            this._eventStream.post(new ReportDotNetTestResults(results, fileName, testFrameworkName, Date.now() - start, this.createTestRunId()));
         }
         catch (reason) {
             this._eventStream.post(new DotNetTestRunFailure(reason));
@@ -232,7 +244,67 @@ export default class TestManager extends AbstractProvider {
         }
     }
 
-    public async runDotnetTestsInClass(className: string, methodsInClass: string[], fileName: string, testFrameworkName: string, noBuild: boolean = false) {
+    /**
+     * Returns a new id for a test run. Requests that share a run id, such as those of a Test Explorer run, report
+     * their results and coverage as one run.
+     */
+    public createTestRunId(): number {
+        this._lastRunId += 1;
+        return this._lastRunId;
+    }
+
+    public async runDotnetTestsInClass(className: string, methodsInClass: string[], fileName: string, testFrameworkName: string, noBuild: boolean = false, runId: number = this.createTestRunId()): Promise<protocol.V2.DotNetTestResult[] | undefined> {
+        return this._runDotnetTestsInClassWithRunSettings(className, methodsInClass, fileName, testFrameworkName, noBuild, this._getRunSettings(fileName), runId);
+    }
+
+    /**
+     * Runs the tests with the coverage data collector enabled and posts the coverage it collected.
+     * The collector writes its report to a temporary results directory, which is removed afterwards.
+     * The reports of requests that share a run id are merged.
+     */
+    public async runDotnetTestsInClassWithCoverage(className: string, methodsInClass: string[], fileName: string, testFrameworkName: string, noBuild: boolean = false, runId: number = this.createTestRunId()): Promise<protocol.V2.DotNetTestResult[] | undefined> {
+        const resultsDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'csharp-coverage-'));
+        try {
+            const runSettingsPath = path.join(resultsDirectory, 'coverage.runsettings');
+            await fs.writeFile(runSettingsPath, await this._getCoverageRunSettings(fileName, resultsDirectory));
+
+            const results = await this._runDotnetTestsInClassWithRunSettings(className, methodsInClass, fileName, testFrameworkName, noBuild, runSettingsPath, runId);
+            if (results === undefined) {
+                return undefined;
+            }
+
+            const reports = await findCoberturaReports(resultsDirectory);
+            if (reports.length === 0) {
+                this._eventStream.post(new DotNetTestCoverageMissing(className));
+            }
+
+            for (const report of reports) {
+                this._eventStream.post(new DotNetTestCoverageCollected(parseCoberturaReport(await fs.readFile(report, 'utf8')), runId));
+            }
+
+            return results;
+        }
+        finally {
+            await fs.remove(resultsDirectory);
+        }
+    }
+
+    private async _getCoverageRunSettings(fileName: string, resultsDirectory: string): Promise<string> {
+        const runSettingsPath = this._getRunSettings(fileName);
+        let runSettingsText: string;
+        if (runSettingsPath) {
+            try {
+                runSettingsText = await fs.readFile(runSettingsPath, 'utf8');
+            }
+            catch (error) {
+                this._eventStream.post(new DotNetTestMessage(`Could not read the RunSettings '${runSettingsPath}': ${error}`));
+            }
+        }
+
+        return createCoverageRunSettings(runSettingsText, resultsDirectory);
+    }
+
+    private async _runDotnetTestsInClassWithRunSettings(className: string, methodsInClass: string[], fileName: string, testFrameworkName: string, noBuild: boolean, runSettings: string | undefined, runId: number): Promise<protocol.V2.DotNetTestResult[] | undefined> {
 
         //to do: try to get the class name here
         this._eventStream.post(new DotNetTestsInClassRunStart(className));
@@ -242,14 +314,16 @@ export default class TestManager extends AbstractProvider {
         });
 
         let targetFrameworkVersion = await this._recordRunAndGetFrameworkVersion(fileName, testFrameworkName);
-        let runSettings = this._getRunSettings(fileName);
 
         try {
+            const start = Date.now();
             let results = await this._runTestsInClass(fileName, runSettings, testFrameworkName, targetFrameworkVersion, methodsInClass, noBuild);
-            this._eventStream.post(new ReportDotNetTestResults(results));
+            this._eventStream.post(new ReportDotNetTestResults(results, fileName, testFrameworkName, Date.now() - start, runId));
+            return results;
         }
         catch (reason) {
             this._eventStream.post(new DotNetTestRunFailure(reason));
+            return undefined;
         }
         finally {
             listener.dispose();
@@ -294,6 +368,7 @@ export default class TestManager extends AbstractProvider {
         };
 
         try {
+            const start = Date.now();
             let response = await serverUtils.runTestsInContext(this._server, request);
             if (response.ContextHadNoTests) {
                 this._eventStream.post(new DotNetTestMessage(response.Failure));
@@ -302,7 +377,8 @@ export default class TestManager extends AbstractProvider {
                 this._eventStream.post(new DotNetTestRunFailure(response.Failure));
             }
             else {
-                this._eventStream.post(new ReportDotNetTestResults(response.Results));
+                const duration = Date.now() - start;
+                this._eventStream.post(new ReportDotNetTestResults(response.Results, fileName, await this._getTestFrameworkName(fileName), duration, this.createTestRunId()));
             }
         }
         catch (reason) {
@@ -313,6 +389,19 @@ export default class TestManager extends AbstractProvider {
         }
     }
 
+    /**
+     * Returns the test framework of the tests in a file. OmniSharp does not report the framework of tests run in context.
+     */
+    private async _getTestFrameworkName(fileName: string): Promise<string | undefined> {
+        try {
+            const response = await serverUtils.codeStructure(this._server, { FileName: fileName }, /* token */ undefined);
+            return getTestFrameworkName(getTestMethods((response && response.Elements) || []));
+        }
+        catch (error) {
+            return undefined;
+        }
+    }
+
     private _createLaunchConfiguration(program: string, args: string, cwd: string, environmentVariables: Map<string, string>, debuggerEventsPipeName: string) {
         let debugOptions = vscode.workspace.getConfiguration('csharp').get('unitTestDebuggingOptions');
 
@@ -393,7 +482,7 @@ export default class TestManager extends AbstractProvider {
         let targetFrameworkVersion: string;
 
         if (projectInfo.MsBuildProject) {
-            targetFrameworkVersion = projectInfo.MsBuildProject.TargetFramework;
+            targetFrameworkVersion = this._getTargetFrameworkVersion(projectInfo.MsBuildProject);
             debugEventListener = new DebugEventListener(fileName, this._server, this._eventStream);
             debugEventListener.start();
         }
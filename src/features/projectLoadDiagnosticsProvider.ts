@@ -0,0 +1,89 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IDisposable } from '../Disposable';
+import { EventType } from '../omnisharp/EventType';
+import { BaseEvent, OmnisharpServerMsBuildProjectDiagnostics, OmnisharpServerOnStop } from '../omnisharp/loggingEvents';
+import { ProjectLoadDiagnostic, ProjectLoadDiagnosticTracker } from '../omnisharp/projectLoadDiagnostics';
+
+/**
+ * Shows the errors and warnings MSBuild reported while loading projects in the Problems panel, at the
+ * project, .props or .targets file they were reported in.
+ */
+export default class ProjectLoadDiagnosticsProvider implements IDisposable {
+    private _tracker = new ProjectLoadDiagnosticTracker();
+    private _diagnostics = vscode.languages.createDiagnosticCollection('msbuild-project');
+
+    public dispose() {
+        this._diagnostics.dispose();
+    }
+
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.OmnisharpServerMsBuildProjectDiagnostics: {
+                const diagnosticsEvent = <OmnisharpServerMsBuildProjectDiagnostics>event;
+                this._tracker.update(diagnosticsEvent.diagnostics, diagnosticsEvent.target);
+                this._refresh();
+                break;
+            }
+            case EventType.OmnisharpServerOnStop:
+                // The projects are loaded again, and their diagnostics reported again, when the server restarts.
+                // The other servers of a pool keep running, so only the diagnostics of the stopped one go away.
+                this._tracker.clear((<OmnisharpServerOnStop>event).target);
+                this._refresh();
+                break;
+        }
+    }
+
+    public async showFailedProjects(): Promise<void> {
+        const failedProjects = this._tracker.getFailedProjects();
+        if (failedProjects.length === 0) {
+            vscode.window.showInformationMessage('All projects were loaded successfully.');
+            return;
+        }
+
+        const items = failedProjects.map(project => ({
+            label: path.basename(project.projectPath),
+            description: vscode.workspace.asRelativePath(path.dirname(project.projectPath)),
+            detail: project.errors.length > 1 ? `${project.errors[0].text} (and ${project.errors.length - 1} more errors)` : project.errors[0].text,
+            diagnostic: project.errors[0]
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, { matchOnDescription: true, matchOnDetail: true, placeHolder: `${failedProjects.length} project(s) failed to load` });
+        if (picked) {
+            await vscode.window.showTextDocument(vscode.Uri.file(picked.diagnostic.fileName), { selection: toRange(picked.diagnostic) });
+        }
+    }
+
+    private _refresh() {
+        this._diagnostics.clear();
+        for (const [fileName, diagnostics] of this._tracker.getDiagnosticsByFile()) {
+            this._diagnostics.set(vscode.Uri.file(fileName), diagnostics.map(toVSCodeDiagnostic));
+        }
+    }
+}
+
+function toRange(diagnostic: ProjectLoadDiagnostic): vscode.Range {
+    return new vscode.Range(diagnostic.startLine, diagnostic.startColumn, diagnostic.endLine, diagnostic.endColumn);
+}
+
+function toVSCodeDiagnostic(diagnostic: ProjectLoadDiagnostic): vscode.Diagnostic {
+    const result = new vscode.Diagnostic(
+        toRange(diagnostic),
+        diagnostic.text,
+        diagnostic.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+    result.source = 'msbuild';
+
+    // Errors reported in an imported file are caused by loading the project, so point to it.
+    if (diagnostic.fileName !== diagnostic.projectPath) {
+        result.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(new vscode.Location(vscode.Uri.file(diagnostic.projectPath), new vscode.Position(0, 0)), `While loading ${path.basename(diagnostic.projectPath)}`)
+        ];
+    }
+
+    return result;
+}
@@ -0,0 +1,136 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { EventEmitter, ThemeIcon, TreeDataProvider, TreeItem, TreeItemCollapsibleState, Uri, window } from 'vscode';
+import { IDisposable } from '../Disposable';
+import { EventType } from '../omnisharp/EventType';
+import { BaseEvent, WorkspaceInformationUpdated } from '../omnisharp/loggingEvents';
+import { createSolutionNode, getProjectChildren, ProjectTreeNode } from '../omnisharp/projectTree';
+import { OmniSharpServerPool } from '../omnisharp/serverPool';
+import { readProjectReferences } from '../omnisharp/solutionFile';
+
+const icons: { [kind: string]: string } = {
+    solution: 'root-folder',
+    project: 'project',
+    frameworks: 'library',
+    framework: 'symbol-constant',
+    references: 'references',
+    reference: 'project',
+    sourceFolder: 'folder',
+    sourceFile: 'file-code'
+};
+
+/**
+ * Shows the solutions and projects loaded by the OmniSharp servers. The tree is rebuilt from the workspace
+ * information every server posts after its projects were added, changed or removed.
+ */
+export default class ProjectTreeDataProvider implements TreeDataProvider<ProjectTreeNode>, IDisposable {
+    readonly viewId = 'csharp.projects';
+
+    private _registration: IDisposable;
+    private _solutions = new Map<string, ProjectTreeNode>();
+    private _onDidChangeTreeData = new EventEmitter<ProjectTreeNode | undefined>();
+
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private _serverPool: OmniSharpServerPool) {
+    }
+
+    public register(): void {
+        this._registration = window.registerTreeDataProvider(this.viewId, this);
+    }
+
+    public dispose(): void {
+        this._registration.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.WorkspaceInformationUpdated:
+                this.handleWorkspaceInformationUpdated(<WorkspaceInformationUpdated>event);
+                break;
+            case EventType.OmnisharpServerOnStop:
+                this.handleServerStop();
+                break;
+        }
+    }
+
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    public getTreeItem(node: ProjectTreeNode): TreeItem {
+        const collapsibleState = node.kind === 'solution'
+            ? TreeItemCollapsibleState.Expanded
+            : node.kind === 'project' || node.children && node.children.length > 0
+                ? TreeItemCollapsibleState.Collapsed
+                : TreeItemCollapsibleState.None;
+
+        const item = new TreeItem(node.label, collapsibleState);
+        item.description = node.description;
+        item.contextValue = node.kind;
+        item.iconPath = new ThemeIcon(icons[node.kind]);
+
+        if (node.path) {
+            item.resourceUri = Uri.file(node.path);
+            item.tooltip = node.path;
+        }
+
+        if (node.kind === 'sourceFile' || node.kind === 'reference') {
+            item.command = { command: 'vscode.open', title: 'Open', arguments: [Uri.file(node.path)] };
+        }
+
+        return item;
+    }
+
+    public async getChildren(node?: ProjectTreeNode): Promise<ProjectTreeNode[]> {
+        if (!node) {
+            return Array.from(this._solutions.values());
+        }
+
+        if (node.kind === 'project') {
+            let references: string[];
+            try {
+                references = await readProjectReferences(node.project.Path);
+            }
+            catch {
+                references = [];
+            }
+
+            return getProjectChildren(node.project, references);
+        }
+
+        return node.children || [];
+    }
+
+    private handleWorkspaceInformationUpdated(event: WorkspaceInformationUpdated) {
+        const target = event.launchTarget ? event.launchTarget.target : '';
+        const solution = createSolutionNode(event.info, target);
+        if (solution) {
+            this._solutions.set(target, solution);
+        }
+        else {
+            this._solutions.delete(target);
+        }
+
+        this.refresh();
+    }
+
+    private handleServerStop() {
+        // The stop event does not tell which server stopped, so keep only the projects of servers that still run.
+        const runningTargets = this._serverPool.servers
+            .filter(server => server.isRunning() && server.getLaunchTarget())
+            .map(server => server.getLaunchTarget().target);
+
+        for (const target of Array.from(this._solutions.keys())) {
+            if (runningTargets.indexOf(target) === -1) {
+                this._solutions.delete(target);
+            }
+        }
+
+        this.refresh();
+    }
+}
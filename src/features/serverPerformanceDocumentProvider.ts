@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import { EventEmitter, TextDocumentContentProvider, Uri, window, workspace } from 'vscode';
+import { OmniSharpServerPool } from '../omnisharp/serverPool';
+import { formatPerformanceReports, ServerPerformanceReport } from '../omnisharp/serverPerformance';
+import { IDisposable } from '../Disposable';
+
+/**
+ * Shows the request latencies and queue depths of the running OmniSharp servers as a read-only Markdown document.
+ */
+export default class ServerPerformanceDocumentProvider implements TextDocumentContentProvider, IDisposable {
+    readonly scheme = "omnisharp-performance";
+    readonly uri = Uri.parse(`${this.scheme}:OmniSharp Server Performance.md`);
+
+    private _registration: IDisposable;
+    private _onDidChange = new EventEmitter<Uri>();
+
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private _serverPool: OmniSharpServerPool) {
+    }
+
+    public register(): void {
+        this._registration = workspace.registerTextDocumentContentProvider(this.scheme, this);
+    }
+
+    public dispose(): void {
+        this._registration.dispose();
+        this._onDidChange.dispose();
+    }
+
+    public provideTextDocumentContent(uri: Uri): string {
+        return formatPerformanceReports(this._getReports());
+    }
+
+    public async show(): Promise<void> {
+        // Refresh the document in case it is still open from an earlier invocation.
+        this._onDidChange.fire(this.uri);
+
+        const document = await workspace.openTextDocument(this.uri);
+        await window.showTextDocument(document, { preview: false });
+    }
+
+    public async export(): Promise<void> {
+        const uri = await window.showSaveDialog({
+            defaultUri: workspace.workspaceFolders && workspace.workspaceFolders.length > 0
+                ? Uri.joinPath(workspace.workspaceFolders[0].uri, 'omnisharp-performance.json')
+                : undefined,
+            filters: { 'JSON': ['json'] }
+        });
+
+        if (uri) {
+            await fs.promises.writeFile(uri.fsPath, JSON.stringify(this._getReports(), null, 4));
+        }
+    }
+
+    private _getReports(): ServerPerformanceReport[] {
+        return this._serverPool.servers
+            .filter(server => server.isRunning())
+            .map(server => server.getPerformanceReport());
+    }
+}
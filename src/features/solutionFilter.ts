@@ -0,0 +1,99 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findLaunchTargets, LaunchTarget, LaunchTargetKind } from '../omnisharp/launcher';
+import { OmniSharpServerPool } from '../omnisharp/serverPool';
+import { addTransitiveReferences, getSolutionFilterPath, readSolutionFilterProjects, readSolutionProjects, SolutionProject, writeSolutionFilter } from '../omnisharp/solutionFile';
+import OptionProvider from '../observers/OptionProvider';
+
+interface ProjectItem extends vscode.QuickPickItem {
+    project: SolutionProject;
+}
+
+/**
+ * Lets the user pick the projects of a solution to load, writes a solution filter for them next to the
+ * solution and restarts OmniSharp with it. Large solutions load much faster when only part of them is needed.
+ */
+export default async function createSolutionFilter(serverPool: OmniSharpServerPool, optionProvider: OptionProvider): Promise<void> {
+    const solutionTargets = (await findLaunchTargets(optionProvider.GetLatestOptions()))
+        .filter(target => target.workspaceKind === LaunchTargetKind.Solution && /\.sln$/i.test(target.target));
+
+    if (solutionTargets.length === 0) {
+        vscode.window.showInformationMessage('No solution was found in the workspace.');
+        return;
+    }
+
+    const solutionTarget = solutionTargets.length === 1
+        ? solutionTargets[0]
+        : await vscode.window.showQuickPick(solutionTargets, { matchOnDescription: true, placeHolder: 'Select the solution to filter' });
+    if (!solutionTarget) {
+        return;
+    }
+
+    const solutionPath = solutionTarget.target;
+    const filterPath = getSolutionFilterPath(solutionPath);
+    const solutionProjects = await readSolutionProjects(solutionPath);
+
+    // Start from the projects of an earlier filter, so that it can be adjusted instead of recreated.
+    let previousProjects: string[] = [];
+    if (fs.existsSync(filterPath)) {
+        try {
+            previousProjects = await readSolutionFilterProjects(filterPath);
+        }
+        catch {
+            previousProjects = [];
+        }
+    }
+
+    const items: ProjectItem[] = solutionProjects.map(project => ({
+        label: project.name,
+        description: path.dirname(project.relativePath),
+        picked: previousProjects.indexOf(project.path) !== -1,
+        project
+    }));
+
+    const pickedItems = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        matchOnDescription: true,
+        placeHolder: `Select the projects of ${path.basename(solutionPath)} to load`
+    });
+    if (!pickedItems || pickedItems.length === 0) {
+        return;
+    }
+
+    let projects = pickedItems.map(item => item.project.path);
+
+    const withReferences = await addTransitiveReferences(projects);
+    const solutionProjectPaths = solutionProjects.map(project => project.path);
+    const referencedCount = withReferences.filter(project => projects.indexOf(project) === -1 && solutionProjectPaths.indexOf(project) !== -1).length;
+    if (referencedCount > 0) {
+        const includeReferences = `Include ${referencedCount} referenced project(s)`;
+        const choice = await vscode.window.showQuickPick([includeReferences, 'Only the selected projects'], {
+            placeHolder: 'The selected projects reference other projects of the solution. Without them, the filtered solution may not compile.'
+        });
+        if (!choice) {
+            return;
+        }
+
+        if (choice === includeReferences) {
+            projects = withReferences;
+        }
+    }
+
+    await writeSolutionFilter(filterPath, solutionPath, solutionProjects, projects);
+
+    const filterTarget: LaunchTarget = {
+        label: path.basename(filterPath),
+        description: vscode.workspace.asRelativePath(path.dirname(filterPath)),
+        target: filterPath,
+        directory: path.dirname(filterPath),
+        workspaceKind: LaunchTargetKind.Solution
+    };
+
+    await serverPool.getServerForLaunchTarget(filterTarget).restart(filterTarget);
+}
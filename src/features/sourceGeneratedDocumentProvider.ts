@@ -117,6 +117,33 @@ export default class SourceGeneratedDocumentProvider implements TextDocumentCont
         return uri;
     }
 
+    /**
+     * Returns the source-generated files that are currently open, keyed by document uri.
+     */
+    public getOpenSourceGeneratedFiles(): Map<string, SourceGeneratedFileInfo> {
+        return new Map<string, SourceGeneratedFileInfo>(this._uriToDocumentInfo);
+    }
+
+    /**
+     * Requests source-generated files that were open with a previous server instance again, so that
+     * the current server tracks them and their editors keep showing up-to-date content.
+     */
+    public async reopenSourceGeneratedFiles(files: Map<string, SourceGeneratedFileInfo>): Promise<void> {
+        for (const [uriString, fileInfo] of files) {
+            if (!workspace.textDocuments.some(document => document.uri.toString() === uriString)) {
+                continue;
+            }
+
+            try {
+                const response = await serverUtils.getSourceGeneratedFile(this.server, fileInfo, undefined);
+                const uri = this.addSourceGeneratedFile(fileInfo, response);
+                this._onDidChangeEmitter.fire(uri);
+            } catch {
+                continue;
+            }
+        }
+    }
+
     public provideTextDocumentContent(uri: Uri): string {
         return this._documents.get(this._uriToDocumentInfo.get(uri.toString())).Source;
     }
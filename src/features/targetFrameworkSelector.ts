@@ -0,0 +1,87 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import CompositeDisposable from '../CompositeDisposable';
+import { IDisposable } from '../Disposable';
+import { EventStream } from '../EventStream';
+import ActiveTargetFrameworks from '../omnisharp/activeTargetFrameworks';
+import { ActiveTargetFrameworkUpdated } from '../omnisharp/loggingEvents';
+import * as protocol from '../omnisharp/protocol';
+import { OmniSharpServer } from '../omnisharp/server';
+import * as serverUtils from '../omnisharp/utils';
+
+/**
+ * Tracks the project of the active C# document and lets the user select which of its target frameworks is active.
+ */
+export default class TargetFrameworkSelector implements IDisposable {
+    private _disposables: CompositeDisposable;
+    private _project: protocol.MSBuildProject;
+
+    constructor(private _server: OmniSharpServer, private _activeTargetFrameworks: ActiveTargetFrameworks, private _eventStream: EventStream) {
+        this._disposables = new CompositeDisposable(
+            vscode.commands.registerCommand('csharp.selectTargetFramework', async () => this.pickTargetFramework()),
+            vscode.window.onDidChangeActiveTextEditor(async editor => this.update(editor)),
+            this._server.onServerStart(async () => this.update(vscode.window.activeTextEditor)),
+            this._server.onProjectChange(async () => this.update(vscode.window.activeTextEditor)));
+    }
+
+    public dispose() {
+        this._disposables.dispose();
+    }
+
+    public async pickTargetFramework(): Promise<void> {
+        const project = this._project;
+        if (!project || project.TargetFrameworks.length < 2) {
+            vscode.window.showInformationMessage('The active document does not belong to a multi-targeted project.');
+            return;
+        }
+
+        const active = this._activeTargetFrameworks.getActive(project);
+        const items = project.TargetFrameworks.map(framework => ({
+            label: framework.ShortName,
+            description: framework === active ? `${framework.FriendlyName} (active)` : framework.FriendlyName,
+            framework
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: `Select the active target framework of ${path.basename(project.Path)}` });
+        if (picked) {
+            await this._activeTargetFrameworks.select(project, picked.framework);
+            this._postProject();
+        }
+    }
+
+    private async update(editor: vscode.TextEditor | undefined): Promise<void> {
+        if (!editor || editor.document.languageId !== 'csharp' || editor.document.uri.scheme !== 'file') {
+            // Keep showing the last project while e.g. the output panel has the focus.
+            return;
+        }
+
+        this._project = await this._requestProject(editor.document.fileName);
+        this._postProject();
+    }
+
+    private async _requestProject(fileName: string): Promise<protocol.MSBuildProject | undefined> {
+        if (!this._server.isRunning()) {
+            return undefined;
+        }
+
+        try {
+            const projectInfo = await serverUtils.requestProjectInformation(this._server, { FileName: fileName });
+            return projectInfo.MsBuildProject;
+        }
+        catch {
+            return undefined;
+        }
+    }
+
+    private _postProject() {
+        const project = this._project;
+        this._eventStream.post(project
+            ? new ActiveTargetFrameworkUpdated(project.Path, this._activeTargetFrameworks.getActive(project), project.TargetFrameworks)
+            : new ActiveTargetFrameworkUpdated());
+    }
+}
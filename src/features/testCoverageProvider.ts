@@ -0,0 +1,140 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import CompositeDisposable from '../CompositeDisposable';
+import { IDisposable } from '../Disposable';
+import { EventType } from '../omnisharp/EventType';
+import { BaseEvent, DotNetTestCoverageCollected } from '../omnisharp/loggingEvents';
+import { CoverageStore, CoverageSummary, formatCoverageSummary } from '../omnisharp/testCoverage';
+
+interface CoverageTreeNode {
+    kind: 'project' | 'file';
+    label: string;
+    summary: CoverageSummary;
+    fileName?: string;
+    children: CoverageTreeNode[];
+}
+
+function createGutterIcon(color: string): vscode.Uri {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="4" height="18"><rect width="4" height="18" fill="${color}"/></svg>`;
+    return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+}
+
+/**
+ * Shows the coverage collected by test runs with coverage as gutter decorations in C# editors, and summarizes it
+ * per project and file in the Test view. The coverage of a file is dropped as soon as the file is edited.
+ */
+export default class TestCoverageProvider implements vscode.TreeDataProvider<CoverageTreeNode>, IDisposable {
+    readonly viewId = 'csharp.testCoverage';
+
+    private _store = new CoverageStore();
+    private _disposables = new CompositeDisposable();
+    private _onDidChangeTreeData = new vscode.EventEmitter<CoverageTreeNode | undefined>();
+
+    private _coveredDecoration = vscode.window.createTextEditorDecorationType({
+        gutterIconPath: createGutterIcon('#2ea043'),
+        overviewRulerColor: 'rgba(46, 160, 67, 0.6)',
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+
+    private _uncoveredDecoration = vscode.window.createTextEditorDecorationType({
+        gutterIconPath: createGutterIcon('#f85149'),
+        overviewRulerColor: 'rgba(248, 81, 73, 0.6)',
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    public register(): void {
+        this._disposables.add(vscode.window.registerTreeDataProvider(this.viewId, this));
+        this._disposables.add(vscode.commands.registerCommand('dotnet.test.clearCoverage', () => this.clear()));
+        this._disposables.add(vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this._decorate(editor))));
+        this._disposables.add(vscode.workspace.onDidChangeTextDocument(event => {
+            // The covered lines no longer match the lines of the changed file.
+            if (event.contentChanges.length > 0 && this._store.invalidate(event.document.fileName)) {
+                this._refresh();
+            }
+        }));
+    }
+
+    public dispose(): void {
+        this._disposables.dispose();
+        this._coveredDecoration.dispose();
+        this._uncoveredDecoration.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.DotNetTestCoverageCollected: {
+                const collected = <DotNetTestCoverageCollected>event;
+                this._store.update(collected.files, collected.runId);
+                this._refresh();
+                break;
+            }
+        }
+    }
+
+    public clear(): void {
+        this._store.clear();
+        this._refresh();
+    }
+
+    public getTreeItem(node: CoverageTreeNode): vscode.TreeItem {
+        const item = new vscode.TreeItem(node.label, node.kind === 'project' ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+        item.description = formatCoverageSummary(node.summary);
+        item.contextValue = node.kind;
+
+        if (node.kind === 'file') {
+            item.resourceUri = vscode.Uri.file(node.fileName);
+            item.tooltip = node.fileName;
+            item.command = { command: 'vscode.open', title: 'Open', arguments: [vscode.Uri.file(node.fileName)] };
+        }
+        else {
+            item.iconPath = new vscode.ThemeIcon('project');
+        }
+
+        return item;
+    }
+
+    public getChildren(node?: CoverageTreeNode): CoverageTreeNode[] {
+        if (node) {
+            return node.children;
+        }
+
+        return this._store.getSummary().map(project => ({
+            kind: 'project',
+            label: project.projectName,
+            summary: project,
+            children: project.files.map(file => ({
+                kind: 'file',
+                label: vscode.workspace.asRelativePath(file.fileName, false) || path.basename(file.fileName),
+                summary: file,
+                fileName: file.fileName,
+                children: []
+            }))
+        }));
+    }
+
+    private _refresh(): void {
+        vscode.window.visibleTextEditors.forEach(editor => this._decorate(editor));
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private _decorate(editor: vscode.TextEditor): void {
+        if (editor.document.languageId !== 'csharp') {
+            return;
+        }
+
+        const file = this._store.getFile(editor.document.fileName);
+        const lines = file ? file.lines.filter(line => line.line < editor.document.lineCount) : [];
+        const toRange = (line: number) => new vscode.Range(line, 0, line, 0);
+
+        editor.setDecorations(this._coveredDecoration, lines.filter(line => line.hits > 0).map(line => toRange(line.line)));
+        editor.setDecorations(this._uncoveredDecoration, lines.filter(line => line.hits === 0).map(line => toRange(line.line)));
+    }
+}
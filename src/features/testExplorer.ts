@@ -0,0 +1,327 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import CompositeDisposable from '../CompositeDisposable';
+import { IDisposable } from '../Disposable';
+import { EventType } from '../omnisharp/EventType';
+import { BaseEvent, WorkspaceInformationUpdated } from '../omnisharp/loggingEvents';
+import * as protocol from '../omnisharp/protocol';
+import { OmniSharpServer } from '../omnisharp/server';
+import { createProjectTestNodes, detectTestFramework, summarizeTestResults, TestNode, TestResultSummary } from '../omnisharp/testTree';
+import * as serverUtils from '../omnisharp/utils';
+import TestManager from './dotnetTest';
+
+interface TestProject {
+    project: protocol.MSBuildProject;
+    testFrameworkName: string;
+
+    /**
+     * A source file of the project, which OmniSharp finds the project to discover and run tests in by.
+     */
+    fileName: string;
+}
+
+interface TestClassRun {
+    classItem: vscode.TestItem;
+    testProject: TestProject;
+    methods: vscode.TestItem[];
+}
+
+// The name TestManager gives the launch configurations it debugs tests with.
+const TestLaunchConfigurationName = '.NET Test Launch';
+
+/**
+ * Shows the tests of the test projects in the Test Explorer, grouped by project, namespace and class, and runs and
+ * debugs them through the TestManager. The tests of a project are discovered when it is expanded, as that builds it.
+ */
+export default class TestExplorer implements IDisposable {
+    private _controller = vscode.tests.createTestController('csharp.tests', '.NET Tests');
+    private _projects = new Map<string, TestProject>();
+    private _nodes = new WeakMap<vscode.TestItem, TestNode>();
+    private _disposables = new CompositeDisposable();
+
+    constructor(private _server: OmniSharpServer, private _testManager: TestManager) {
+        this._controller.resolveHandler = async item => item ? this._discoverTests(item) : this._loadProjects();
+        this._controller.refreshHandler = async () => this._refresh();
+
+        this._controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, async (request, token) => this._runTests(request, token, vscode.TestRunProfileKind.Run), true);
+        this._controller.createRunProfile('Debug', vscode.TestRunProfileKind.Debug, async (request, token) => this._runTests(request, token, vscode.TestRunProfileKind.Debug), true);
+        this._controller.createRunProfile('Run with Coverage', vscode.TestRunProfileKind.Coverage, async (request, token) => this._runTests(request, token, vscode.TestRunProfileKind.Coverage), true);
+
+        this._disposables.add(this._server.onServerStop(() => {
+            this._projects.clear();
+            this._controller.items.replace([]);
+        }));
+    }
+
+    public dispose() {
+        this._disposables.dispose();
+        this._controller.dispose();
+    }
+
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.WorkspaceInformationUpdated:
+                this.handleWorkspaceInformationUpdated(<WorkspaceInformationUpdated>event);
+                break;
+        }
+    }
+
+    private async handleWorkspaceInformationUpdated(event: WorkspaceInformationUpdated) {
+        // The tests run through this server, so the projects of other servers are left out.
+        if (event.launchTarget === this._server.getLaunchTarget()) {
+            await this._updateProjects(event.info);
+        }
+    }
+
+    private async _loadProjects(): Promise<void> {
+        if (this._server.isRunning()) {
+            await this._updateProjects(await serverUtils.requestWorkspaceInformation(this._server));
+        }
+    }
+
+    private async _refresh(): Promise<void> {
+        // Forget the discovered tests, so they are discovered again when the projects are expanded.
+        this._projects.clear();
+        this._controller.items.replace([]);
+        await this._loadProjects();
+    }
+
+    private async _updateProjects(info: protocol.WorkspaceInformationResponse) {
+        const projects = info.MsBuild ? info.MsBuild.Projects : [];
+        const testProjects = await Promise.all(projects.map(async project => this._getTestProject(project)));
+
+        this._projects.clear();
+        const items: vscode.TestItem[] = [];
+        for (const testProject of testProjects.filter(testProject => testProject !== undefined)) {
+            this._projects.set(testProject.project.Path, testProject);
+
+            // Keep the tests that were discovered already.
+            const existing = this._controller.items.get(testProject.project.Path);
+            if (existing) {
+                items.push(existing);
+                continue;
+            }
+
+            const item = this._controller.createTestItem(testProject.project.Path, path.basename(testProject.project.Path), vscode.Uri.file(testProject.project.Path));
+            item.canResolveChildren = true;
+            this._nodes.set(item, { id: item.id, kind: 'project', label: item.label, children: [] });
+            items.push(item);
+        }
+
+        this._controller.items.replace(items);
+    }
+
+    private async _getTestProject(project: protocol.MSBuildProject): Promise<TestProject | undefined> {
+        let projectText: string;
+        try {
+            projectText = await fs.promises.readFile(project.Path, 'utf8');
+        }
+        catch {
+            return undefined;
+        }
+
+        const testFrameworkName = detectTestFramework(projectText);
+        const objFolder = `${path.sep}obj${path.sep}`;
+        const fileName = project.SourceFiles.find(sourceFile => sourceFile.indexOf(objFolder) === -1) || project.SourceFiles[0];
+
+        return testFrameworkName && fileName ? { project, testFrameworkName, fileName } : undefined;
+    }
+
+    private async _discoverTests(projectItem: vscode.TestItem): Promise<void> {
+        const testProject = this._projects.get(projectItem.id);
+        if (!testProject) {
+            return;
+        }
+
+        projectItem.busy = true;
+        try {
+            const tests = await this._testManager.discoverTests(testProject.fileName, testProject.testFrameworkName, /* noBuild */ false);
+            if (tests === undefined) {
+                projectItem.error = 'The tests could not be discovered. Build the project and check the .NET Test Log for details.';
+                return;
+            }
+
+            projectItem.error = undefined;
+            projectItem.children.replace(createProjectTestNodes(testProject.project.Path, tests).map(node => this._createItem(node)));
+        }
+        finally {
+            projectItem.busy = false;
+        }
+    }
+
+    private _createItem(node: TestNode): vscode.TestItem {
+        const item = this._controller.createTestItem(node.id, node.label, node.fileName ? vscode.Uri.file(node.fileName) : undefined);
+        if (node.line !== undefined) {
+            item.range = new vscode.Range(node.line, 0, node.line, 0);
+        }
+
+        item.children.replace(node.children.map(child => this._createItem(child)));
+        this._nodes.set(item, node);
+        return item;
+    }
+
+    private async _runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken, kind: vscode.TestRunProfileKind): Promise<void> {
+        const run = this._controller.createTestRun(request);
+        const runId = this._testManager.createTestRunId();
+        try {
+            const roots: vscode.TestItem[] = request.include ? [...request.include] : [];
+            if (!request.include) {
+                this._controller.items.forEach(item => { roots.push(item); });
+            }
+
+            for (const classRun of await this._getClassRuns(roots, request.exclude || [])) {
+                if (token.isCancellationRequested) {
+                    classRun.methods.forEach(method => run.skipped(method));
+                    continue;
+                }
+
+                classRun.methods.forEach(method => run.started(method));
+                if (kind === vscode.TestRunProfileKind.Debug) {
+                    await this._debugClass(classRun, token);
+                }
+                else {
+                    await this._runClass(classRun, run, runId, /* withCoverage */ kind === vscode.TestRunProfileKind.Coverage);
+                }
+            }
+        }
+        finally {
+            run.end();
+        }
+    }
+
+    /**
+     * Returns the test methods to run, grouped by their class. OmniSharp runs the tests of a class in one request.
+     */
+    private async _getClassRuns(roots: vscode.TestItem[], excluded: readonly vscode.TestItem[]): Promise<TestClassRun[]> {
+        const classRuns = new Map<vscode.TestItem, TestClassRun>();
+
+        const collect = async (item: vscode.TestItem, testProject: TestProject) => {
+            if (excluded.indexOf(item) !== -1) {
+                return;
+            }
+
+            const node = this._nodes.get(item);
+            if (node.kind === 'project' && item.children.size === 0) {
+                await this._discoverTests(item);
+            }
+
+            if (node.kind === 'method') {
+                if (!classRuns.has(item.parent)) {
+                    classRuns.set(item.parent, { classItem: item.parent, testProject, methods: [] });
+                }
+
+                classRuns.get(item.parent).methods.push(item);
+                return;
+            }
+
+            const children: vscode.TestItem[] = [];
+            item.children.forEach(child => { children.push(child); });
+            for (const child of children) {
+                await collect(child, testProject);
+            }
+        };
+
+        for (const root of roots) {
+            const testProject = this._projects.get(getProjectItem(root).id);
+            if (testProject) {
+                await collect(root, testProject);
+            }
+        }
+
+        return Array.from(classRuns.values());
+    }
+
+    private async _runClass(classRun: TestClassRun, run: vscode.TestRun, runId: number, withCoverage: boolean): Promise<void> {
+        const classNode = this._nodes.get(classRun.classItem);
+        const methodNames = classRun.methods.map(method => this._nodes.get(method).fullyQualifiedName);
+        const fileName = classNode.fileName || classRun.testProject.fileName;
+
+        const start = Date.now();
+        const results = withCoverage
+            ? await this._testManager.runDotnetTestsInClassWithCoverage(classNode.fullyQualifiedName, methodNames, fileName, classRun.testProject.testFrameworkName, /* noBuild */ false, runId)
+            : await this._testManager.runDotnetTestsInClass(classNode.fullyQualifiedName, methodNames, fileName, classRun.testProject.testFrameworkName, /* noBuild */ false, runId);
+
+        // OmniSharp does not report how long each test took, only a single test is timed by the request.
+        const duration = classRun.methods.length === 1 ? Date.now() - start : undefined;
+
+        if (results === undefined) {
+            const message = new vscode.TestMessage('The tests could not be run. Check the .NET Test Log for details.');
+            classRun.methods.forEach(method => run.errored(method, message));
+            return;
+        }
+
+        const summaries = summarizeTestResults(results);
+        for (const method of classRun.methods) {
+            const summary = summaries.get(this._nodes.get(method).fullyQualifiedName);
+            reportResult(run, method, summary, duration);
+        }
+    }
+
+    private async _debugClass(classRun: TestClassRun, token: vscode.CancellationToken): Promise<void> {
+        const classNode = this._nodes.get(classRun.classItem);
+        const methodNames = classRun.methods.map(method => this._nodes.get(method).fullyQualifiedName);
+        const fileName = classNode.fileName || classRun.testProject.fileName;
+
+        const disposables: vscode.Disposable[] = [];
+        const terminated = new Promise<void>(resolve => {
+            disposables.push(vscode.debug.onDidTerminateDebugSession(session => {
+                if (session.configuration.name === TestLaunchConfigurationName) {
+                    resolve();
+                }
+            }));
+            disposables.push(token.onCancellationRequested(() => resolve()));
+        });
+
+        try {
+            // The debugger does not report results, so the run ends when debugging does.
+            if (await this._testManager.debugDotnetTestsInClass(classNode.fullyQualifiedName, methodNames, fileName, classRun.testProject.testFrameworkName)) {
+                await terminated;
+            }
+        }
+        finally {
+            disposables.forEach(disposable => disposable.dispose());
+        }
+    }
+}
+
+function getProjectItem(item: vscode.TestItem): vscode.TestItem {
+    return item.parent ? getProjectItem(item.parent) : item;
+}
+
+function reportResult(run: vscode.TestRun, item: vscode.TestItem, summary: TestResultSummary | undefined, duration: number | undefined) {
+    if (!summary) {
+        run.errored(item, new vscode.TestMessage('The test did not report a result.'));
+        return;
+    }
+
+    if (summary.output.length > 0) {
+        run.appendOutput(`${summary.output.join('\r\n')}\r\n`, undefined, item);
+    }
+
+    switch (summary.outcome) {
+        case 'passed':
+            run.passed(item, duration);
+            break;
+        case 'skipped':
+            run.skipped(item);
+            break;
+        case 'failed': {
+            const message = new vscode.TestMessage(summary.errorStackTrace ? `${summary.errorMessage}\n${summary.errorStackTrace}` : summary.errorMessage || 'The test failed.');
+            if (item.uri && item.range) {
+                message.location = new vscode.Location(item.uri, item.range);
+            }
+
+            run.failed(item, message, duration);
+            break;
+        }
+        default:
+            run.errored(item, new vscode.TestMessage('The test did not report a result.'), duration);
+            break;
+    }
+}
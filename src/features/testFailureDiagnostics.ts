@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { IDisposable } from '../Disposable';
+import { EventType } from '../omnisharp/EventType';
+import { BaseEvent, ReportDotNetTestResults } from '../omnisharp/loggingEvents';
+import { TestFailure, TestFailureTracker } from '../omnisharp/testFailures';
+
+/**
+ * Marks the line each failing test failed on, as found in its stack trace, in the Problems panel.
+ * The marker goes away when the test passes again.
+ */
+export default class TestFailureDiagnostics implements IDisposable {
+    private _tracker = new TestFailureTracker();
+    private _diagnostics = vscode.languages.createDiagnosticCollection('tests');
+
+    public dispose() {
+        this._diagnostics.dispose();
+    }
+
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.ReportDotNetTestResults:
+                this.handleReportDotNetTestResults(<ReportDotNetTestResults>event);
+                break;
+        }
+    }
+
+    private handleReportDotNetTestResults(event: ReportDotNetTestResults) {
+        if (!event.results) {
+            return;
+        }
+
+        this._tracker.update(event.results);
+
+        this._diagnostics.clear();
+        for (const [fileName, failures] of this._tracker.getFailuresByFile()) {
+            this._diagnostics.set(vscode.Uri.file(fileName), failures.map(toVSCodeDiagnostic));
+        }
+    }
+}
+
+function toVSCodeDiagnostic(failure: TestFailure): vscode.Diagnostic {
+    const [failingFrame, ...callingFrames] = failure.frames;
+    const result = new vscode.Diagnostic(
+        new vscode.Range(failingFrame.line, 0, failingFrame.line, Number.MAX_VALUE),
+        `${failure.testName} failed: ${failure.errorMessage}`,
+        vscode.DiagnosticSeverity.Error);
+    result.source = 'tests';
+    result.relatedInformation = callingFrames.map(frame =>
+        new vscode.DiagnosticRelatedInformation(new vscode.Location(vscode.Uri.file(frame.fileName), new vscode.Position(frame.line, 0)), `at ${frame.method}`));
+
+    return result;
+}
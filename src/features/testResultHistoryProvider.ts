@@ -0,0 +1,145 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import CompositeDisposable from '../CompositeDisposable';
+import { IDisposable } from '../Disposable';
+import { EventStream } from '../EventStream';
+import { EventType } from '../omnisharp/EventType';
+import { BaseEvent, DotNetTestFlakyTestsDetected, ReportDotNetTestResults } from '../omnisharp/loggingEvents';
+import TestResultHistory, { formatTestHistory, RecordedTest } from '../omnisharp/testResultHistory';
+import { splitTestName } from '../omnisharp/testTree';
+import TestManager from './dotnetTest';
+
+/**
+ * Records the results of every test run in the workspace state, shows the history of a test as a read-only
+ * Markdown document, and reruns the tests that failed in the latest run.
+ */
+export default class TestResultHistoryProvider implements vscode.TextDocumentContentProvider, IDisposable {
+    readonly scheme = 'csharp-test-history';
+
+    private _disposables = new CompositeDisposable();
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private _history: TestResultHistory, private _testManager: TestManager, private _eventStream: EventStream) {
+    }
+
+    public register(): void {
+        this._disposables.add(vscode.workspace.registerTextDocumentContentProvider(this.scheme, this));
+        this._disposables.add(vscode.commands.registerCommand('dotnet.test.showHistory', async () => this.showHistory()));
+        this._disposables.add(vscode.commands.registerCommand('dotnet.test.rerunFailed', async () => this.rerunFailedTests()));
+        this._disposables.add(vscode.commands.registerCommand('dotnet.test.clearHistory', async () => this._history.clear()));
+
+        // Results are only compared between runs of the same code.
+        this._disposables.add(vscode.workspace.onDidSaveTextDocument(async document => {
+            if (document.languageId === 'csharp') {
+                await this._history.markCodeChanged();
+            }
+        }));
+    }
+
+    public dispose(): void {
+        this._disposables.dispose();
+        this._onDidChange.dispose();
+    }
+
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.ReportDotNetTestResults:
+                this.handleReportDotNetTestResults(<ReportDotNetTestResults>event);
+                break;
+        }
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        const testName = uri.path.replace(/\.md$/, '');
+        const test = this._history.getTest(testName);
+        return test ? formatTestHistory(test, this._history.isFlaky(testName)) : `# ${testName}\n\nThe test has no recorded results.\n`;
+    }
+
+    public async showHistory(): Promise<void> {
+        const tests = this._history.getTests();
+        if (tests.length === 0) {
+            vscode.window.showInformationMessage('No test results have been recorded in this workspace yet.');
+            return;
+        }
+
+        const items = tests.map(test => ({
+            label: this._history.isFlaky(test.testName) ? `$(warning) ${test.testName}` : test.testName,
+            description: `${test.records[0].outcome}, ${new Date(test.records[0].timestamp).toLocaleString()}`,
+            test
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, { matchOnDescription: true, placeHolder: 'Select the test to show the history of' });
+        if (picked) {
+            const uri = vscode.Uri.from({ scheme: this.scheme, path: `${picked.test.testName}.md` });
+
+            // Refresh the document in case it is still open from an earlier invocation.
+            this._onDidChange.fire(uri);
+            await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri), { preview: false });
+        }
+    }
+
+    public async rerunFailedTests(): Promise<void> {
+        const lastFailedTests = this._history.getFailedTestsOfLastRun();
+        if (lastFailedTests.length === 0) {
+            vscode.window.showInformationMessage('No tests failed in the last run.');
+            return;
+        }
+
+        // OmniSharp needs the test framework to run tests by name.
+        const failedTests = lastFailedTests.filter(test => test.fileName && test.testFrameworkName);
+        if (failedTests.length < lastFailedTests.length) {
+            vscode.window.showWarningMessage(`${lastFailedTests.length - failedTests.length} of the failed tests cannot be rerun, as their test framework is unknown. Run them from the Test Explorer instead.`);
+        }
+
+        // OmniSharp runs the tests of a class in one request.
+        const classes = new Map<string, RecordedTest[]>();
+        for (const test of failedTests) {
+            const { namespaceName, className } = splitTestName(test.testName);
+            const key = `${test.fileName}|${namespaceName}.${className}`;
+            if (!classes.has(key)) {
+                classes.set(key, []);
+            }
+
+            classes.get(key).push(test);
+        }
+
+        const runId = this._testManager.createTestRunId();
+        for (const tests of classes.values()) {
+            const { namespaceName, className } = splitTestName(tests[0].testName);
+            const methodNames = Array.from(new Set(tests.map(test => {
+                const name = splitTestName(test.testName);
+                return [name.namespaceName, name.className, name.methodName].filter(part => part.length > 0).join('.');
+            })));
+
+            await this._testManager.runDotnetTestsInClass(namespaceName ? `${namespaceName}.${className}` : className, methodNames, tests[0].fileName, tests[0].testFrameworkName, /* noBuild */ false, runId);
+        }
+    }
+
+    private async handleReportDotNetTestResults(event: ReportDotNetTestResults) {
+        // OmniSharp reports no results when the tests could not be built.
+        if (!event.results || event.results.length === 0) {
+            return;
+        }
+
+        const flakyBefore = new Set<string>(this._history.getFlakyTests().map(test => test.testName));
+        await this._history.record({
+            results: event.results,
+            fileName: event.fileName,
+            testFrameworkName: event.testFrameworkName,
+            duration: event.duration,
+            timestamp: Date.now(),
+            runId: event.runId
+        });
+
+        const newlyFlaky = this._history.getFlakyTests().map(test => test.testName).filter(testName => !flakyBefore.has(testName));
+        if (newlyFlaky.length > 0) {
+            this._eventStream.post(new DotNetTestFlakyTestsDetected(newlyFlaky));
+        }
+    }
+}
@@ -0,0 +1,105 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IDisposable } from '../Disposable';
+import { EventStream } from '../EventStream';
+import { EventType } from '../omnisharp/EventType';
+import { BaseEvent, CommandDotNetRestoreSucceeded, OmnisharpServerUnresolvedDependencies, UnresolvedDependenciesUpdated } from '../omnisharp/loggingEvents';
+import { findPackageReference, formatPackageDependency, ProjectUnresolvedDependencies, UnresolvedDependencyTracker } from '../omnisharp/unresolvedDependencies';
+
+// Projects report their unresolved dependencies one by one while a solution loads; they are announced together.
+const NotificationDelay = 1000;
+
+/**
+ * Reports the packages OmniSharp could not resolve as diagnostics on the project files that reference them,
+ * until the projects are restored.
+ */
+export default class UnresolvedDependencyReporter implements IDisposable {
+    private _tracker = new UnresolvedDependencyTracker();
+    private _diagnostics = vscode.languages.createDiagnosticCollection('dotnet-restore');
+    private _notificationTimeout: NodeJS.Timer;
+
+    constructor(private _eventStream: EventStream) {
+    }
+
+    public dispose() {
+        clearTimeout(this._notificationTimeout);
+        this._diagnostics.dispose();
+    }
+
+    public getProjects(): ProjectUnresolvedDependencies[] {
+        return this._tracker.getProjects();
+    }
+
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.OmnisharpServerUnresolvedDependencies:
+                this.handleUnresolvedDependencies(<OmnisharpServerUnresolvedDependencies>event);
+                break;
+            case EventType.CommandDotNetRestoreSucceeded:
+                this.handleRestoreSucceeded(<CommandDotNetRestoreSucceeded>event);
+                break;
+        }
+    }
+
+    private async handleUnresolvedDependencies(event: OmnisharpServerUnresolvedDependencies) {
+        const message = event.unresolvedDependencies;
+        this._tracker.update(message);
+
+        const project = this._tracker.getProjects().find(p => p.projectPath === message.FileName);
+        if (!project) {
+            this._diagnostics.delete(vscode.Uri.file(message.FileName));
+            return;
+        }
+
+        const diagnostics = await this._createDiagnostics(project);
+
+        // The project may have been restored while its file was read.
+        if (this._tracker.getProjects().some(p => p.projectPath === project.projectPath)) {
+            this._diagnostics.set(vscode.Uri.file(project.projectPath), diagnostics);
+        }
+
+        clearTimeout(this._notificationTimeout);
+        this._notificationTimeout = setTimeout(() => this._eventStream.post(new UnresolvedDependenciesUpdated(this._tracker.getProjects())), NotificationDelay);
+    }
+
+    private handleRestoreSucceeded(event: CommandDotNetRestoreSucceeded) {
+        if (!event.projectPath) {
+            return;
+        }
+
+        for (const projectPath of this._tracker.clear(event.projectPath)) {
+            this._diagnostics.delete(vscode.Uri.file(projectPath));
+        }
+    }
+
+    private async _createDiagnostics(project: ProjectUnresolvedDependencies): Promise<vscode.Diagnostic[]> {
+        let projectText = '';
+        try {
+            projectText = await fs.promises.readFile(project.projectPath, 'utf8');
+        }
+        catch {
+            // Without the text of the project, all dependencies are reported at the start of the file.
+        }
+
+        return project.dependencies.map(dependency => {
+            // Transitive dependencies have no PackageReference of their own.
+            const location = findPackageReference(projectText, dependency.Name);
+            const range = location
+                ? new vscode.Range(location.line, location.startCharacter, location.line, location.endCharacter)
+                : new vscode.Range(0, 0, 0, 0);
+
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                `The package ${formatPackageDependency(dependency)} referenced by ${path.basename(project.projectPath)} could not be resolved. Restore the project to download it.`,
+                vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'dotnet restore';
+            return diagnostic;
+        });
+    }
+}
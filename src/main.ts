@@ -26,6 +26,8 @@ import { TelemetryObserver } from './observers/TelemetryObserver';
 import TelemetryReporter from 'vscode-extension-telemetry';
 import { addJSONProviders } from './features/json/jsonContributions';
 import { ProjectStatusBarObserver } from './observers/ProjectStatusBarObserver';
+import { TargetFrameworkStatusBarObserver } from './observers/TargetFrameworkStatusBarObserver';
+import { MSBuildProfileStatusBarObserver } from './observers/MSBuildProfileStatusBarObserver';
 import CSharpExtensionExports from './CSharpExtensionExports';
 import { vscodeNetworkSettingsProvider } from './NetworkSettings';
 import { ErrorMessageObserver } from './observers/ErrorMessageObserver';
@@ -44,6 +46,7 @@ import IInstallDependencies from './packageManager/IInstallDependencies';
 import { installRuntimeDependencies } from './InstallRuntimeDependencies';
 import { isValidDownload } from './packageManager/isValidDownload';
 import { BackgroundWorkStatusBarObserver } from './observers/BackgroundWorkStatusBarObserver';
+import { ContinuousTestingStatusBarObserver } from './observers/ContinuousTestingStatusBarObserver';
 import { getDotnetPackApi } from './DotnetPack';
 
 export async function activate(context: vscode.ExtensionContext): Promise<CSharpExtensionExports> {
@@ -103,11 +106,26 @@ export async function activate(context: vscode.ExtensionContext): Promise<CSharp
     let projectStatusBarObserver = new ProjectStatusBarObserver(projectStatusBar);
     eventStream.subscribe(projectStatusBarObserver.post);
 
+    let targetFrameworkStatusBar = new StatusBarItemAdapter(vscode.window.createStatusBarItem("C#-Target-Framework-Selector", vscode.StatusBarAlignment.Left, Number.MIN_VALUE + 1));
+    targetFrameworkStatusBar.name = "C# Target Framework Selector";
+    let targetFrameworkStatusBarObserver = new TargetFrameworkStatusBarObserver(targetFrameworkStatusBar);
+    eventStream.subscribe(targetFrameworkStatusBarObserver.post);
+
+    let msbuildProfileStatusBar = new StatusBarItemAdapter(vscode.window.createStatusBarItem("C#-MSBuild-Profile-Selector", vscode.StatusBarAlignment.Left, Number.MIN_VALUE + 1));
+    msbuildProfileStatusBar.name = "C# MSBuild Profile Selector";
+    let msbuildProfileStatusBarObserver = new MSBuildProfileStatusBarObserver(msbuildProfileStatusBar);
+    eventStream.subscribe(msbuildProfileStatusBarObserver.post);
+
     let backgroundWorkStatusBar = new StatusBarItemAdapter(vscode.window.createStatusBarItem("C#-Code-Analysis", vscode.StatusBarAlignment.Left, Number.MIN_VALUE));
     backgroundWorkStatusBar.name = "C# Code Analysis";
     let backgroundWorkStatusBarObserver = new BackgroundWorkStatusBarObserver(backgroundWorkStatusBar);
     eventStream.subscribe(backgroundWorkStatusBarObserver.post);
 
+    let continuousTestingStatusBar = new StatusBarItemAdapter(vscode.window.createStatusBarItem("C#-Continuous-Testing", vscode.StatusBarAlignment.Left, Number.MIN_VALUE));
+    continuousTestingStatusBar.name = "C# Continuous Testing";
+    let continuousTestingStatusBarObserver = new ContinuousTestingStatusBarObserver(continuousTestingStatusBar);
+    eventStream.subscribe(continuousTestingStatusBarObserver.post);
+
     let openURLObserver = new OpenURLObserver(vscode);
     eventStream.subscribe(openURLObserver.post);
 
@@ -0,0 +1,36 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { BaseEvent, ContinuousTestRunCompleted, ContinuousTestRunFailed, ContinuousTestRunStart } from '../omnisharp/loggingEvents';
+import { BaseStatusBarItemObserver } from './BaseStatusBarItemObserver';
+import { EventType } from '../omnisharp/EventType';
+import { StatusBarColors } from './OmnisharpStatusBarObserver';
+
+export class ContinuousTestingStatusBarObserver extends BaseStatusBarItemObserver {
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.ContinuousTestRunStart: {
+                const fileNames = (<ContinuousTestRunStart>event).fileNames.map(fileName => fileName.replace(/^.*[\\\/]/, ''));
+                this.SetAndShowStatusBar('$(sync~spin) Testing', 'dotnet.test.cancelContinuousTestRun', undefined, `Running the tests impacted by ${fileNames.join(', ')}. Click to cancel`);
+                break;
+            }
+            case EventType.ContinuousTestRunCompleted: {
+                const counts = (<ContinuousTestRunCompleted>event).counts;
+                const tooltip = `Last continuous test run: ${counts.passed} passed, ${counts.failed} failed, ${counts.skipped} skipped. Click to rerun the failed tests`;
+                this.SetAndShowStatusBar(`$(pass) ${counts.passed} $(error) ${counts.failed}`, 'dotnet.test.rerunFailed', counts.failed > 0 ? StatusBarColors.Red : undefined, tooltip);
+                break;
+            }
+            case EventType.ContinuousTestRunCancelled:
+                this.SetAndShowStatusBar('$(beaker) Testing cancelled', 'dotnet.test.rerunFailed', undefined, 'The continuous test run was cancelled');
+                break;
+            case EventType.ContinuousTestRunFailed:
+                this.SetAndShowStatusBar('$(warning) Testing failed', 'dotnet.test.rerunFailed', StatusBarColors.Yellow, (<ContinuousTestRunFailed>event).message);
+                break;
+            case EventType.ContinuousTestingDisabled:
+                this.ResetAndHideStatusBar();
+                break;
+        }
+    }
+}
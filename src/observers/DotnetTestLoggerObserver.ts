@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { BaseEvent, DotNetTestRunStart, DotNetTestMessage, ReportDotNetTestResults, DotNetTestDebugStart, DotNetTestDebugWarning, DotNetTestDebugProcessStart, DotNetTestsInClassDebugStart, DotNetTestsInClassRunStart, DotNetTestRunInContextStart, DotNetTestDebugInContextStart } from "../omnisharp/loggingEvents";
+import { BaseEvent, DotNetTestRunStart, DotNetTestMessage, ReportDotNetTestResults, DotNetTestDebugStart, DotNetTestDebugWarning, DotNetTestDebugProcessStart, DotNetTestsInClassDebugStart, DotNetTestsInClassRunStart, DotNetTestRunInContextStart, DotNetTestDebugInContextStart, DotNetTestFlakyTestsDetected, DotNetTestCoverageMissing, ContinuousTestRunFailed } from "../omnisharp/loggingEvents";
 import { BaseLoggerObserver } from "./BaseLoggerObserver";
 import * as protocol from '../omnisharp/protocol';
 import { EventType } from "../omnisharp/EventType";
@@ -21,6 +21,16 @@ export default class DotNetTestLoggerObserver extends BaseLoggerObserver {
             case EventType.ReportDotNetTestResults:
                 this.handleReportDotnetTestResults(<ReportDotNetTestResults>event);
                 break;
+            case EventType.DotNetTestFlakyTestsDetected:
+                this.handleDotNetTestFlakyTestsDetected(<DotNetTestFlakyTestsDetected>event);
+                break;
+            case EventType.DotNetTestCoverageMissing:
+                this.handleDotNetTestCoverageMissing(<DotNetTestCoverageMissing>event);
+                break;
+            case EventType.ContinuousTestRunFailed:
+                this.logger.appendLine((<ContinuousTestRunFailed>event).message);
+                this.logger.appendLine('');
+                break;
             case EventType.DotNetTestDebugStart:
                 this.handleDotnetTestDebugStart(<DotNetTestDebugStart>event);
                 break;
@@ -116,6 +126,19 @@ export default class DotNetTestLoggerObserver extends BaseLoggerObserver {
         }
     }
 
+    private handleDotNetTestFlakyTestsDetected(event: DotNetTestFlakyTestsDetected) {
+        this.logger.appendLine("The following tests both passed and failed against the same code and may be flaky. Run '.NET: Show Test History' for details.");
+        this.logger.increaseIndent();
+        event.testNames.forEach(testName => this.logger.appendLine(testName));
+        this.logger.decreaseIndent();
+        this.logger.appendLine('');
+    }
+
+    private handleDotNetTestCoverageMissing(event: DotNetTestCoverageMissing) {
+        this.logger.appendLine(`No coverage was collected for the tests in ${event.className}. Add a reference to the coverlet.collector package to the test project to collect coverage.`);
+        this.logger.appendLine('');
+    }
+
     private logTestResult(result: protocol.V2.DotNetTestResult) {
         this.logger.appendLine(`${result.MethodName}:`);
         this.logger.increaseIndent();
@@ -3,6 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as path from 'path';
 import * as ObservableEvent from "../omnisharp/loggingEvents";
 import { vscode } from '../vscodeAdapter';
 import showInformationMessage from "./utils/ShowInformationMessage";
@@ -14,18 +15,22 @@ export class InformationMessageObserver {
 
     public post = (event: ObservableEvent.BaseEvent) => {
         switch (event.type) {
-            case EventType.OmnisharpServerUnresolvedDependencies:
-                this.handleOmnisharpServerUnresolvedDependencies(<ObservableEvent.OmnisharpServerUnresolvedDependencies>event);
+            case EventType.UnresolvedDependenciesUpdated:
+                this.handleUnresolvedDependenciesUpdated(<ObservableEvent.UnresolvedDependenciesUpdated>event);
                 break;
         }
     }
 
-    private async handleOmnisharpServerUnresolvedDependencies(event: ObservableEvent.OmnisharpServerUnresolvedDependencies) {
-        //to do: determine if we need the unresolved dependencies message
+    private async handleUnresolvedDependenciesUpdated(event: ObservableEvent.UnresolvedDependenciesUpdated) {
+        if (event.projects.length === 0) {
+            return;
+        }
+
         let csharpConfig = this.vscode.workspace.getConfiguration('csharp');
         if (!csharpConfig.get<boolean>('suppressDotnetRestoreNotification')) {
-            let message = `There are unresolved dependencies. Please execute the restore command to continue.`;
-            return showInformationMessage(this.vscode, message, { title: "Restore", command: "dotnet.restore.all" });
+            let projectNames = event.projects.map(project => path.basename(project.projectPath)).join(', ');
+            let message = `There are unresolved dependencies in ${projectNames}. Please execute the restore command to continue.`;
+            return showInformationMessage(this.vscode, message, { title: "Restore", command: "dotnet.restore.unresolved" });
         }
     }
 }
@@ -0,0 +1,35 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { BaseEvent, OmnisharpMSBuildProfile } from "../omnisharp/loggingEvents";
+import { BaseStatusBarItemObserver } from './BaseStatusBarItemObserver';
+import { EventType } from '../omnisharp/EventType';
+
+export class MSBuildProfileStatusBarObserver extends BaseStatusBarItemObserver {
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.OmnisharpMSBuildProfile:
+                this.handleMSBuildProfile(<OmnisharpMSBuildProfile>event);
+                break;
+            case EventType.OmnisharpServerOnStop:
+                this.ResetAndHideStatusBar();
+                break;
+        }
+    }
+
+    private handleMSBuildProfile(event: OmnisharpMSBuildProfile) {
+        // There is nothing to switch between until profiles are configured.
+        if (event.profiles.length === 0) {
+            this.ResetAndHideStatusBar();
+            return;
+        }
+
+        const properties = Object.keys(event.properties).map(name => `${name}=${event.properties[name]}`);
+        const tooltip = properties.length > 0
+            ? `MSBuild properties: ${properties.join(', ')}`
+            : 'No MSBuild properties are set';
+        this.SetAndShowStatusBar('$(settings-gear) ' + (event.profile || 'Default'), 'o.selectMSBuildProfile', undefined, tooltip);
+    }
+}
@@ -47,7 +47,7 @@ export class OmnisharpDebugModeLoggerObserver extends BaseLoggerObserver {
     }
 
     private handleOmnisharpServerEnqueueRequest(event: OmnisharpServerEnqueueRequest) {
-        this.logger.appendLine(`Enqueue to ${event.queueName} request for ${event.command}.`);
+        this.logger.appendLine(`Enqueue to ${event.queueName} request for ${event.command}${event.coalescing ? ` (${event.coalescing})` : ''}.`);
         this.logger.appendLine();
     }
 
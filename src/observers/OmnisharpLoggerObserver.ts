@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { BaseLoggerObserver } from "./BaseLoggerObserver";
-import { BaseEvent, OmnisharpInitialisation, OmnisharpLaunch, OmnisharpFailure, OmnisharpServerMessage, OmnisharpServerOnServerError, OmnisharpServerOnError, OmnisharpServerMsBuildProjectDiagnostics, OmnisharpServerOnStdErr, OmnisharpEventPacketReceived } from "../omnisharp/loggingEvents";
+import { BaseEvent, OmnisharpInitialisation, OmnisharpLaunch, OmnisharpFailure, OmnisharpServerMessage, OmnisharpServerOnServerError, OmnisharpServerOnError, OmnisharpServerMsBuildProjectDiagnostics, OmnisharpServerOnStdErr, OmnisharpEventPacketReceived, OmnisharpAttach, OmnisharpServerReconnect, OmnisharpServerCrashRestart, OmnisharpServerCrashRecoveryFailed, OmnisharpServerRequestTimeout, OmnisharpServerUnresponsive, OmnisharpServerResponsive, OmnisharpServerProjectLoadTimeout, OmnisharpServerProjectLoadCompleted } from "../omnisharp/loggingEvents";
 import * as os from 'os';
 import { EventType } from "../omnisharp/EventType";
 
@@ -17,6 +17,33 @@ export class OmnisharpLoggerObserver extends BaseLoggerObserver {
             case EventType.OmnisharpLaunch:
                 this.handleOmnisharpLaunch(<OmnisharpLaunch>event);
                 break;
+            case EventType.OmnisharpAttach:
+                this.handleOmnisharpAttach(<OmnisharpAttach>event);
+                break;
+            case EventType.OmnisharpServerReconnect:
+                this.handleOmnisharpServerReconnect(<OmnisharpServerReconnect>event);
+                break;
+            case EventType.OmnisharpServerCrashRestart:
+                this.handleOmnisharpServerCrashRestart(<OmnisharpServerCrashRestart>event);
+                break;
+            case EventType.OmnisharpServerCrashRecoveryFailed:
+                this.handleOmnisharpServerCrashRecoveryFailed(<OmnisharpServerCrashRecoveryFailed>event);
+                break;
+            case EventType.OmnisharpServerRequestTimeout:
+                this.handleOmnisharpServerRequestTimeout(<OmnisharpServerRequestTimeout>event);
+                break;
+            case EventType.OmnisharpServerUnresponsive:
+                this.handleOmnisharpServerUnresponsive(<OmnisharpServerUnresponsive>event);
+                break;
+            case EventType.OmnisharpServerResponsive:
+                this.handleOmnisharpServerResponsive(<OmnisharpServerResponsive>event);
+                break;
+            case EventType.OmnisharpServerProjectLoadTimeout:
+                this.handleOmnisharpServerProjectLoadTimeout(<OmnisharpServerProjectLoadTimeout>event);
+                break;
+            case EventType.OmnisharpServerProjectLoadCompleted:
+                this.handleOmnisharpServerProjectLoadCompleted(<OmnisharpServerProjectLoadCompleted>event);
+                break;
             case EventType.OmnisharpFailure:
                 this.logger.appendLine((<OmnisharpFailure>event).message);
                 this.logger.appendLine();
@@ -71,6 +98,50 @@ export class OmnisharpLoggerObserver extends BaseLoggerObserver {
         this.logger.appendLine();
     }
 
+    private handleOmnisharpAttach(event: OmnisharpAttach) {
+        this.logger.appendLine(`Connected to OmniSharp server at ${event.address}.`);
+        this.logger.appendLine();
+    }
+
+    private handleOmnisharpServerReconnect(event: OmnisharpServerReconnect) {
+        this.logger.appendLine(`Could not reach OmniSharp server at ${event.address}, retrying (attempt ${event.attempt} of ${event.maxAttempts})...`);
+    }
+
+    private handleOmnisharpServerCrashRestart(event: OmnisharpServerCrashRestart) {
+        this.logger.appendLine(`OmniSharp server crashed, restarting in ${event.delay / 1000} second(s) (attempt ${event.attempt} of ${event.maxAttempts})...`);
+    }
+
+    private handleOmnisharpServerCrashRecoveryFailed(event: OmnisharpServerCrashRecoveryFailed) {
+        this.logger.appendLine(`OmniSharp server could not be restarted after ${event.attempts} attempt(s). Run 'OmniSharp: Restart OmniSharp' to start it again.`);
+        this.logger.appendLine();
+    }
+
+    private handleOmnisharpServerUnresponsive(event: OmnisharpServerUnresponsive) {
+        const queues = event.queues.map(queue => `${queue.name}: ${queue.waiting} waiting, ${queue.pending} pending`).join('; ');
+        this.logger.appendLine(`OmniSharp server for ${event.target} has not answered any request for ${Math.round(event.silentTime / 1000)} second(s) (${queues}). Run 'OmniSharp: Capture Diagnostics and Restart OmniSharp' to restart it.`);
+    }
+
+    private handleOmnisharpServerResponsive(event: OmnisharpServerResponsive) {
+        this.logger.appendLine(`OmniSharp server for ${event.target} is answering requests again after ${Math.round(event.unresponsiveTime / 1000)} second(s).`);
+    }
+
+    private handleOmnisharpServerProjectLoadTimeout(event: OmnisharpServerProjectLoadTimeout) {
+        this.logger.appendLine(`OmniSharp server for ${event.target} did not load all projects within ${event.timeout} second(s). Language features are available for the ${event.loadedProjectCount} loaded project(s) while the remaining projects keep loading.`);
+        if (event.pendingProjects) {
+            this.logger.increaseIndent();
+            event.pendingProjects.forEach(projectPath => this.logger.appendLine(projectPath));
+            this.logger.decreaseIndent();
+        }
+    }
+
+    private handleOmnisharpServerProjectLoadCompleted(event: OmnisharpServerProjectLoadCompleted) {
+        this.logger.appendLine(`OmniSharp server for ${event.target} has finished loading the projects.`);
+    }
+
+    private handleOmnisharpServerRequestTimeout(event: OmnisharpServerRequestTimeout) {
+        this.logger.appendLine(`Request ${event.command} (${event.id}) timed out after ${event.timeout / 1000} second(s). Use the 'omnisharp.requestTimeouts' setting to change the timeout.`);
+    }
+
     private handleOmnisharpServerMsBuildProjectDiagnostics(event: OmnisharpServerMsBuildProjectDiagnostics) {
         if (event.diagnostics.Errors.length > 0 || event.diagnostics.Warnings.length > 0) {
             this.logger.appendLine(event.diagnostics.FileName);
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { BaseEvent, DownloadStart, InstallationStart, DownloadProgress, OmnisharpServerOnStdErr } from "../omnisharp/loggingEvents";
+import { BaseEvent, DownloadStart, InstallationStart, DownloadProgress, OmnisharpServerOnStdErr, OmnisharpServerCrashRestart, OmnisharpServerRequestTimeout, OmnisharpServerUnresponsive, OmnisharpServerProjectLoadTimeout, OmnisharpServerProjectLoadProgress } from "../omnisharp/loggingEvents";
 import { BaseStatusBarItemObserver } from './BaseStatusBarItemObserver';
 import { EventType } from "../omnisharp/EventType";
 
@@ -14,6 +14,9 @@ export enum StatusBarColors {
 }
 
 export class OmnisharpStatusBarObserver extends BaseStatusBarItemObserver {
+    // A request timeout is only a warning, the next answered request shows that the server is back.
+    private _showsRequestTimeout = false;
+
     public post = (event: BaseEvent) => {
         switch (event.type) {
             case EventType.OmnisharpServerOnServerError:
@@ -35,6 +38,37 @@ export class OmnisharpStatusBarObserver extends BaseStatusBarItemObserver {
             case EventType.OmnisharpServerOnStart:
                 this.SetAndShowStatusBar('$(flame)', 'o.showOutput', undefined, 'OmniSharp server is running');
                 break;
+            case EventType.OmnisharpServerCrashRestart:
+                let restartEvent = <OmnisharpServerCrashRestart>event;
+                this.SetAndShowStatusBar('$(flame)', 'o.showOutput', StatusBarColors.Yellow, `OmniSharp server crashed, restarting (attempt ${restartEvent.attempt} of ${restartEvent.maxAttempts})`);
+                break;
+            case EventType.OmnisharpServerCrashRecoveryFailed:
+                this.SetAndShowStatusBar('$(flame)', 'o.restart', StatusBarColors.Red, 'OmniSharp server crashed and could not be restarted. Click to restart OmniSharp');
+                break;
+            case EventType.OmnisharpServerRequestTimeout:
+                let timeoutEvent = <OmnisharpServerRequestTimeout>event;
+                this.SetAndShowStatusBar('$(flame)', 'o.showOutput', StatusBarColors.Yellow, `OmniSharp server did not answer ${timeoutEvent.command} within ${timeoutEvent.timeout / 1000} second(s)`);
+                this._showsRequestTimeout = true;
+                break;
+            case EventType.OmnisharpServerRequestSucceeded:
+                if (this._showsRequestTimeout) {
+                    this.SetAndShowStatusBar('$(flame)', 'o.showOutput', undefined, 'OmniSharp server is running');
+                }
+                break;
+            case EventType.OmnisharpServerUnresponsive:
+                let unresponsiveEvent = <OmnisharpServerUnresponsive>event;
+                this.SetAndShowStatusBar('$(flame) Unresponsive', 'o.restartWithDiagnostics', StatusBarColors.Red, `OmniSharp server has not answered any request for ${Math.round(unresponsiveEvent.silentTime / 1000)} second(s). Click to capture diagnostics and restart OmniSharp`);
+                break;
+            case EventType.OmnisharpServerResponsive:
+                this.SetAndShowStatusBar('$(flame)', 'o.showOutput', undefined, 'OmniSharp server is running');
+                break;
+            case EventType.OmnisharpServerProjectLoadTimeout:
+            case EventType.OmnisharpServerProjectLoadProgress:
+                this.handleProjectsStillLoading(<OmnisharpServerProjectLoadTimeout | OmnisharpServerProjectLoadProgress>event);
+                break;
+            case EventType.OmnisharpServerProjectLoadCompleted:
+                this.SetAndShowStatusBar('$(flame)', 'o.showOutput', undefined, 'OmniSharp server is running');
+                break;
             case EventType.DownloadStart:
                 this.SetAndShowStatusBar("$(cloud-download) Downloading packages", '', '', `Downloading package '${(<DownloadStart>event).packageDescription}...' `);
                 break;
@@ -50,5 +84,22 @@ export class OmnisharpStatusBarObserver extends BaseStatusBarItemObserver {
                 break;
         }
     }
+
+    public SetAndShowStatusBar(text: string, command: string, color?: string, tooltip?: string) {
+        this._showsRequestTimeout = false;
+        super.SetAndShowStatusBar(text, command, color, tooltip);
+    }
+
+    public ResetAndHideStatusBar() {
+        this._showsRequestTimeout = false;
+        super.ResetAndHideStatusBar();
+    }
+
+    private handleProjectsStillLoading(event: OmnisharpServerProjectLoadTimeout | OmnisharpServerProjectLoadProgress) {
+        const tooltip = event.pendingProjects
+            ? `OmniSharp server is running, ${event.pendingProjects.length} project(s) are still loading`
+            : `OmniSharp server is running, ${event.loadedProjectCount} project(s) were loaded and more are still loading`;
+        this.SetAndShowStatusBar('$(flame) Loading', 'o.showOutput', StatusBarColors.Yellow, tooltip);
+    }
 }
 
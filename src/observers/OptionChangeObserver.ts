@@ -38,6 +38,10 @@ const omniSharpOptions: ReadonlyArray<OptionsKey> = [
     "inlayHintsForImplicitVariableTypes",
     "inlayHintsForLambdaParameterTypes",
     "inlayHintsForImplicitObjectCreation",
+    "serverAddress",
+    "protocolRecordingPath",
+    "protocolReplayPath",
+    "serverPerWorkspaceFolder",
 ];
 
 function OmniSharpOptionChangeObservable(optionObservable: Observable<Options>): Observable<Options> {
@@ -3,12 +3,14 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { basename } from 'path';
-import { BaseEvent, WorkspaceInformationUpdated } from "../omnisharp/loggingEvents";
+import { basename, extname } from 'path';
+import { BaseEvent, OmnisharpServerPoolStatus, WorkspaceInformationUpdated } from "../omnisharp/loggingEvents";
 import { BaseStatusBarItemObserver } from './BaseStatusBarItemObserver';
 import { EventType } from '../omnisharp/EventType';
 
 export class ProjectStatusBarObserver extends BaseStatusBarItemObserver {
+    // While several servers are running, the status bar shows all of them instead of a single solution.
+    private _serverPool: OmnisharpServerPoolStatus;
 
     public post = (event: BaseEvent) => {
         switch (event.type) {
@@ -16,17 +18,47 @@ export class ProjectStatusBarObserver extends BaseStatusBarItemObserver {
                 this.SetAndShowStatusBar('$(file-submodule) Select project', 'o.pickProjectAndStart', 'rgb(90, 218, 90)');
                 break;
             case EventType.OmnisharpServerOnStop:
-                this.ResetAndHideStatusBar();
+                if (!this.isShowingServerPool()) {
+                    this.ResetAndHideStatusBar();
+                }
                 break;
             case EventType.WorkspaceInformationUpdated:
-                this.handleWorkspaceInformationUpdated(<WorkspaceInformationUpdated>event);
+                if (!this.isShowingServerPool()) {
+                    this.handleWorkspaceInformationUpdated(<WorkspaceInformationUpdated>event);
+                }
+                break;
+            case EventType.OmnisharpServerPoolStatus:
+                this.handleServerPoolStatus(<OmnisharpServerPoolStatus>event);
+                break;
         }
     }
 
+    private isShowingServerPool() {
+        return this._serverPool && this._serverPool.servers.length > 1;
+    }
+
+    private handleServerPoolStatus(event: OmnisharpServerPoolStatus) {
+        this._serverPool = event;
+        if (!this.isShowingServerPool()) {
+            return;
+        }
+
+        const label = event.servers.map(server => basename(server.target)).join(', ');
+        const tooltip = event.servers.map(server => `${server.target}: ${server.running ? 'running' : 'stopped'}`).join('\n');
+        this.SetAndShowStatusBar('$(file-directory) ' + label, 'o.pickProjectAndStart', undefined, tooltip);
+    }
+
     private handleWorkspaceInformationUpdated(event: WorkspaceInformationUpdated) {
         let label: string;
         let msbuild = event.info.MsBuild;
-        if (msbuild && msbuild.SolutionPath) {
+        let launchTarget = event.launchTarget;
+        if (msbuild && launchTarget && launchTarget.projects) {
+            // Projects are loaded through a generated solution, whose name means nothing to the user.
+            const projects = launchTarget.projects;
+            label = projects.map(project => basename(project, extname(project))).join(', ');
+            this.SetAndShowStatusBar('$(file-directory) ' + label, 'o.pickProjectAndStart', undefined, projects.join('\n'));
+        }
+        else if (msbuild && msbuild.SolutionPath) {
             label = basename(msbuild.SolutionPath);
             this.SetAndShowStatusBar('$(file-directory) ' + label, 'o.pickProjectAndStart');
         }
@@ -34,4 +66,4 @@ export class ProjectStatusBarObserver extends BaseStatusBarItemObserver {
             this.ResetAndHideStatusBar();
         }
     }
-}
\ No newline at end of file
+}
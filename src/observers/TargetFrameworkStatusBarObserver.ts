@@ -0,0 +1,32 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { basename } from 'path';
+import { ActiveTargetFrameworkUpdated, BaseEvent } from "../omnisharp/loggingEvents";
+import { BaseStatusBarItemObserver } from './BaseStatusBarItemObserver';
+import { EventType } from '../omnisharp/EventType';
+
+export class TargetFrameworkStatusBarObserver extends BaseStatusBarItemObserver {
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.ActiveTargetFrameworkUpdated:
+                this.handleActiveTargetFrameworkUpdated(<ActiveTargetFrameworkUpdated>event);
+                break;
+            case EventType.OmnisharpServerOnStop:
+                this.ResetAndHideStatusBar();
+                break;
+        }
+    }
+
+    private handleActiveTargetFrameworkUpdated(event: ActiveTargetFrameworkUpdated) {
+        // Only multi-targeted projects have a framework to select.
+        if (event.projectPath && event.activeFramework && event.frameworks.length > 1) {
+            this.SetAndShowStatusBar('$(target) ' + event.activeFramework.ShortName, 'csharp.selectTargetFramework', undefined, `Active target framework of ${basename(event.projectPath)}`);
+        }
+        else {
+            this.ResetAndHideStatusBar();
+        }
+    }
+}
@@ -5,7 +5,8 @@
 
 import { debounceTime } from 'rxjs/operators';
 import { vscode } from '../vscodeAdapter';
-import { BaseEvent, OmnisharpServerMsBuildProjectDiagnostics } from "../omnisharp/loggingEvents";
+import * as path from 'path';
+import { BaseEvent, OmnisharpServerMsBuildProjectDiagnostics, OmnisharpServerProjectLoadTimeout } from "../omnisharp/loggingEvents";
 import { Scheduler, Subject } from 'rxjs';
 
 import showWarningMessage from './utils/ShowWarningMessage';
@@ -30,9 +31,20 @@ export class WarningMessageObserver {
             case EventType.OmnisharpServerMsBuildProjectDiagnostics:
                 this.handleOmnisharpServerMsBuildProjectDiagnostics(<OmnisharpServerMsBuildProjectDiagnostics>event);
                 break;
+            case EventType.OmnisharpServerProjectLoadTimeout:
+                this.handleOmnisharpServerProjectLoadTimeout(<OmnisharpServerProjectLoadTimeout>event);
+                break;
         }
     }
 
+    private async handleOmnisharpServerProjectLoadTimeout(event: OmnisharpServerProjectLoadTimeout) {
+        const stillLoading = event.pendingProjects && event.pendingProjects.length > 0
+            ? `${event.pendingProjects.map(projectPath => path.basename(projectPath)).join(', ')} are still loading`
+            : 'the remaining projects are still loading';
+        const message = `Loading the projects is taking longer than ${event.timeout} second(s). Language features are available for the ${event.loadedProjectCount} loaded project(s) while ${stillLoading}.`;
+        await showWarningMessage(this.vscode, message, { title: "Show Output", command: 'o.showOutput' });
+    }
+
     private handleOmnisharpServerMsBuildProjectDiagnostics(event: OmnisharpServerMsBuildProjectDiagnostics) {
         if (!this.disableMsBuildDiagnosticWarning() && event.diagnostics.Errors.length > 0) {
             this.warningMessageDebouncer.next(event);
@@ -84,6 +84,29 @@ export enum EventType {
     DotNetTestDebugInContextStart = 77,
     TelemetryErrorEvent = 78,
     OmnisharpServerRequestCancelled = 79,
+    OmnisharpAttach = 80,
+    OmnisharpServerReconnect = 81,
+    OmnisharpServerCrashRestart = 82,
+    OmnisharpServerCrashRecoveryFailed = 83,
+    OmnisharpServerRequestTimeout = 84,
+    OmnisharpServerPoolStatus = 85,
+    OmnisharpServerUnresponsive = 86,
+    OmnisharpServerResponsive = 87,
+    ActiveTargetFrameworkUpdated = 88,
+    OmnisharpMSBuildProfile = 89,
+    UnresolvedDependenciesUpdated = 90,
+    OmnisharpServerProjectLoadTimeout = 91,
+    OmnisharpServerProjectLoadProgress = 92,
+    OmnisharpServerProjectLoadCompleted = 93,
+    DotNetTestFlakyTestsDetected = 94,
+    DotNetTestCoverageCollected = 95,
+    DotNetTestCoverageMissing = 96,
+    ContinuousTestRunStart = 97,
+    ContinuousTestRunCompleted = 98,
+    ContinuousTestRunCancelled = 99,
+    ContinuousTestingDisabled = 100,
+    OmnisharpServerRequestSucceeded = 101,
+    ContinuousTestRunFailed = 102,
 }
 
 //Note that the EventType protocol is shared with Razor.VSCode and the numbers here should not be altered
@@ -0,0 +1,52 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from './protocol';
+
+/**
+ * The part of the workspace state the selections are persisted in.
+ */
+export interface TargetFrameworkState {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: any): Thenable<void>;
+}
+
+/**
+ * Remembers which target framework of a multi-targeted project the user works on. Launch configurations and
+ * test runs use the selected framework instead of the one OmniSharp would pick for the project.
+ */
+export default class ActiveTargetFrameworks {
+    public static readonly StateKey = 'activeTargetFrameworks';
+
+    constructor(private _state: TargetFrameworkState) {
+    }
+
+    /**
+     * Returns the framework selected for a project, or undefined when none was selected or the project no longer targets it.
+     */
+    public getSelected(project: protocol.MSBuildProject): protocol.TargetFramework | undefined {
+        const shortName = this._getSelections()[project.Path];
+        return shortName ? project.TargetFrameworks.find(framework => framework.ShortName === shortName) : undefined;
+    }
+
+    /**
+     * Returns the framework the project is used with: the selected one, or else the one OmniSharp reports for it.
+     */
+    public getActive(project: protocol.MSBuildProject): protocol.TargetFramework | undefined {
+        return this.getSelected(project)
+            || project.TargetFrameworks.find(framework => framework.Name === project.TargetFramework)
+            || protocol.findNetCoreTargetFramework(project)
+            || project.TargetFrameworks[0];
+    }
+
+    public async select(project: protocol.MSBuildProject, framework: protocol.TargetFramework): Promise<void> {
+        const selections = { ...this._getSelections(), [project.Path]: framework.ShortName };
+        await this._state.update(ActiveTargetFrameworks.StateKey, selections);
+    }
+
+    private _getSelections(): { [projectPath: string]: string } {
+        return this._state.get<{ [projectPath: string]: string }>(ActiveTargetFrameworks.StateKey) || {};
+    }
+}
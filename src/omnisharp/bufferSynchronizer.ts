@@ -0,0 +1,101 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ChangeBufferRequest, LinePositionSpanTextChange, UpdateBufferRequest } from './protocol';
+
+export interface SynchronizedDocument {
+    fileName: string;
+    version: number;
+    isClosed: boolean;
+    getText(): string;
+}
+
+/**
+ * Keeps the server's copy of the open documents up to date by sending only the changes of each edit. Deltas can only
+ * be applied on top of the previous version, anything else needs the whole buffer to be sent again.
+ *
+ * The requests of a document are sent one after the other, as the server may handle concurrent requests in any
+ * order and a delta applied out of order corrupts its copy of the buffer.
+ */
+export class BufferSynchronizer {
+    // The version of each document that the server's copy of the buffer is known to match.
+    private _syncedVersions = new Map<string, number>();
+    private _pendingRequests = new Map<string, Promise<void>>();
+
+    constructor(
+        private _isServerRunning: (fileName: string) => boolean,
+        private _updateBuffer: (request: UpdateBufferRequest) => Promise<any>,
+        private _changeBuffer: (request: ChangeBufferRequest) => Promise<any>) {
+    }
+
+    public onDidChange(document: SynchronizedDocument, changes: LinePositionSpanTextChange[]) {
+        if (!this._isServerRunning(document.fileName) || changes.length === 0) {
+            return;
+        }
+
+        if (this._syncedVersions.get(document.fileName) === document.version - 1) {
+            this._sendChanges(document, changes);
+        }
+        else {
+            this.resync(document);
+        }
+    }
+
+    public onDidClose(fileName: string) {
+        this._syncedVersions.delete(fileName);
+    }
+
+    /**
+     * Forgets what the server knows, e.g. when it restarts and only knows the contents of the files on disk.
+     */
+    public reset() {
+        this._syncedVersions.clear();
+        this._pendingRequests.clear();
+    }
+
+    public resync(document: SynchronizedDocument) {
+        const version = document.version;
+        const request: UpdateBufferRequest = { Buffer: document.getText(), FileName: document.fileName };
+        this._syncedVersions.set(document.fileName, version);
+
+        this._enqueue(document.fileName, async () => this._updateBuffer(request).catch(err => {
+            console.error(err);
+            if (this._syncedVersions.get(document.fileName) === version) {
+                this._syncedVersions.delete(document.fileName);
+            }
+        }));
+    }
+
+    private _sendChanges(document: SynchronizedDocument, changes: LinePositionSpanTextChange[]) {
+        this._syncedVersions.set(document.fileName, document.version);
+
+        // Changes of a single edit are applied one after the other, like VS Code reports them.
+        const send = async () => changes.length === 1
+            ? this._changeBuffer({ FileName: document.fileName, ...changes[0] })
+            : this._updateBuffer({ FileName: document.fileName, Changes: changes, ApplyChangesTogether: false });
+
+        this._enqueue(document.fileName, async () => send().catch(err => {
+            console.error(err);
+
+            // The server missed this change, so its copy of the buffer can no longer be patched.
+            this._syncedVersions.delete(document.fileName);
+            if (this._isServerRunning(document.fileName) && !document.isClosed) {
+                this.resync(document);
+            }
+        }));
+    }
+
+    private _enqueue(fileName: string, send: () => Promise<void>) {
+        const previous = this._pendingRequests.get(fileName) || Promise.resolve();
+        const request = previous.then(send);
+        this._pendingRequests.set(fileName, request);
+
+        request.then(() => {
+            if (this._pendingRequests.get(fileName) === request) {
+                this._pendingRequests.delete(fileName);
+            }
+        });
+    }
+}
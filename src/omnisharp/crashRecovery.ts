@@ -0,0 +1,82 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { EventStream } from '../EventStream';
+import { OmnisharpServerCrashRecoveryFailed, OmnisharpServerCrashRestart } from './loggingEvents';
+import { RequestQueueCollection } from './requestQueue';
+
+const RestartDelay = 1000; // one second, doubled on every attempt
+const StableRunDuration = 5 * 60 * 1000; // five minutes
+
+/**
+ * Restarts a crashed OmniSharp server with an exponential backoff. Only crashes in quick succession count
+ * towards the restart limit. The requests the crashed server never answered are sent again to the restarted
+ * server, or rejected once the restart attempts are exhausted so that their callers do not wait forever.
+ */
+export class CrashRecovery {
+    private _attempts = 0;
+    private _cancelled = false;
+
+    constructor(
+        private _start: () => Promise<boolean>,
+        private _onRecovered: () => void,
+        private _requestQueue: RequestQueueCollection,
+        private _eventStream: EventStream,
+        private _wait: (delay: number) => Promise<void> = async delay => new Promise<void>(resolve => setTimeout(resolve, delay))) {
+    }
+
+    /**
+     * Forgets earlier crashes, e.g. when the server is restarted on purpose.
+     */
+    public reset() {
+        this._attempts = 0;
+    }
+
+    /**
+     * Abandons a recovery that is waiting to restart the server, e.g. when the server is stopped on purpose.
+     */
+    public cancel() {
+        this._cancelled = true;
+    }
+
+    public async recover(maxAttempts: number, startTime: number, now: number = Date.now()): Promise<void> {
+        if (now - startTime > StableRunDuration) {
+            this._attempts = 0;
+        }
+
+        this._cancelled = false;
+
+        while (this._attempts < maxAttempts) {
+            this._attempts++;
+
+            const delay = RestartDelay * Math.pow(2, this._attempts - 1);
+            this._eventStream.post(new OmnisharpServerCrashRestart(this._attempts, maxAttempts, delay));
+            await this._wait(delay);
+
+            if (this._cancelled) {
+                return;
+            }
+
+            if (await this._start()) {
+                // Requests the crashed server never answered go in front of anything sent afterwards,
+                // the recovered listeners then replay the editor state on top of them.
+                this._requestQueue.requeueWaiting();
+                this._onRecovered();
+                this._requestQueue.drain();
+                return;
+            }
+
+            if (this._cancelled) {
+                return;
+            }
+        }
+
+        if (this._attempts > 0) {
+            this._eventStream.post(new OmnisharpServerCrashRecoveryFailed(this._attempts));
+        }
+
+        this._requestQueue.rejectWaiting(new Error(`OmniSharp server crashed and could not be restarted after ${this._attempts} attempt(s).`));
+    }
+}
@@ -20,12 +20,13 @@ import FormatProvider from '../features/formattingEditProvider';
 import HoverProvider from '../features/hoverProvider';
 import ImplementationProvider from '../features/implementationProvider';
 import { OmniSharpServer } from './server';
+import { OmniSharpServerPool } from './serverPool';
 import ReferenceProvider from '../features/referenceProvider';
 import RenameProvider from '../features/renameProvider';
 import SignatureHelpProvider from '../features/signatureHelpProvider';
 import TestManager from '../features/dotnetTest';
 import WorkspaceSymbolProvider from '../features/workspaceSymbolProvider';
-import forwardChanges from '../features/changeForwarding';
+import forwardChanges, { replayDirtyBuffers } from '../features/changeForwarding';
 import registerCommands from '../features/commands';
 import { PlatformInformation } from '../platform';
 import { ProjectJsonDeprecatedWarning, OmnisharpStart, RazorDevModeActive } from './loggingEvents';
@@ -46,6 +47,16 @@ import { getDecompilationAuthorization } from './decompilationPrompt';
 import { OmniSharpDotnetResolver } from './OmniSharpDotnetResolver';
 import CSharpInlayHintProvider from '../features/inlayHintProvider';
 import fileOpenClose from '../features/fileOpenCloseProvider';
+import { SourceGeneratedFileInfo } from './protocol';
+import ActiveTargetFrameworks from './activeTargetFrameworks';
+import { getActiveMSBuildProperties } from './msbuildProfiles';
+import TargetFrameworkSelector from '../features/targetFrameworkSelector';
+import TestExplorer from '../features/testExplorer';
+import TestResultHistory from './testResultHistory';
+import TestResultHistoryProvider from '../features/testResultHistoryProvider';
+import TestFailureDiagnostics from '../features/testFailureDiagnostics';
+import TestCoverageProvider from '../features/testCoverageProvider';
+import ContinuousTesting from '../features/continuousTesting';
 
 export interface ActivationResult {
     readonly server: OmniSharpServer;
@@ -63,22 +74,55 @@ export async function activate(context: vscode.ExtensionContext, packageJSON: an
     const omnisharpDotnetResolver = new OmniSharpDotnetResolver(platformInfo);
     const decompilationAuthorized = await getDecompilationAuthorization(context, optionProvider);
     const server = new OmniSharpServer(vscode, provider, packageJSON, platformInfo, eventStream, optionProvider, extensionPath, omnisharpMonoResolver, omnisharpDotnetResolver, decompilationAuthorized);
-    const advisor = new Advisor(server, optionProvider); // create before server is started
     const disposables = new CompositeDisposable();
+    const serverPool = new OmniSharpServerPool(server, () => {
+        // Servers for further workspace folders answer requests forwarded by the primary server,
+        // so the editor state is replayed through the primary server after one of them crashed.
+        const folderServer = new OmniSharpServer(vscode, provider, packageJSON, platformInfo, eventStream, optionProvider, extensionPath, omnisharpMonoResolver, omnisharpDotnetResolver, server.decompilationAuthorized);
+        disposables.add(folderServer.onServerRecovered(async () => replayDirtyBuffers(server)));
+        return folderServer;
+    }, optionProvider, eventStream);
+    disposables.add(serverPool);
+    const advisor = new Advisor(server, serverPool, optionProvider); // create before server is started
     const languageMiddlewareFeature = new LanguageMiddlewareFeature();
     languageMiddlewareFeature.register();
     disposables.add(languageMiddlewareFeature);
     let localDisposables: CompositeDisposable;
-    const testManager = new TestManager(optionProvider, server, eventStream, languageMiddlewareFeature);
+    const activeTargetFrameworks = new ActiveTargetFrameworks(context.workspaceState);
+    disposables.add(new TargetFrameworkSelector(server, activeTargetFrameworks, eventStream));
+    const testManager = new TestManager(optionProvider, server, eventStream, languageMiddlewareFeature, activeTargetFrameworks);
+    const testExplorer = new TestExplorer(server, testManager);
+    disposables.add(testExplorer);
+    disposables.add(new Disposable(eventStream.subscribe(testExplorer.post)));
+    const testResultHistoryProvider = new TestResultHistoryProvider(new TestResultHistory(context.workspaceState), testManager, eventStream);
+    testResultHistoryProvider.register();
+    disposables.add(testResultHistoryProvider);
+    disposables.add(new Disposable(eventStream.subscribe(testResultHistoryProvider.post)));
+    const testFailureDiagnostics = new TestFailureDiagnostics();
+    disposables.add(testFailureDiagnostics);
+    disposables.add(new Disposable(eventStream.subscribe(testFailureDiagnostics.post)));
+    const testCoverageProvider = new TestCoverageProvider();
+    testCoverageProvider.register();
+    disposables.add(testCoverageProvider);
+    disposables.add(new Disposable(eventStream.subscribe(testCoverageProvider.post)));
+    const continuousTesting = new ContinuousTesting(server, testManager, optionProvider, eventStream);
+    continuousTesting.register();
+    disposables.add(continuousTesting);
     const completionProvider = new CompletionProvider(server, languageMiddlewareFeature);
+    let sourceGeneratedDocumentProvider: SourceGeneratedDocumentProvider;
+    let openSourceGeneratedFiles = new Map<string, SourceGeneratedFileInfo>();
+
+    disposables.add(serverPool.onServerStart(() => {
+        // register language feature provider when the first server of the pool starts
+        if (localDisposables) {
+            return;
+        }
 
-    disposables.add(server.onServerStart(() => {
-        // register language feature provider on start
         localDisposables = new CompositeDisposable();
         const definitionMetadataDocumentProvider = new DefinitionMetadataDocumentProvider();
         definitionMetadataDocumentProvider.register();
         localDisposables.add(definitionMetadataDocumentProvider);
-        const sourceGeneratedDocumentProvider = new SourceGeneratedDocumentProvider(server);
+        sourceGeneratedDocumentProvider = new SourceGeneratedDocumentProvider(server);
         sourceGeneratedDocumentProvider.register();
         localDisposables.add(sourceGeneratedDocumentProvider);
         const definitionProvider = new DefinitionProvider(server, definitionMetadataDocumentProvider, sourceGeneratedDocumentProvider, languageMiddlewareFeature);
@@ -112,7 +156,7 @@ export async function activate(context: vscode.ExtensionContext, packageJSON: an
         localDisposables.add(fixAllProvider);
         localDisposables.add(vscode.languages.registerCodeActionsProvider(documentSelector, fixAllProvider, FixAllProvider.metadata));
         localDisposables.add(reportDiagnostics(server, advisor, languageMiddlewareFeature));
-        localDisposables.add(forwardChanges(server));
+        localDisposables.add(forwardChanges(server, serverPool));
         localDisposables.add(trackVirtualDocuments(server, eventStream));
         localDisposables.add(vscode.languages.registerFoldingRangeProvider(documentSelector, new StructureProvider(server, languageMiddlewareFeature)));
         localDisposables.add(fileOpenClose(server));
@@ -125,7 +169,18 @@ export async function activate(context: vscode.ExtensionContext, packageJSON: an
         localDisposables.add(vscode.languages.registerInlayHintsProvider(documentSelector, inlayHintsProvider));
     }));
 
-    disposables.add(server.onServerStop(() => {
+    disposables.add(serverPool.onServerStop(() => {
+        // the language features stay while another server of the pool answers requests
+        if (serverPool.isRunning()) {
+            return;
+        }
+
+        // remember the source-generated documents that are open, in case the server is recovering from a crash
+        if (sourceGeneratedDocumentProvider) {
+            openSourceGeneratedFiles = sourceGeneratedDocumentProvider.getOpenSourceGeneratedFiles();
+            sourceGeneratedDocumentProvider = null;
+        }
+
         // remove language feature providers on stop
         if (localDisposables) {
             localDisposables.dispose();
@@ -133,12 +188,20 @@ export async function activate(context: vscode.ExtensionContext, packageJSON: an
         localDisposables = null;
     }));
 
-    disposables.add(registerCommands(context, server, platformInfo, eventStream, optionProvider, omnisharpMonoResolver, packageJSON, extensionPath));
+    disposables.add(server.onServerRecovered(async () => {
+        // the restarted server knows nothing about the editor state the crashed one was tracking
+        await replayDirtyBuffers(server);
+        if (sourceGeneratedDocumentProvider) {
+            await sourceGeneratedDocumentProvider.reopenSourceGeneratedFiles(openSourceGeneratedFiles);
+        }
+    }));
+
+    disposables.add(registerCommands(context, server, serverPool, platformInfo, eventStream, optionProvider, omnisharpMonoResolver, packageJSON, extensionPath, activeTargetFrameworks));
 
     if (!context.workspaceState.get<boolean>('assetPromptDisabled')) {
         disposables.add(server.onServerStart(() => {
             // Update or add tasks.json and launch.json
-            addAssetsIfNecessary(server).then(result => {
+            addAssetsIfNecessary(server, activeTargetFrameworks, getActiveMSBuildProperties(optionProvider.GetLatestOptions())).then(result => {
                 if (result === AddAssetResult.Disable) {
                     context.workspaceState.update('assetPromptDisabled', true);
                 }
@@ -194,23 +257,30 @@ export async function activate(context: vscode.ExtensionContext, packageJSON: an
             eventStream.post(new RazorDevModeActive());
         }
 
-        // read and store last solution or folder path
-        context.workspaceState.update('lastSolutionPathOrFolder', path);
+        // read and store last solution or folder path, or the projects of a selection of several projects
+        const projects = server.getLaunchTarget().projects;
+        if (projects && projects.length > 1) {
+            context.workspaceState.update('lastProjectSelection', projects);
+        }
+        else {
+            context.workspaceState.update('lastSolutionPathOrFolder', path);
+            context.workspaceState.update('lastProjectSelection', undefined);
+        }
     }));
 
     if (options.autoStart) {
-        server.autoStart(context.workspaceState.get<string>('lastSolutionPathOrFolder'));
+        serverPool.autoStart(context.workspaceState.get<string>('lastSolutionPathOrFolder'), context.workspaceState.get<string[]>('lastProjectSelection'));
     }
 
     // stop server on deactivate
     disposables.add(new Disposable(() => {
         testManager.dispose();
         advisor.dispose();
-        server.stop();
+        serverPool.stop();
     }));
 
     // Register ConfigurationProvider
-    disposables.add(vscode.debug.registerDebugConfigurationProvider('coreclr', new CSharpConfigurationProvider(server)));
+    disposables.add(vscode.debug.registerDebugConfigurationProvider('coreclr', new CSharpConfigurationProvider(server, activeTargetFrameworks, optionProvider)));
 
     context.subscriptions.push(disposables);
 
@@ -0,0 +1,125 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from './protocol';
+
+export interface ProjectReferences {
+    projectPath: string;
+    references: string[];
+}
+
+export interface TestMethod {
+    /**
+     * The name OmniSharp runs the test by.
+     */
+    methodName: string;
+    testFrameworkName: string;
+    range: protocol.V2.Range;
+}
+
+export interface TestOutcomeCounts {
+    passed: number;
+    failed: number;
+    skipped: number;
+}
+
+/**
+ * Returns the given project together with the projects that reference it, directly or transitively.
+ */
+export function findReferencingProjects(projectPath: string, projects: ProjectReferences[]): string[] {
+    const result = new Set<string>([projectPath]);
+    const pending = [projectPath];
+
+    while (pending.length > 0) {
+        const referenced = pending.pop();
+        for (const project of projects) {
+            if (!result.has(project.projectPath) && project.references.indexOf(referenced) !== -1) {
+                result.add(project.projectPath);
+                pending.push(project.projectPath);
+            }
+        }
+    }
+
+    return Array.from(result);
+}
+
+/**
+ * Returns the test methods in the code structure of a file.
+ */
+export function getTestMethods(elements: protocol.V2.Structure.CodeElement[]): TestMethod[] {
+    const testMethods: TestMethod[] = [];
+    protocol.V2.Structure.walkCodeElements(elements, element => {
+        const properties = element.Properties || {};
+        const methodName = properties[protocol.V2.SymbolPropertyNames.TestMethodName];
+        const testFrameworkName = properties[protocol.V2.SymbolPropertyNames.TestFramework];
+        const range = element.Ranges[protocol.V2.SymbolRangeNames.Full];
+
+        if (element.Kind === protocol.V2.SymbolKinds.Method && methodName && testFrameworkName && range) {
+            testMethods.push({ methodName, testFrameworkName, range });
+        }
+    });
+
+    return testMethods;
+}
+
+/**
+ * Returns the test framework of the given test methods, or undefined unless they all use the same one.
+ */
+export function getTestFrameworkName(testMethods: TestMethod[]): string | undefined {
+    const testFrameworkNames = new Set<string>(testMethods.map(testMethod => testMethod.testFrameworkName));
+    return testFrameworkNames.size === 1 ? testMethods[0].testFrameworkName : undefined;
+}
+
+/**
+ * Returns the innermost members of a file that contain any of the given zero-based lines, to find the usages of.
+ * Namespaces are left out, as every type in them would be impacted.
+ */
+export function getChangedSymbols(elements: protocol.V2.Structure.CodeElement[], changedLines: number[]): protocol.V2.Structure.CodeElement[] {
+    const changed = new Set<protocol.V2.Structure.CodeElement>();
+    protocol.V2.Structure.walkCodeElements(elements, (element, parentElement) => {
+        const range = element.Ranges[protocol.V2.SymbolRangeNames.Full];
+        if (element.Kind === protocol.V2.SymbolKinds.Namespace || !range || !element.Ranges[protocol.V2.SymbolRangeNames.Name]) {
+            return;
+        }
+
+        if (changedLines.some(line => containsLine(range, line))) {
+            // The walk visits parents first, so a changed child replaces its parent.
+            changed.delete(parentElement);
+            changed.add(element);
+        }
+    });
+
+    return Array.from(changed);
+}
+
+/**
+ * Returns the test methods that contain any of the given zero-based lines.
+ */
+export function findEnclosingTestMethods(testMethods: TestMethod[], lines: number[]): TestMethod[] {
+    return testMethods.filter(testMethod => lines.some(line => containsLine(testMethod.range, line)));
+}
+
+export function countTestOutcomes(results: protocol.V2.DotNetTestResult[]): TestOutcomeCounts {
+    const counts: TestOutcomeCounts = { passed: 0, failed: 0, skipped: 0 };
+    for (const result of results) {
+        switch (result.Outcome) {
+            case protocol.V2.TestOutcomes.Passed:
+                counts.passed += 1;
+                break;
+            case protocol.V2.TestOutcomes.Failed:
+                counts.failed += 1;
+                break;
+            case protocol.V2.TestOutcomes.Skipped:
+                counts.skipped += 1;
+                break;
+        }
+    }
+
+    return counts;
+}
+
+function containsLine(range: protocol.V2.Range, line: number): boolean {
+    return range.Start.Line <= line && line <= range.End.Line;
+}
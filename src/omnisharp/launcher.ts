@@ -31,6 +31,11 @@ export interface LaunchTarget {
     directory: string;
     target: string;
     workspaceKind: LaunchTargetKind;
+
+    /**
+     * The project files of a project target. A selection of several projects is launched as a single target.
+     */
+    projects?: string[];
 }
 
 export const vslsTarget: LaunchTarget = {
@@ -81,9 +86,9 @@ export function resourcesToLaunchTargets(resources: vscode.Uri[]): LaunchTarget[
     //   * Any project.json file is considered a launch target.
     //   * If there is no project.json file in a workspace folder, the workspace folder as added as a launch target.
     //   * Additionally, if there are .csproj files, but no .sln or .slnf file, the root is added as a launch target.
+    //   * Any .csproj file is considered a launch target.
     //
     // TODO:
-    //   * It should be possible to choose a .csproj as a launch target
     //   * It should be possible to choose a .sln or .slnf file even when no .csproj files are found
     //     within the root.
 
@@ -162,15 +167,15 @@ export function resourcesAndFolderMapToLaunchTargets(resources: vscode.Uri[], wo
             // Add .csproj files
             else if (isCSharpProject(resource)) {
                 const dirname = path.dirname(resource.fsPath);
-                // OmniSharp doesn't support opening a project directly, however, it will open a project if
-                // we pass a folder path which contains a single .csproj. This is similar to how project.json
-                // is supported.
+                // OmniSharp doesn't support opening a project directly, so the server launches project
+                // targets with a solution generated for them.
                 projectTargets.push({
                     label: path.basename(resource.fsPath),
                     description: vscode.workspace.asRelativePath(dirname),
-                    target: dirname,
+                    target: resource.fsPath,
                     directory: dirname,
-                    workspaceKind: LaunchTargetKind.Project
+                    workspaceKind: LaunchTargetKind.Project,
+                    projects: [resource.fsPath]
                 });
             }
             else {
@@ -243,6 +248,35 @@ export function resourcesAndFolderMapToLaunchTargets(resources: vscode.Uri[], wo
     return otherTargets.concat(solutionTargets).concat(projectRootTargets).concat(projectJsonTargets).concat(projectTargets);
 }
 
+/**
+ * Combines several project targets into a single target that launches OmniSharp with all of their projects.
+ */
+export function createProjectsLaunchTarget(projectTargets: LaunchTarget[]): LaunchTarget {
+    if (projectTargets.length === 1) {
+        return projectTargets[0];
+    }
+
+    const projects = projectTargets.map(target => target.target);
+    const directory = projectTargets
+        .map(target => target.directory)
+        .reduce((common, directory) => {
+            while (common !== path.dirname(common) && path.relative(common, directory).startsWith('..')) {
+                common = path.dirname(common);
+            }
+
+            return common;
+        });
+
+    return {
+        label: projectTargets.map(target => path.basename(target.target, path.extname(target.target))).join(', '),
+        description: `${projectTargets.length} projects`,
+        target: directory,
+        directory,
+        workspaceKind: LaunchTargetKind.Project,
+        projects
+    };
+}
+
 function isCSharpProject(resource: vscode.Uri): boolean {
     return /\.csproj$/i.test(resource.fsPath);
 }
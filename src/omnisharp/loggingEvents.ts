@@ -8,6 +8,11 @@ import { Request } from "./requestQueue";
 import * as protocol from './protocol';
 import { LaunchTarget } from "./launcher";
 import { EventType } from "./EventType";
+import { QueueDepth } from "./serverPerformance";
+import { MSBuildProperties } from "./msbuildProfiles";
+import { ProjectUnresolvedDependencies } from "./unresolvedDependencies";
+import { FileCoverage } from "./testCoverage";
+import { TestOutcomeCounts } from "./impactedTests";
 
 export interface BaseEvent {
     type: EventType;
@@ -49,6 +54,100 @@ export class OmnisharpLaunch implements BaseEvent {
     constructor(public hostVersion: string, public hostPath: string, public hostIsMono: boolean, public command: string, public pid: number) { }
 }
 
+export class OmnisharpAttach implements BaseEvent {
+    type = EventType.OmnisharpAttach;
+    constructor(public address: string) { }
+}
+
+export class OmnisharpServerReconnect implements BaseEvent {
+    type = EventType.OmnisharpServerReconnect;
+    constructor(public address: string, public attempt: number, public maxAttempts: number) { }
+}
+
+export class OmnisharpServerPoolStatus implements BaseEvent {
+    type = EventType.OmnisharpServerPoolStatus;
+    constructor(public servers: { target: string, running: boolean }[]) { }
+}
+
+export class OmnisharpServerUnresponsive implements BaseEvent {
+    type = EventType.OmnisharpServerUnresponsive;
+    constructor(public target: string, public silentTime: number, public queues: QueueDepth[]) { }
+}
+
+export class OmnisharpServerResponsive implements BaseEvent {
+    type = EventType.OmnisharpServerResponsive;
+    constructor(public target: string, public unresponsiveTime: number) { }
+}
+
+export class OmnisharpServerProjectLoadTimeout implements BaseEvent {
+    type = EventType.OmnisharpServerProjectLoadTimeout;
+    constructor(public target: string, public timeout: number, public loadedProjectCount: number, public pendingProjects?: string[]) { }
+}
+
+export class OmnisharpServerProjectLoadProgress implements BaseEvent {
+    type = EventType.OmnisharpServerProjectLoadProgress;
+    constructor(public target: string, public loadedProjectCount: number, public pendingProjects?: string[]) { }
+}
+
+export class OmnisharpServerProjectLoadCompleted implements BaseEvent {
+    type = EventType.OmnisharpServerProjectLoadCompleted;
+    constructor(public target: string, public loadedProjectCount: number) { }
+}
+
+export class DotNetTestFlakyTestsDetected implements BaseEvent {
+    type = EventType.DotNetTestFlakyTestsDetected;
+    constructor(public testNames: string[]) { }
+}
+
+export class DotNetTestCoverageCollected implements BaseEvent {
+    type = EventType.DotNetTestCoverageCollected;
+
+    /**
+     * @param runId Identifies the test run the coverage was collected by. A run collects a report per test class.
+     */
+    constructor(public files: FileCoverage[], public runId: number) { }
+}
+
+export class DotNetTestCoverageMissing implements BaseEvent {
+    type = EventType.DotNetTestCoverageMissing;
+    constructor(public className: string) { }
+}
+
+export class ContinuousTestRunStart implements BaseEvent {
+    type = EventType.ContinuousTestRunStart;
+    constructor(public fileNames: string[]) { }
+}
+
+export class ContinuousTestRunCompleted implements BaseEvent {
+    type = EventType.ContinuousTestRunCompleted;
+    constructor(public counts: TestOutcomeCounts) { }
+}
+
+export class UnresolvedDependenciesUpdated implements BaseEvent {
+    type = EventType.UnresolvedDependenciesUpdated;
+    constructor(public projects: ProjectUnresolvedDependencies[]) { }
+}
+
+export class OmnisharpMSBuildProfile implements BaseEvent {
+    type = EventType.OmnisharpMSBuildProfile;
+    constructor(public profile: string, public profiles: string[], public properties: MSBuildProperties) { }
+}
+
+export class ActiveTargetFrameworkUpdated implements BaseEvent {
+    type = EventType.ActiveTargetFrameworkUpdated;
+    constructor(public projectPath?: string, public activeFramework?: protocol.TargetFramework, public frameworks: protocol.TargetFramework[] = []) { }
+}
+
+export class OmnisharpServerCrashRestart implements BaseEvent {
+    type = EventType.OmnisharpServerCrashRestart;
+    constructor(public attempt: number, public maxAttempts: number, public delay: number) { }
+}
+
+export class OmnisharpServerCrashRecoveryFailed implements BaseEvent {
+    type = EventType.OmnisharpServerCrashRecoveryFailed;
+    constructor(public attempts: number) { }
+}
+
 export class PackageInstallStart implements BaseEvent {
     type = EventType.PackageInstallStart;
 }
@@ -105,7 +204,7 @@ export class OmnisharpProjectDiagnosticStatus implements BaseEvent {
 
 export class OmnisharpServerMsBuildProjectDiagnostics implements BaseEvent {
     type = EventType.OmnisharpServerMsBuildProjectDiagnostics;
-    constructor(public diagnostics: protocol.MSBuildProjectDiagnostics) { }
+    constructor(public diagnostics: protocol.MSBuildProjectDiagnostics, public target?: string) { }
 }
 
 export class OmnisharpServerUnresolvedDependencies implements BaseEvent {
@@ -115,7 +214,7 @@ export class OmnisharpServerUnresolvedDependencies implements BaseEvent {
 
 export class OmnisharpServerEnqueueRequest implements BaseEvent {
     type = EventType.OmnisharpServerEnqueueRequest;
-    constructor(public queueName: string, public command: string) { }
+    constructor(public queueName: string, public command: string, public coalescing?: string) { }
 }
 
 export class OmnisharpServerDequeueRequest implements BaseEvent {
@@ -128,6 +227,16 @@ export class OmnisharpServerRequestCancelled implements BaseEvent {
     constructor(public command: string, public id: number) { }
 }
 
+export class OmnisharpServerRequestTimeout implements BaseEvent {
+    type = EventType.OmnisharpServerRequestTimeout;
+    constructor(public command: string, public id: number, public timeout: number) { }
+}
+
+export class OmnisharpServerRequestSucceeded implements BaseEvent {
+    type = EventType.OmnisharpServerRequestSucceeded;
+    constructor(public command: string, public id: number) { }
+}
+
 export class OmnisharpServerProcessRequestStart implements BaseEvent {
     type = EventType.OmnisharpServerProcessRequestStart;
     constructor(public name: string, public availableRequestSlots: number) { }
@@ -155,7 +264,7 @@ export class ProjectConfiguration implements BaseEvent {
 
 export class WorkspaceInformationUpdated implements BaseEvent {
     type = EventType.WorkspaceInformationUpdated;
-    constructor(public info: protocol.WorkspaceInformationResponse) { }
+    constructor(public info: protocol.WorkspaceInformationResponse, public launchTarget?: LaunchTarget) { }
 }
 
 export class EventWithMessage implements BaseEvent {
@@ -185,7 +294,13 @@ export class ZipError implements BaseEvent {
 
 export class ReportDotNetTestResults implements BaseEvent {
     type = EventType.ReportDotNetTestResults;
-    constructor(public results: protocol.V2.DotNetTestResult[]) { }
+
+    /**
+     * @param fileName A file of the project the tests were run in.
+     * @param duration The time the run took in milliseconds.
+     * @param runId Identifies the run the results belong to. A run can report results for several requests.
+     */
+    constructor(public results: protocol.V2.DotNetTestResult[], public fileName?: string, public testFrameworkName?: string, public duration?: number, public runId?: number) { }
 }
 
 export class DotNetTestRunStart implements BaseEvent {
@@ -264,9 +379,11 @@ export class CommandDotNetRestoreProgress extends EventWithMessage {
 }
 export class CommandDotNetRestoreSucceeded extends EventWithMessage {
     type = EventType.CommandDotNetRestoreSucceeded;
+    constructor(message: string, public projectPath?: string) { super(message); }
 }
 export class CommandDotNetRestoreFailed extends EventWithMessage {
     type = EventType.CommandDotNetRestoreFailed;
+    constructor(message: string, public projectPath?: string) { super(message); }
 }
 export class DownloadSuccess extends EventWithMessage {
     type = EventType.DownloadSuccess;
@@ -289,6 +406,9 @@ export class DotNetTestMessage extends EventWithMessage {
 export class DotNetTestRunFailure extends EventWithMessage {
     type = EventType.DotNetTestRunFailure;
 }
+export class ContinuousTestRunFailed extends EventWithMessage {
+    type = EventType.ContinuousTestRunFailed;
+}
 export class DotNetTestDebugWarning extends EventWithMessage {
     type = EventType.DotNetTestDebugWarning;
 }
@@ -334,6 +454,7 @@ export class ActiveTextEditorChanged implements BaseEvent {
 }
 export class OmnisharpServerOnStop implements BaseEvent {
     type = EventType.OmnisharpServerOnStop;
+    constructor(public target?: string) { }
 }
 export class OmnisharpServerOnStart implements BaseEvent {
     type = EventType.OmnisharpServerOnStart;
@@ -347,6 +468,12 @@ export class OmnisharpRestart implements BaseEvent {
 export class DotNetTestDebugComplete implements BaseEvent {
     type = EventType.DotNetTestDebugComplete;
 }
+export class ContinuousTestRunCancelled implements BaseEvent {
+    type = EventType.ContinuousTestRunCancelled;
+}
+export class ContinuousTestingDisabled implements BaseEvent {
+    type = EventType.ContinuousTestingDisabled;
+}
 export class DownloadValidation implements BaseEvent {
     type = EventType.DownloadValidation;
 }
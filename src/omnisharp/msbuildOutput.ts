@@ -0,0 +1,213 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+
+export interface BuildDiagnostic {
+    severity: 'error' | 'warning';
+
+    /**
+     * The file the diagnostic was reported in, or the project when the tool that reported it gave no file.
+     */
+    fileName: string;
+    code?: string;
+    text: string;
+
+    /**
+     * The project that was being built when the diagnostic was reported, if MSBuild named it.
+     */
+    projectPath?: string;
+
+    /**
+     * Zero-based positions. MSBuild reports one-based positions, and may leave out the columns or the position altogether.
+     */
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+// The canonical MSBuild error format, e.g.
+//   1>/src/App/Program.cs(10,5): error CS1002: ; expected [/src/App/App.csproj]
+//   CSC : warning CS2008: No source files specified. [/src/App/App.csproj]
+const diagnosticLine = /^\s*(?:\d+>)?(.+?)(?:\((\d+(?:,\d+){0,3})\))?\s*:\s+((?:fatal\s+)?error|warning)\s*([A-Za-z]+\d+)?\s*:\s*(.*?)(?:\s+\[([^\[\]]+)\])?\s*$/;
+
+/**
+ * A project MSBuild reported as built, e.g. `App -> /src/App/bin/Debug/net6.0/App.dll`. MSBuild only names the project.
+ */
+export interface ProjectOutput {
+    projectName: string;
+    outputPath: string;
+}
+
+const projectOutputLine = /^\s*(?:\d+>)?([^\s>]+) -> (.+?)\s*$/;
+
+// Tools that report diagnostics under their own name rather than a file.
+const toolNames = ['CSC', 'MSBUILD', 'EXEC', 'VBC', 'FSC'];
+
+/**
+ * Parses a line of MSBuild console output, returning the diagnostic it reports, if any. Relative file names are
+ * resolved against the project that was being built or, without one, the working directory.
+ */
+export function parseMSBuildOutputLine(line: string, workingDirectory: string): BuildDiagnostic | undefined {
+    const match = diagnosticLine.exec(line);
+    if (!match) {
+        return undefined;
+    }
+
+    const [, file, location, severity, code, text, project] = match;
+    const projectPath = project ? path.resolve(workingDirectory, project) : undefined;
+    const baseDirectory = projectPath ? path.dirname(projectPath) : workingDirectory;
+    const fileName = toolNames.indexOf(file.trim().toUpperCase()) !== -1
+        ? projectPath || workingDirectory
+        : path.resolve(baseDirectory, file.trim());
+
+    const [line1, column1, endLine1, endColumn1] = (location || '').split(',').map(value => parseInt(value) || 0);
+    const startLine = Math.max(0, (line1 || 0) - 1);
+    const startColumn = Math.max(0, (column1 || 0) - 1);
+    const endLine = Math.max(startLine, (endLine1 || 0) - 1);
+    const endColumn = endLine === startLine
+        ? Math.max(startColumn, (endColumn1 || 0) - 1)
+        : Math.max(0, (endColumn1 || 0) - 1);
+
+    return {
+        severity: severity.endsWith('error') ? 'error' : 'warning',
+        fileName,
+        code,
+        text,
+        projectPath,
+        startLine,
+        startColumn,
+        endLine,
+        endColumn
+    };
+}
+
+/**
+ * Collects the diagnostics from MSBuild console output as it is written. The output is received in chunks that
+ * do not end on line boundaries, and MSBuild repeats a diagnostic for every target framework it builds and in
+ * its summary, so duplicates are left out.
+ */
+export class MSBuildOutputParser {
+    private _pendingText = '';
+    private _diagnostics: BuildDiagnostic[] = [];
+    private _projectOutputs: ProjectOutput[] = [];
+    private _seen = new Set<string>();
+
+    constructor(private _workingDirectory: string) {
+    }
+
+    public append(output: string) {
+        const lines = (this._pendingText + output).split(/\r?\n/);
+        this._pendingText = lines.pop();
+        lines.forEach(line => this._parseLine(line));
+    }
+
+    /**
+     * Parses the last line of the output and returns all diagnostics found.
+     */
+    public finish(): BuildDiagnostic[] {
+        this._parseLine(this._pendingText);
+        this._pendingText = '';
+        return this._diagnostics;
+    }
+
+    /**
+     * Returns the projects that were built, including the referenced projects built along with the target.
+     */
+    public getProjectOutputs(): ProjectOutput[] {
+        return this._projectOutputs;
+    }
+
+    private _parseLine(line: string) {
+        const output = projectOutputLine.exec(line);
+        if (output) {
+            this._projectOutputs.push({ projectName: output[1], outputPath: path.resolve(this._workingDirectory, output[2]) });
+            return;
+        }
+
+        const diagnostic = parseMSBuildOutputLine(line, this._workingDirectory);
+        if (!diagnostic) {
+            return;
+        }
+
+        const key = [diagnostic.fileName, diagnostic.severity, diagnostic.code, diagnostic.startLine, diagnostic.startColumn, diagnostic.text, diagnostic.projectPath].join('|');
+        if (!this._seen.has(key)) {
+            this._seen.add(key);
+            this._diagnostics.push(diagnostic);
+        }
+    }
+}
+
+/**
+ * Keeps the diagnostics of the latest build of each project. A build replaces the diagnostics of the projects it
+ * built, so a project that now builds cleanly loses its earlier diagnostics.
+ */
+export class BuildDiagnosticTracker {
+    private _projects = new Map<string, BuildDiagnostic[]>();
+
+    /**
+     * Replaces the diagnostics of a built project and of the referenced projects built along with it, or of all
+     * projects when a whole solution was built. Diagnostics that name no project are attributed to the built project.
+     */
+    public update(builtProjectPath: string | undefined, diagnostics: BuildDiagnostic[], projectOutputs: ProjectOutput[] = []) {
+        this.clear(builtProjectPath);
+        for (const output of projectOutputs) {
+            this._findProjects(output).forEach(projectPath => this.clear(projectPath));
+        }
+
+        const byProject = new Map<string, BuildDiagnostic[]>();
+        for (const diagnostic of diagnostics) {
+            const projectPath = diagnostic.projectPath || builtProjectPath || diagnostic.fileName;
+            if (!byProject.has(projectPath)) {
+                byProject.set(projectPath, []);
+            }
+
+            byProject.get(projectPath).push(diagnostic);
+        }
+
+        for (const [projectPath, projectDiagnostics] of byProject) {
+            this._projects.set(projectPath, projectDiagnostics);
+        }
+    }
+
+    /**
+     * Forgets the diagnostics of a project, e.g. after it was cleaned, or of all projects.
+     */
+    public clear(projectPath?: string) {
+        if (projectPath === undefined) {
+            this._projects.clear();
+        }
+        else {
+            this._projects.delete(projectPath);
+        }
+    }
+
+    public getDiagnosticsByFile(): Map<string, BuildDiagnostic[]> {
+        const files = new Map<string, BuildDiagnostic[]>();
+        for (const diagnostics of this._projects.values()) {
+            for (const diagnostic of diagnostics) {
+                if (!files.has(diagnostic.fileName)) {
+                    files.set(diagnostic.fileName, []);
+                }
+
+                files.get(diagnostic.fileName).push(diagnostic);
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Returns the known projects a build output belongs to. MSBuild only names the project, so a project with that
+     * name is preferred when the output lies in its directory.
+     */
+    private _findProjects(output: ProjectOutput): string[] {
+        const named = Array.from(this._projects.keys()).filter(projectPath => path.basename(projectPath, path.extname(projectPath)) === output.projectName);
+        const containing = named.filter(projectPath => output.outputPath.startsWith(path.dirname(projectPath) + path.sep));
+
+        return containing.length > 0 ? containing : named;
+    }
+}
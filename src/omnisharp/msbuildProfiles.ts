@@ -0,0 +1,45 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Options } from './options';
+
+export interface MSBuildProperties {
+    [name: string]: string;
+}
+
+/**
+ * Returns the MSBuild global properties of the active profile, or no properties when no profile is active.
+ */
+export function getActiveMSBuildProperties(options: Options): MSBuildProperties {
+    const profiles = options.msbuildProfiles || {};
+    return (options.msbuildProfile && profiles[options.msbuildProfile]) || {};
+}
+
+/**
+ * Returns the server arguments that set the given properties in OmniSharp's MSBuild options.
+ */
+export function getServerPropertyArguments(properties: MSBuildProperties): string[] {
+    return Object.keys(properties).map(name => `MsBuild:${name}=${properties[name]}`);
+}
+
+/**
+ * Returns the dotnet CLI arguments that set the given properties. Semicolons separate properties on the
+ * command line, so the ones inside values (e.g. in DefineConstants) are escaped.
+ */
+export function getCommandLinePropertyArguments(properties: MSBuildProperties): string[] {
+    return Object.keys(properties).map(name => `/property:${name}=${properties[name].replace(/;/g, '%3B')}`);
+}
+
+/**
+ * Returns the output folder of a project relative to its directory, e.g. bin/Release or bin/x64/Release.
+ */
+export function getOutputFolder(properties: MSBuildProperties): string {
+    const configuration = properties['Configuration'] || 'Debug';
+    const platform = properties['Platform'];
+
+    return platform && !/^any ?cpu$/i.test(platform)
+        ? `bin/${platform}/${configuration}`
+        : `bin/${configuration}`;
+}
@@ -54,7 +54,26 @@ export class Options {
         public dotnetPath?: string,
         public excludePaths?: string[],
         public maxProjectFileCountForDiagnosticAnalysis?: number | null,
-        public testRunSettings?: string) {
+        public testRunSettings?: string,
+        public serverAddress?: string,
+        public serverReconnectAttempts?: number,
+        public serverRestartAttempts?: number,
+        public requestTimeouts?: { [command: string]: number },
+        public protocolRecordingPath?: string,
+        public protocolReplayPath?: string,
+        public serverPerWorkspaceFolder?: boolean,
+        public requestQueueConcurrency?: { priority?: number, normal?: number, deferred?: number },
+        public requestPriorities?: { [command: string]: 'priority' | 'normal' | 'deferred' },
+        public deferredRequestAgingThreshold?: number,
+        public prioritizeActiveDocument?: boolean,
+        public watchdogProbeInterval?: number,
+        public watchdogUnresponsiveThreshold?: number,
+        public msbuildProfiles?: { [profile: string]: { [property: string]: string } },
+        public msbuildProfile?: string,
+        public continueLoadingAfterTimeout?: boolean,
+        public continuousTesting?: boolean,
+        public continuousTestingDelay?: number,
+        public continuousTestingUseFindUsages?: boolean) {
     }
 
     public static Read(vscode: vscode): Options {
@@ -138,6 +157,35 @@ export class Options {
 
         const testRunSettings = omnisharpConfig.get<string>('testRunSettings', undefined);
 
+        const serverAddress = omnisharpConfig.get<string>('serverAddress', undefined) || undefined;
+        const serverReconnectAttempts = omnisharpConfig.get<number>('serverReconnectAttempts', 5);
+        const serverRestartAttempts = omnisharpConfig.get<number>('serverRestartAttempts', 3);
+        const requestTimeouts = omnisharpConfig.get<{ [command: string]: number }>('requestTimeouts', {
+            '/completion': 30,
+            '/completion/resolve': 30,
+            '/signatureHelp': 30,
+            '/codecheck': 300
+        });
+        const protocolRecordingPath = omnisharpConfig.get<string>('protocolRecordingPath', undefined) || undefined;
+        const protocolReplayPath = omnisharpConfig.get<string>('protocolReplayPath', undefined) || undefined;
+        const serverPerWorkspaceFolder = omnisharpConfig.get<boolean>('serverPerWorkspaceFolder', false);
+        const requestQueueConcurrency = omnisharpConfig.get<{ priority?: number, normal?: number, deferred?: number }>('requestQueueConcurrency', {
+            priority: 1,
+            normal: 8,
+            deferred: 2
+        });
+        const requestPriorities = omnisharpConfig.get<{ [command: string]: 'priority' | 'normal' | 'deferred' }>('requestPriorities', {});
+        const deferredRequestAgingThreshold = omnisharpConfig.get<number>('deferredRequestAgingThreshold', 10);
+        const prioritizeActiveDocument = omnisharpConfig.get<boolean>('prioritizeActiveDocument', true);
+        const watchdogProbeInterval = omnisharpConfig.get<number>('watchdogProbeInterval', 15);
+        const watchdogUnresponsiveThreshold = omnisharpConfig.get<number>('watchdogUnresponsiveThreshold', 30);
+        const msbuildProfiles = omnisharpConfig.get<{ [profile: string]: { [property: string]: string } }>('msbuildProfiles', {});
+        const msbuildProfile = omnisharpConfig.get<string>('msbuildProfile', '');
+        const continueLoadingAfterTimeout = omnisharpConfig.get<boolean>('continueLoadingAfterTimeout', false);
+        const continuousTesting = omnisharpConfig.get<boolean>('continuousTesting', false);
+        const continuousTestingDelay = omnisharpConfig.get<number>('continuousTestingDelay', 1000);
+        const continuousTestingUseFindUsages = omnisharpConfig.get<boolean>('continuousTestingUseFindUsages', false);
+
         const excludePaths = this.getExcludedPaths(vscode);
 
         return new Options(
@@ -188,7 +236,26 @@ export class Options {
             dotnetPath,
             excludePaths,
             maxProjectFileCountForDiagnosticAnalysis,
-            testRunSettings
+            testRunSettings,
+            serverAddress,
+            serverReconnectAttempts,
+            serverRestartAttempts,
+            requestTimeouts,
+            protocolRecordingPath,
+            protocolReplayPath,
+            serverPerWorkspaceFolder,
+            requestQueueConcurrency,
+            requestPriorities,
+            deferredRequestAgingThreshold,
+            prioritizeActiveDocument,
+            watchdogProbeInterval,
+            watchdogUnresponsiveThreshold,
+            msbuildProfiles,
+            msbuildProfile,
+            continueLoadingAfterTimeout,
+            continuousTesting,
+            continuousTestingDelay,
+            continuousTestingUseFindUsages
         );
     }
 
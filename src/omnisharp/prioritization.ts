@@ -5,6 +5,8 @@
 
 import * as protocol from './protocol';
 
+export type PriorityClass = 'priority' | 'normal' | 'deferred';
+
 const priorityCommands = [
     protocol.Requests.ChangeBuffer,
     protocol.Requests.FormatAfterKeystroke,
@@ -13,6 +15,7 @@ const priorityCommands = [
 ];
 
 const normalCommands = [
+    protocol.Requests.CheckAliveStatus,
     protocol.Requests.Completion,
     protocol.Requests.CompletionResolve,
     protocol.Requests.FilesChanged,
@@ -26,9 +29,18 @@ const normalCommands = [
     protocol.Requests.GoToTypeDefinition
 ];
 
+// A newer request for one of these commands makes a pending request for the same file obsolete.
+const supersedableCommands = [
+    protocol.Requests.CodeCheck,
+    protocol.V2.Requests.BlockStructure,
+    protocol.V2.Requests.CodeStructure,
+    protocol.V2.Requests.Highlight
+];
+
 const prioritySet = new Set<string>(priorityCommands);
 const normalSet = new Set<string>(normalCommands);
 const deferredSet = new Set<string>();
+const supersedableSet = new Set<string>(supersedableCommands);
 
 const nonDeferredSet = new Set<string>();
 
@@ -60,3 +72,38 @@ export function isDeferredCommand(command: string) {
     deferredSet.add(command);
     return true;
 }
+
+/**
+ * Returns the priority class of a command. Overrides take precedence over the built-in command lists;
+ * commands that are in neither list are deferred.
+ */
+export function getPriorityClass(command: string, overrides?: { [command: string]: PriorityClass }): PriorityClass {
+    const override = overrides && overrides[command];
+    if (override === 'priority' || override === 'normal' || override === 'deferred') {
+        return override;
+    }
+
+    if (isPriorityCommand(command)) {
+        return 'priority';
+    }
+
+    if (isNormalCommand(command)) {
+        return 'normal';
+    }
+
+    return 'deferred';
+}
+
+/**
+ * Returns the key that pending requests are coalesced by, or undefined if the request is never coalesced.
+ * Requests for different ranges of a file, such as a full and a ranged highlight, never supersede each other.
+ */
+export function getCoalescingKey(command: string, data: any): string | undefined {
+    if (!supersedableSet.has(command) || !data || !data.FileName) {
+        return undefined;
+    }
+
+    return data.Range
+        ? `${command}:${data.FileName}:${JSON.stringify(data.Range)}`
+        : `${command}:${data.FileName}`;
+}
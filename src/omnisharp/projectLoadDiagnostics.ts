@@ -0,0 +1,132 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from './protocol';
+
+export interface ProjectLoadDiagnostic {
+    severity: 'error' | 'warning';
+    projectPath: string;
+
+    /**
+     * The file the diagnostic was reported in: the project itself or one of the .props and .targets files it imports.
+     */
+    fileName: string;
+    text: string;
+
+    /**
+     * Zero-based positions. MSBuild reports one-based positions, or 0 when the position is unknown.
+     */
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export interface FailedProject {
+    projectPath: string;
+    errors: ProjectLoadDiagnostic[];
+}
+
+/**
+ * Collects the diagnostics MSBuild reported while loading each project. OmniSharp reports the diagnostics of a project
+ * every time it is loaded, so a project that reloads cleanly replaces its earlier diagnostics with none.
+ *
+ * The diagnostics are kept per launch target, as every server of a pool loads the projects of its own target.
+ */
+export class ProjectLoadDiagnosticTracker {
+    private _targets = new Map<string, Map<string, ProjectLoadDiagnostic[]>>();
+
+    public update(message: protocol.MSBuildProjectDiagnostics, target?: string) {
+        const diagnostics = (message.Errors || []).map(error => toDiagnostic(message.FileName, error, 'error'))
+            .concat((message.Warnings || []).map(warning => toDiagnostic(message.FileName, warning, 'warning')));
+
+        let projects = this._targets.get(target);
+        if (!projects) {
+            projects = new Map<string, ProjectLoadDiagnostic[]>();
+            this._targets.set(target, projects);
+        }
+
+        if (diagnostics.length > 0) {
+            projects.set(message.FileName, diagnostics);
+        }
+        else {
+            projects.delete(message.FileName);
+        }
+    }
+
+    /**
+     * Forgets the diagnostics of a launch target, or of every launch target if none is given.
+     */
+    public clear(target?: string) {
+        if (target === undefined) {
+            this._targets.clear();
+        }
+        else {
+            this._targets.delete(target);
+        }
+    }
+
+    public getFailedProjects(): FailedProject[] {
+        return this._getProjects()
+            .map(([projectPath, diagnostics]) => ({ projectPath, errors: diagnostics.filter(diagnostic => diagnostic.severity === 'error') }))
+            .filter(project => project.errors.length > 0);
+    }
+
+    /**
+     * Returns the diagnostics grouped by the file they were reported in. A file imported by several projects
+     * reports the same diagnostic for each of them, so duplicates are left out.
+     */
+    public getDiagnosticsByFile(): Map<string, ProjectLoadDiagnostic[]> {
+        const files = new Map<string, ProjectLoadDiagnostic[]>();
+        const seen = new Set<string>();
+
+        for (const [, diagnostics] of this._getProjects()) {
+            for (const diagnostic of diagnostics) {
+                const key = [diagnostic.fileName, diagnostic.severity, diagnostic.startLine, diagnostic.startColumn, diagnostic.text].join('|');
+                if (seen.has(key)) {
+                    continue;
+                }
+
+                seen.add(key);
+                if (!files.has(diagnostic.fileName)) {
+                    files.set(diagnostic.fileName, []);
+                }
+
+                files.get(diagnostic.fileName).push(diagnostic);
+            }
+        }
+
+        return files;
+    }
+
+    private _getProjects(): [string, ProjectLoadDiagnostic[]][] {
+        const projects: [string, ProjectLoadDiagnostic[]][] = [];
+        for (const targetProjects of this._targets.values()) {
+            projects.push(...targetProjects.entries());
+        }
+
+        return projects;
+    }
+}
+
+function toDiagnostic(projectPath: string, message: protocol.MSBuildDiagnosticsMessage, severity: 'error' | 'warning'): ProjectLoadDiagnostic {
+    const startLine = Math.max(0, (message.StartLine || 0) - 1);
+    const startColumn = Math.max(0, (message.StartColumn || 0) - 1);
+    const endLine = Math.max(startLine, (message.EndLine || 0) - 1);
+    const endColumn = endLine === startLine
+        ? Math.max(startColumn, (message.EndColumn || 0) - 1)
+        : Math.max(0, (message.EndColumn || 0) - 1);
+
+    return {
+        severity,
+        projectPath,
+        fileName: message.FileName || projectPath,
+        text: message.Text,
+        startLine,
+        startColumn,
+        endLine,
+        endColumn
+    };
+}
@@ -0,0 +1,45 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+
+/**
+ * Tracks which projects of a launch target OmniSharp has loaded. OmniSharp only tells when a project was loaded,
+ * so the projects still loading are the expected ones it has not reported yet.
+ */
+export class ProjectLoadProgress {
+    private _loadedProjects = new Set<string>();
+    private _expectedProjects: string[];
+
+    public get loadedProjectCount(): number {
+        return this._loadedProjects.size;
+    }
+
+    /**
+     * Sets the projects the launch target consists of. They are not known for a folder, which OmniSharp searches for projects.
+     */
+    public setExpectedProjects(projectPaths: string[] | undefined) {
+        this._expectedProjects = projectPaths && projectPaths.map(normalize);
+    }
+
+    /**
+     * Marks a project as loaded, including one that failed to load, as OmniSharp is done with it either way.
+     */
+    public markLoaded(projectPath: string) {
+        this._loadedProjects.add(normalize(projectPath));
+    }
+
+    /**
+     * Returns the projects that are still loading, or undefined when the projects of the launch target are not known.
+     */
+    public getPendingProjects(): string[] | undefined {
+        return this._expectedProjects && this._expectedProjects.filter(projectPath => !this._loadedProjects.has(projectPath));
+    }
+}
+
+function normalize(projectPath: string): string {
+    const normalized = path.normalize(projectPath);
+    return process.platform === 'win32' ? normalized.toLowerCase() : normalized;
+}
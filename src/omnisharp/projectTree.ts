@@ -0,0 +1,132 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as protocol from './protocol';
+
+export type ProjectTreeNodeKind = 'solution' | 'project' | 'frameworks' | 'framework' | 'references' | 'reference' | 'sourceFolder' | 'sourceFile';
+
+export interface ProjectTreeNode {
+    kind: ProjectTreeNodeKind;
+    label: string;
+    description?: string;
+
+    /**
+     * The file or folder the node stands for, if any.
+     */
+    path?: string;
+
+    /**
+     * The project the node belongs to. Set on project nodes and all of their descendants.
+     */
+    project?: protocol.MSBuildProject;
+    children?: ProjectTreeNode[];
+}
+
+/**
+ * Returns the root node of the projects loaded by a server, or undefined when the workspace has no MSBuild projects.
+ */
+export function createSolutionNode(info: protocol.WorkspaceInformationResponse, target?: string): ProjectTreeNode | undefined {
+    if (!info.MsBuild || info.MsBuild.Projects.length === 0) {
+        return undefined;
+    }
+
+    const solutionPath = info.MsBuild.SolutionPath || target;
+    const projects = info.MsBuild.Projects
+        .slice()
+        .sort((a, b) => getProjectName(a).localeCompare(getProjectName(b)))
+        .map(createProjectNode);
+
+    return {
+        kind: 'solution',
+        label: solutionPath ? path.basename(solutionPath) : 'Projects',
+        description: `${projects.length} project(s)`,
+        path: solutionPath,
+        children: projects
+    };
+}
+
+export function getProjectName(project: protocol.MSBuildProject): string {
+    return path.basename(project.Path, path.extname(project.Path));
+}
+
+function createProjectNode(project: protocol.MSBuildProject): ProjectTreeNode {
+    return {
+        kind: 'project',
+        label: getProjectName(project),
+        description: project.TargetFrameworks.map(framework => framework.ShortName).join(', '),
+        path: project.Path,
+        project
+    };
+}
+
+/**
+ * Returns the children of a project node: its target frameworks, the projects it references and the folders of its source files.
+ */
+export function getProjectChildren(project: protocol.MSBuildProject, references: string[]): ProjectTreeNode[] {
+    const children: ProjectTreeNode[] = [{
+        kind: 'frameworks',
+        label: 'Frameworks',
+        project,
+        children: project.TargetFrameworks.map(framework => ({
+            kind: <ProjectTreeNodeKind>'framework',
+            label: framework.ShortName,
+            description: framework.FriendlyName,
+            project
+        }))
+    }];
+
+    if (references.length > 0) {
+        children.push({
+            kind: 'references',
+            label: 'References',
+            project,
+            children: references.map(reference => ({
+                kind: <ProjectTreeNodeKind>'reference',
+                label: path.basename(reference, path.extname(reference)),
+                description: path.relative(path.dirname(project.Path), reference),
+                path: reference,
+                project
+            }))
+        });
+    }
+
+    return children.concat(getSourceFolders(project));
+}
+
+/**
+ * Groups the source files of a project by folder. Generated files outside of the project folder are left out.
+ */
+export function getSourceFolders(project: protocol.MSBuildProject): ProjectTreeNode[] {
+    const projectDirectory = path.dirname(project.Path);
+    const folders = new Map<string, string[]>();
+
+    for (const sourceFile of project.SourceFiles || []) {
+        const relativePath = path.relative(projectDirectory, sourceFile);
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            continue;
+        }
+
+        const folder = path.dirname(relativePath);
+        if (!folders.has(folder)) {
+            folders.set(folder, []);
+        }
+
+        folders.get(folder).push(sourceFile);
+    }
+
+    return Array.from(folders.keys()).sort().map(folder => ({
+        kind: <ProjectTreeNodeKind>'sourceFolder',
+        label: folder === '.' ? path.basename(projectDirectory) : folder,
+        path: path.join(projectDirectory, folder),
+        project,
+        children: folders.get(folder).sort().map(sourceFile => ({
+            kind: <ProjectTreeNodeKind>'sourceFile',
+            label: path.basename(sourceFile),
+            path: sourceFile,
+            project
+        }))
+    }));
+}
@@ -11,6 +11,7 @@ export module Requests {
     export const CodeCheck = '/codecheck';
     export const CodeFormat = '/codeformat';
     export const ChangeBuffer = '/changebuffer';
+    export const CheckAliveStatus = '/checkalivestatus';
     export const FilesChanged = '/filesChanged';
     export const FindSymbols = '/findsymbols';
     export const FindUsages = '/findusages';
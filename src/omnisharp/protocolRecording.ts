@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as protocol from './protocol';
+import { IDisposable } from '../Disposable';
+
+/**
+ * A single line of a wire protocol recording.
+ */
+export interface RecordedPacket {
+    timestamp: string;
+    packet: protocol.WireProtocol.Packet;
+}
+
+/**
+ * Writes every packet exchanged with the OmniSharp server to a JSONL file, one timestamped packet per line.
+ * Every server session starts a new recording: the sequence numbers start over, so the packets of several
+ * sessions could not be replayed from the same file.
+ */
+export class ProtocolRecorder implements IDisposable {
+    private _fd: number;
+
+    constructor(public readonly path: string, private _onError: (err: Error) => void) {
+        this._fd = fs.openSync(path, 'w');
+    }
+
+    public record(packet: protocol.WireProtocol.Packet) {
+        if (this._fd === undefined) {
+            return;
+        }
+
+        const recordedPacket: RecordedPacket = {
+            timestamp: new Date().toISOString(),
+            packet
+        };
+
+        try {
+            fs.writeSync(this._fd, JSON.stringify(recordedPacket) + '\n');
+        }
+        catch (err) {
+            // Stop recording rather than failing every following request.
+            this.dispose();
+            this._onError(err);
+        }
+    }
+
+    public dispose() {
+        if (this._fd !== undefined) {
+            fs.closeSync(this._fd);
+            this._fd = undefined;
+        }
+    }
+}
+
+export function readRecording(path: string): RecordedPacket[] {
+    return fs.readFileSync(path, 'utf8')
+        .split(/\r?\n/)
+        .filter(line => line.trim().length > 0)
+        .map(line => <RecordedPacket>JSON.parse(line));
+}
@@ -4,17 +4,74 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as prioritization from './prioritization';
-import { OmnisharpServerProcessRequestComplete, OmnisharpServerProcessRequestStart, OmnisharpServerDequeueRequest, OmnisharpServerEnqueueRequest } from './loggingEvents';
+import { OmnisharpServerProcessRequestComplete, OmnisharpServerProcessRequestStart, OmnisharpServerDequeueRequest, OmnisharpServerEnqueueRequest, OmnisharpServerRequestTimeout } from './loggingEvents';
 import { EventStream } from '../EventStream';
+import { QueueDepth } from './serverPerformance';
 
 export interface Request {
     command: string;
     data?: any;
     onSuccess(value: any): void;
     onError(err: any): void;
+    enqueueTime?: number;
     startTime?: number;
     endTime?: number;
     id?: number;
+
+    /**
+     * Pending requests with the same key are coalesced: an identical request shares the pending one,
+     * a request with different data supersedes it and the pending one is rejected with a {@link RequestSupersededError}.
+     */
+    coalescingKey?: string;
+
+    /**
+     * Time in milliseconds the server has to answer the request once it has been sent. No deadline if unset.
+     */
+    timeout?: number;
+}
+
+/**
+ * Stands in for several requests that were coalesced into one, passing the outcome on to all of them.
+ */
+interface CoalescedRequest extends Request {
+    requests: Request[];
+}
+
+function isCoalesced(request: Request): request is CoalescedRequest {
+    return (<CoalescedRequest>request).requests !== undefined;
+}
+
+function coalesce(pending: Request, request: Request): CoalescedRequest {
+    const coalesced: CoalescedRequest = {
+        command: pending.command,
+        data: pending.data,
+        coalescingKey: pending.coalescingKey,
+        timeout: pending.timeout,
+        enqueueTime: pending.enqueueTime,
+        requests: isCoalesced(pending) ? [...pending.requests, request] : [pending, request],
+        onSuccess: value => coalesced.requests.forEach(r => r.onSuccess(value)),
+        onError: err => coalesced.requests.forEach(r => r.onError(err))
+    };
+
+    return coalesced;
+}
+
+/**
+ * The error a request is rejected with when the OmniSharp server does not answer it in time.
+ */
+export class RequestTimeoutError extends Error {
+    constructor(public command: string, public id: number, public timeout: number) {
+        super(`Request ${command} timed out after ${timeout} ms, id: ${id}`);
+    }
+}
+
+/**
+ * The error a pending request is rejected with when a newer request for the same file takes its place.
+ */
+export class RequestSupersededError extends Error {
+    constructor(public command: string) {
+        super(`Request ${command} cancelled, superseded by a newer request`);
+    }
 }
 
 /**
@@ -36,8 +93,34 @@ class RequestQueue {
      * Enqueue a new request.
      */
     public enqueue(request: Request) {
-        this.eventStream.post(new OmnisharpServerEnqueueRequest(this._name, request.command));
-        this._pending.push(request);
+        request.enqueueTime = request.enqueueTime || Date.now();
+
+        const index = request.coalescingKey
+            ? this._pending.findIndex(pending => pending.coalescingKey === request.coalescingKey)
+            : -1;
+
+        if (index === -1) {
+            this.eventStream.post(new OmnisharpServerEnqueueRequest(this._name, request.command));
+            this._pending.push(request);
+            return;
+        }
+
+        const pending = this._pending[index];
+        if (JSON.stringify(pending.data) === JSON.stringify(request.data)) {
+            // An identical request shares the response of the pending one.
+            this.eventStream.post(new OmnisharpServerEnqueueRequest(this._name, request.command, "coalesced"));
+            this._pending[index] = coalesce(pending, request);
+            return;
+        }
+
+        // The newer request takes the place of the pending one, which is cancelled rather than answered
+        // with a response to different data. It keeps the queue position so that it is not starved.
+        this.eventStream.post(new OmnisharpServerDequeueRequest(this._name, "superseded", pending.command));
+        this.eventStream.post(new OmnisharpServerEnqueueRequest(this._name, request.command, "superseding"));
+
+        request.enqueueTime = pending.enqueueTime;
+        this._pending[index] = request;
+        pending.onError(new RequestSupersededError(pending.command));
     }
 
     /**
@@ -55,6 +138,19 @@ class RequestQueue {
     }
 
     public cancelRequest(request: Request) {
+        // A coalesced request may still be pending or already be waiting on the server.
+        const coalesced = <CoalescedRequest>[...this._pending, ...this._waiting.values()]
+            .find(other => isCoalesced(other) && other.requests.indexOf(request) !== -1);
+        if (coalesced) {
+            coalesced.requests = coalesced.requests.filter(r => r !== request);
+            if (coalesced.requests.length > 0) {
+                // The other requests still need the response.
+                return;
+            }
+
+            request = coalesced;
+        }
+
         let index = this._pending.indexOf(request);
         if (index !== -1) {
             this._pending.splice(index, 1);
@@ -66,6 +162,75 @@ class RequestQueue {
         }
     }
 
+    /**
+     * Rejects requests that have been waiting on the OmniSharp server for longer than their timeout,
+     * freeing their slots for other requests.
+     */
+    public reapExpired(now: number) {
+        for (const [id, request] of this._waiting) {
+            if (!(request.timeout > 0) || now - request.startTime < request.timeout) {
+                continue;
+            }
+
+            this._waiting.delete(id);
+            this.eventStream.post(new OmnisharpServerDequeueRequest(this._name, "waiting", request.command, id));
+            this.eventStream.post(new OmnisharpServerRequestTimeout(request.command, id, request.timeout));
+            request.onError(new RequestTimeoutError(request.command, id, request.timeout));
+        }
+    }
+
+    /**
+     * Rejects the requests that were sent but never answered, e.g. because the connection they were sent on is lost.
+     */
+    public rejectWaiting(err: Error) {
+        const waiting = Array.from(this._waiting.values());
+        this._waiting.clear();
+
+        for (const request of waiting) {
+            this.eventStream.post(new OmnisharpServerDequeueRequest(this._name, "waiting", request.command, request.id));
+            request.onError(err);
+        }
+    }
+
+    /**
+     * Moves requests that were sent but never answered back in front of the pending requests, so that
+     * they are sent again. Used when the server that should have answered them has been replaced.
+     */
+    public requeueWaiting() {
+        const waiting = Array.from(this._waiting.values());
+        this._waiting.clear();
+
+        for (const request of waiting) {
+            this.eventStream.post(new OmnisharpServerDequeueRequest(this._name, "waiting", request.command, request.id));
+            this.eventStream.post(new OmnisharpServerEnqueueRequest(this._name, request.command));
+        }
+
+        this._pending.unshift(...waiting);
+    }
+
+    /**
+     * Removes and returns the pending requests that were enqueued at least `threshold` milliseconds ago.
+     */
+    public takeAged(now: number, threshold: number): Request[] {
+        const aged = this._pending.filter(request => now - request.enqueueTime >= threshold);
+        if (aged.length > 0) {
+            this._pending = this._pending.filter(request => aged.indexOf(request) === -1);
+            for (const request of aged) {
+                this.eventStream.post(new OmnisharpServerDequeueRequest(this._name, "aged", request.command));
+            }
+        }
+
+        return aged;
+    }
+
+    public setMaxSize(maxSize: number) {
+        this._maxSize = maxSize;
+    }
+
+    public getDepth(): QueueDepth {
+        return { name: this._name, pending: this._pending.length, waiting: this._waiting.size };
+    }
+
     /**
      * Returns true if there are any requests pending to be sent to the OmniSharp server.
      */
@@ -106,32 +271,75 @@ class RequestQueue {
     }
 }
 
+export interface RequestQueueOptions {
+    /**
+     * The maximum number of requests of each queue that may be waiting on the OmniSharp server at once.
+     */
+    concurrency: { priority: number, normal: number, deferred: number };
+
+    /**
+     * Priority classes that override the built-in ones, keyed by command.
+     */
+    priorities: { [command: string]: prioritization.PriorityClass };
+
+    /**
+     * Time in milliseconds after which a pending deferred request is moved to the normal queue. 0 disables aging.
+     */
+    agingThreshold: number;
+
+    /**
+     * Returns the file name of the document in the active editor. Requests for it are never deferred.
+     */
+    getActiveDocument?: () => string | undefined;
+}
+
 export class RequestQueueCollection {
     private _isProcessing: boolean;
     private _priorityQueue: RequestQueue;
     private _normalQueue: RequestQueue;
     private _deferredQueue: RequestQueue;
+    private _options: RequestQueueOptions;
 
     public constructor(
         eventStream: EventStream,
         concurrency: number,
         makeRequest: (request: Request) => number
     ) {
-        this._priorityQueue = new RequestQueue('Priority', 1, eventStream, makeRequest);
-        this._normalQueue = new RequestQueue('Normal', concurrency, eventStream, makeRequest);
-        this._deferredQueue = new RequestQueue('Deferred', Math.max(Math.floor(concurrency / 4), 2), eventStream, makeRequest);
+        this._options = {
+            concurrency: { priority: 1, normal: concurrency, deferred: Math.max(Math.floor(concurrency / 4), 2) },
+            priorities: {},
+            agingThreshold: 0
+        };
+
+        this._priorityQueue = new RequestQueue('Priority', this._options.concurrency.priority, eventStream, makeRequest);
+        this._normalQueue = new RequestQueue('Normal', this._options.concurrency.normal, eventStream, makeRequest);
+        this._deferredQueue = new RequestQueue('Deferred', this._options.concurrency.deferred, eventStream, makeRequest);
+    }
+
+    public configure(options: RequestQueueOptions) {
+        this._options = options;
+        this._priorityQueue.setMaxSize(options.concurrency.priority);
+        this._normalQueue.setMaxSize(options.concurrency.normal);
+        this._deferredQueue.setMaxSize(options.concurrency.deferred);
+
+        this.drain();
     }
 
-    private getQueue(command: string) {
-        if (prioritization.isPriorityCommand(command)) {
-            return this._priorityQueue;
+    private getQueue(request: Request) {
+        switch (prioritization.getPriorityClass(request.command, this._options.priorities)) {
+            case 'priority':
+                return this._priorityQueue;
+            case 'normal':
+                return this._normalQueue;
         }
-        else if (prioritization.isNormalCommand(command)) {
+
+        // Requests about the document the user is looking at should not wait behind background work.
+        const activeDocument = this._options.getActiveDocument && this._options.getActiveDocument();
+        if (activeDocument && request.data && request.data.FileName === activeDocument) {
             return this._normalQueue;
         }
-        else {
-            return this._deferredQueue;
-        }
+
+        return this._deferredQueue;
     }
 
     public isEmpty() {
@@ -141,20 +349,67 @@ export class RequestQueueCollection {
     }
 
     public enqueue(request: Request) {
-        const queue = this.getQueue(request.command);
+        request.coalescingKey = request.coalescingKey || prioritization.getCoalescingKey(request.command, request.data);
+
+        const queue = this.getQueue(request);
         queue.enqueue(request);
 
         this.drain();
     }
 
+    /**
+     * Dequeue a request that has completed. Requests can be moved between queues, so all of them are searched.
+     */
     public dequeue(command: string, seq: number) {
-        const queue = this.getQueue(command);
-        return queue.dequeue(seq);
+        return this._priorityQueue.dequeue(seq)
+            || this._normalQueue.dequeue(seq)
+            || this._deferredQueue.dequeue(seq);
     }
 
     public cancelRequest(request: Request) {
-        const queue = this.getQueue(request.command);
-        queue.cancelRequest(request);
+        this._priorityQueue.cancelRequest(request);
+        this._normalQueue.cancelRequest(request);
+        this._deferredQueue.cancelRequest(request);
+    }
+
+    /**
+     * Moves deferred requests that have been pending for longer than the aging threshold to the normal queue,
+     * so that they cannot be starved by a steady stream of other requests.
+     */
+    public promoteAgedRequests(now: number = Date.now()) {
+        if (this._options.agingThreshold > 0) {
+            for (const request of this._deferredQueue.takeAged(now, this._options.agingThreshold)) {
+                this._normalQueue.enqueue(request);
+            }
+        }
+
+        this.drain();
+    }
+
+    public reapExpired(now: number = Date.now()) {
+        this._priorityQueue.reapExpired(now);
+        this._normalQueue.reapExpired(now);
+        this._deferredQueue.reapExpired(now);
+
+        this.drain();
+    }
+
+    public getDepths(): QueueDepth[] {
+        return [this._priorityQueue.getDepth(), this._normalQueue.getDepth(), this._deferredQueue.getDepth()];
+    }
+
+    public rejectWaiting(err: Error) {
+        this._priorityQueue.rejectWaiting(err);
+        this._normalQueue.rejectWaiting(err);
+        this._deferredQueue.rejectWaiting(err);
+
+        this.drain();
+    }
+
+    public requeueWaiting() {
+        this._priorityQueue.requeueWaiting();
+        this._normalQueue.requeueWaiting();
+        this._deferredQueue.requeueWaiting();
     }
 
     public drain() {
@@ -7,13 +7,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as protocol from './protocol';
-import * as utils from '../common';
 import * as serverUtils from '../omnisharp/utils';
 import { vscode, CancellationToken } from '../vscodeAdapter';
-import { ChildProcess, exec } from 'child_process';
-import { LaunchTarget, findLaunchTargets, LaunchTargetKind } from './launcher';
-import { ReadLine, createInterface } from 'readline';
-import { Request, RequestQueueCollection } from './requestQueue';
+import { LaunchTarget, findLaunchTargets, LaunchTargetKind, createProjectsLaunchTarget } from './launcher';
+import { Request, RequestQueueCollection, RequestSupersededError, RequestTimeoutError } from './requestQueue';
 import { DelayTracker } from './delayTracker';
 import { EventEmitter } from 'events';
 import { OmnisharpManager, LaunchInfo } from './OmnisharpManager';
@@ -32,7 +29,15 @@ import Disposable from '../Disposable';
 import OptionProvider from '../observers/OptionProvider';
 import { IHostExecutableResolver } from '../constants/IHostExecutableResolver';
 import { showProjectSelector } from '../features/commands';
-import { removeBOMFromBuffer, removeBOMFromString } from '../utils/removeBOM';
+import { removeBOMFromString } from '../utils/removeBOM';
+import { ChildProcessTransport, ReplayTransport, ServerTransport, SocketTransport } from './serverTransport';
+import { ProtocolRecorder, readRecording } from './protocolRecording';
+import { RequestOutcome, ServerPerformanceReport, ServerPerformanceTracker } from './serverPerformance';
+import { ServerHealth, ServerWatchdog } from './serverWatchdog';
+import { CrashRecovery } from './crashRecovery';
+import { readSolutionFilterProjects, readSolutionProjects, writeProjectsSolution } from './solutionFile';
+import { getActiveMSBuildProperties, getServerPropertyArguments } from './msbuildProfiles';
+import { ProjectLoadProgress } from './projectLoadProgress';
 
 enum ServerState {
     Starting,
@@ -67,6 +72,7 @@ module Events {
     export const BeforeServerStart = 'BeforeServerStart';
     export const ServerStart = 'ServerStart';
     export const ServerStop = 'ServerStop';
+    export const ServerRecovered = 'ServerRecovered';
 
     export const MultipleLaunchTargets = 'server:MultipleLaunchTargets';
 
@@ -79,22 +85,35 @@ const TelemetryReportingDelay = 2 * 60 * 1000; // two minutes
 const serverUrl = "https://roslynomnisharp.blob.core.windows.net";
 const installPath = ".omnisharp";
 const latestVersionFileServerPath = 'releases/versioninfo.txt';
+const ReconnectDelay = 1000; // one second, doubled on every attempt
+const RequestQueueMaintenanceInterval = 1000; // one second
 
 export class OmniSharpServer {
 
     private static _nextId = 1;
-    private _readLine: ReadLine;
     private _disposables: CompositeDisposable;
 
     private _delayTrackers: { [requestName: string]: DelayTracker };
+    private _performanceTracker = new ServerPerformanceTracker();
+    private _watchdog: ServerWatchdog;
+    private _lastResponseTime: number;
     private _telemetryIntervalId: NodeJS.Timer = undefined;
+    private _requestQueueIntervalId: NodeJS.Timer = undefined;
 
     private _eventBus = new EventEmitter();
+    private _forwardedEventBus = new EventEmitter();
     private _state: ServerState = ServerState.Stopped;
     private _launchTarget: LaunchTarget;
     private _requestQueue: RequestQueueCollection;
-    private _serverProcess: ChildProcess;
+    private _transport: ServerTransport;
+    private _recorder: ProtocolRecorder;
     private _sessionProperties: { [key: string]: any } = {};
+    private _startTime: number;
+    private _crashRecovery: CrashRecovery;
+    private _requestRouter: (data: any) => OmniSharpServer;
+    private _projectLoadProgress = new ProjectLoadProgress();
+    private _projectsLoaded = false;
+    private _stillLoading = false;
 
     private _omnisharpManager: OmnisharpManager;
     private updateProjectDebouncer = new Subject<ObservableEvents.ProjectModified>();
@@ -112,6 +131,11 @@ export class OmniSharpServer {
         private dotnetResolver: IHostExecutableResolver,
         public decompilationAuthorized: boolean) {
         this._requestQueue = new RequestQueueCollection(this.eventStream, 8, request => this._makeRequest(request));
+        this._crashRecovery = new CrashRecovery(
+            async () => this._restartAfterCrash(),
+            () => this._fireEvent(Events.ServerRecovered, undefined),
+            this._requestQueue,
+            this.eventStream);
         let downloader = new OmnisharpDownloader(networkSettingsProvider, this.eventStream, this.packageJSON, platformInfo, extensionPath);
         this._omnisharpManager = new OmnisharpManager(downloader, platformInfo);
         this.updateProjectDebouncer.pipe(debounceTime(1500)).subscribe((event) => { this.updateProjectInfo(); });
@@ -165,6 +189,34 @@ export class OmniSharpServer {
         }
     }
 
+    /**
+     * Returns the request latencies measured since the server started, along with the current queue depths.
+     */
+    public getPerformanceReport(): ServerPerformanceReport {
+        return {
+            target: this.getSolutionPathOrFolder(),
+            createdAt: new Date().toISOString(),
+            queues: this._requestQueue.getDepths(),
+            commands: this._performanceTracker.getCommandPerformance(),
+            slowestRequests: this._performanceTracker.getSlowestRequests()
+        };
+    }
+
+    /**
+     * Returns true if the server is running but has stopped answering requests.
+     */
+    public isUnresponsive(): boolean {
+        return this._watchdog !== undefined && this._watchdog.isUnresponsive;
+    }
+
+    public getHealth(): ServerHealth {
+        return this._watchdog && this._watchdog.getHealth();
+    }
+
+    public getLaunchTarget(): LaunchTarget {
+        return this._launchTarget;
+    }
+
     public getSolutionPathOrFolder(): string {
         return this._launchTarget
             ? this._launchTarget.target
@@ -240,6 +292,14 @@ export class OmniSharpServer {
         return this._addListener(Events.ServerStop, listener);
     }
 
+    /**
+     * Fired after the server has been restarted following a crash, once the language features have
+     * been registered again and before the requests that were left unanswered are sent again.
+     */
+    public onServerRecovered(listener: () => any) {
+        return this._addListener(Events.ServerRecovered, listener);
+    }
+
     public onMultipleLaunchTargets(listener: (targets: LaunchTarget[]) => any, thisArg?: any) {
         return this._addListener(Events.MultipleLaunchTargets, listener, thisArg);
     }
@@ -250,10 +310,41 @@ export class OmniSharpServer {
 
     private _addListener(event: string, listener: (e: any) => any, thisArg?: any): Disposable {
         listener = thisArg ? listener.bind(thisArg) : listener;
+        this._eventBus.addListener(event, listener);
+        this._forwardedEventBus.addListener(event, listener);
+        return new Disposable(() => {
+            this._eventBus.removeListener(event, listener);
+            this._forwardedEventBus.removeListener(event, listener);
+        });
+    }
+
+    /**
+     * Listens to the events of this server only, leaving out the events forwarded from other servers.
+     */
+    private _addOwnListener(event: string, listener: (e: any) => any): Disposable {
         this._eventBus.addListener(event, listener);
         return new Disposable(() => this._eventBus.removeListener(event, listener));
     }
 
+    /**
+     * Passes the project, package restore and test events of this server on to the listeners of another one,
+     * so that the features registered with that server also learn about the projects of this one.
+     */
+    public forwardEvents(target: OmniSharpServer): Disposable {
+        const events = [
+            Events.PackageRestoreStarted,
+            Events.PackageRestoreFinished,
+            Events.ProjectChanged,
+            Events.ProjectAdded,
+            Events.ProjectRemoved,
+            Events.ProjectDiagnosticStatus,
+            Events.TestMessage
+        ];
+
+        const listeners = events.map(event => this._addOwnListener(event, args => target._forwardedEventBus.emit(event, args)));
+        return new Disposable(() => listeners.forEach(listener => listener.dispose()));
+    }
+
     protected _fireEvent(event: string, args: any): void {
         this._eventBus.emit(event, args);
     }
@@ -282,7 +373,7 @@ export class OmniSharpServer {
         ));
 
         disposables.add(this.onMsBuildProjectDiagnostics((message: protocol.MSBuildProjectDiagnostics) =>
-            this.eventStream.post(new ObservableEvents.OmnisharpServerMsBuildProjectDiagnostics(message))
+            this.eventStream.post(new ObservableEvents.OmnisharpServerMsBuildProjectDiagnostics(message, this.getSolutionPathOrFolder()))
         ));
 
         disposables.add(this.onUnresolvedDependencies((message: protocol.UnresolvedDependenciesMessage) =>
@@ -306,14 +397,14 @@ export class OmniSharpServer {
         }));
 
         disposables.add(this.onServerStop(() =>
-            this.eventStream.post(new ObservableEvents.OmnisharpServerOnStop())
+            this.eventStream.post(new ObservableEvents.OmnisharpServerOnStop(this.getSolutionPathOrFolder()))
         ));
 
         disposables.add(this.onServerStart(() => {
             this.eventStream.post(new ObservableEvents.OmnisharpServerOnStart());
         }));
 
-        disposables.add(this.onProjectDiagnosticStatus((message: protocol.ProjectDiagnosticStatus) =>
+        disposables.add(this._addOwnListener(Events.ProjectDiagnosticStatus, (message: protocol.ProjectDiagnosticStatus) =>
             this.eventStream.post(new ObservableEvents.OmnisharpProjectDiagnosticStatus(message))
         ));
 
@@ -321,17 +412,39 @@ export class OmniSharpServer {
             this.eventStream.post(new ObservableEvents.ProjectConfiguration(message));
         }));
 
-        disposables.add(this.onProjectAdded(this.debounceUpdateProjectWithLeadingTrue));
-        disposables.add(this.onProjectChange(this.debounceUpdateProjectWithLeadingTrue));
-        disposables.add(this.onProjectRemoved(this.debounceUpdateProjectWithLeadingTrue));
+        disposables.add(this._addOwnListener(Events.ProjectAdded, (message: protocol.ProjectInformationResponse) =>
+            this._onProjectLoaded(message.MsBuildProject && message.MsBuildProject.Path)
+        ));
+
+        disposables.add(this.onMsBuildProjectDiagnostics((message: protocol.MSBuildProjectDiagnostics) =>
+            this._onProjectLoaded(message.FileName)
+        ));
+
+        disposables.add(this._addOwnListener(Events.ProjectAdded, this.debounceUpdateProjectWithLeadingTrue));
+        disposables.add(this._addOwnListener(Events.ProjectChanged, this.debounceUpdateProjectWithLeadingTrue));
+        disposables.add(this._addOwnListener(Events.ProjectRemoved, this.debounceUpdateProjectWithLeadingTrue));
 
         this._disposables = disposables;
 
         this._setState(ServerState.Starting);
         this._launchTarget = launchTarget;
-
-        const solutionPath = launchTarget.target;
-        const cwd = path.dirname(solutionPath);
+        this._projectLoadProgress = new ProjectLoadProgress();
+        this._projectsLoaded = false;
+        this._stillLoading = false;
+        this._configureRequestQueue(options);
+
+        let solutionPath = launchTarget.target;
+        let cwd = path.dirname(solutionPath);
+        if (launchTarget.workspaceKind === LaunchTargetKind.Project) {
+            try {
+                solutionPath = await writeProjectsSolution(launchTarget.projects || [launchTarget.target]);
+                cwd = launchTarget.directory;
+            }
+            catch (error) {
+                this.eventStream.post(new ObservableEvents.OmnisharpFailure(`Could not create a solution for ${launchTarget.label}\nCould not start the server due to ${error.toString()}`, error));
+                return;
+            }
+        }
 
         let args = [
             '-z',
@@ -413,46 +526,140 @@ export class OmniSharpServer {
             args.push('RoslynExtensionsOptions:AnalyzeOpenDocumentsOnly=true');
         }
 
+        const msbuildProperties = getActiveMSBuildProperties(options);
+        args.push(...getServerPropertyArguments(msbuildProperties));
+        this.eventStream.post(new ObservableEvents.OmnisharpMSBuildProfile(options.msbuildProfile, Object.keys(options.msbuildProfiles || {}), msbuildProperties));
+
+        // An attached server was started outside of the extension and a replayed one does not exist,
+        // so there is nothing to download or launch.
         let launchInfo: LaunchInfo;
-        try {
-            launchInfo = await this._omnisharpManager.GetOmniSharpLaunchInfo(this.packageJSON.defaults.omniSharp, options.path, /* useFramework */ !options.useModernNet, serverUrl, latestVersionFileServerPath, installPath, this.extensionPath);
-        }
-        catch (error) {
-            this.eventStream.post(new ObservableEvents.OmnisharpFailure(`Error occurred in loading omnisharp from omnisharp.path\nCould not start the server due to ${error.toString()}`, error));
-            return;
+        if (!options.serverAddress && !options.protocolReplayPath) {
+            try {
+                launchInfo = await this._omnisharpManager.GetOmniSharpLaunchInfo(this.packageJSON.defaults.omniSharp, options.path, /* useFramework */ !options.useModernNet, serverUrl, latestVersionFileServerPath, installPath, this.extensionPath);
+            }
+            catch (error) {
+                this.eventStream.post(new ObservableEvents.OmnisharpFailure(`Error occurred in loading omnisharp from omnisharp.path\nCould not start the server due to ${error.toString()}`, error));
+                return;
+            }
         }
 
-        this.eventStream.post(new ObservableEvents.OmnisharpInitialisation(new Date(), solutionPath));
-        this._fireEvent(Events.BeforeServerStart, solutionPath);
+        this.eventStream.post(new ObservableEvents.OmnisharpInitialisation(new Date(), launchTarget.target));
+        this._fireEvent(Events.BeforeServerStart, launchTarget.target);
 
         try {
-            const launchResult = await launchOmniSharp(cwd, args, launchInfo, this.platformInfo, options, this.monoResolver, this.dotnetResolver);
-            this.eventStream.post(new ObservableEvents.OmnisharpLaunch(launchResult.hostVersion, launchResult.hostPath, launchResult.hostIsMono, launchResult.command, launchResult.process.pid));
-
-            if (razorPluginPath && options.razorPluginPath) {
-                if (fs.existsSync(razorPluginPath)) {
-                    this.eventStream.post(new ObservableEvents.RazorPluginPathSpecified(razorPluginPath));
-                } else {
-                    this.eventStream.post(new ObservableEvents.RazorPluginPathDoesNotExist(razorPluginPath));
-                }
+            if (options.protocolRecordingPath) {
+                this._startRecording(options.protocolRecordingPath);
+            }
+
+            if (options.protocolReplayPath) {
+                this._transport = this._replayRecording(options.protocolReplayPath);
+            }
+            else if (options.serverAddress) {
+                this._transport = await this._connectToServer(options.serverAddress, options);
+            }
+            else {
+                this._transport = await this._launchServer(cwd, args, launchInfo, options, razorPluginPath);
             }
 
-            this._serverProcess = launchResult.process;
             this._delayTrackers = {};
+            this._performanceTracker.clear();
 
             await this._doConnect(options);
             this._setState(ServerState.Started);
-            this._fireEvent(Events.ServerStart, solutionPath);
+            this._startTime = Date.now();
+            // The generated solution of a project selection is an implementation detail, listeners get the launch target.
+            this._fireEvent(Events.ServerStart, launchTarget.target);
 
             this._telemetryIntervalId = setInterval(() => this._reportTelemetry(), TelemetryReportingDelay);
+            this._lastResponseTime = Date.now();
+            this._watchdog = new ServerWatchdog(
+                launchTarget.target,
+                Math.max(options.watchdogProbeInterval || 0, 0) * 1000,
+                Math.max(options.watchdogUnresponsiveThreshold || 0, 0) * 1000,
+                async () => this.makeRequest<void>(protocol.Requests.CheckAliveStatus),
+                () => this._lastResponseTime,
+                () => this._requestQueue.getDepths(),
+                this.eventStream);
+
+            this._requestQueueIntervalId = setInterval(() => {
+                this._requestQueue.reapExpired();
+                this._requestQueue.promoteAgedRequests();
+                this._watchdog.check();
+            }, RequestQueueMaintenanceInterval);
             this._requestQueue.drain();
+
+            if (!this._projectsLoaded) {
+                await this._reportProjectLoadTimeout(launchTarget, options);
+            }
         }
         catch (err) {
             this._fireEvent(Events.ServerError, err);
-            return this.stop();
+            return this._stop();
         }
     }
 
+    private async _launchServer(cwd: string, args: string[], launchInfo: LaunchInfo, options: Options, razorPluginPath: string): Promise<ServerTransport> {
+        const launchResult = await launchOmniSharp(cwd, args, launchInfo, this.platformInfo, options, this.monoResolver, this.dotnetResolver);
+        this.eventStream.post(new ObservableEvents.OmnisharpLaunch(launchResult.hostVersion, launchResult.hostPath, launchResult.hostIsMono, launchResult.command, launchResult.process.pid));
+
+        if (razorPluginPath && options.razorPluginPath) {
+            if (fs.existsSync(razorPluginPath)) {
+                this.eventStream.post(new ObservableEvents.RazorPluginPathSpecified(razorPluginPath));
+            } else {
+                this.eventStream.post(new ObservableEvents.RazorPluginPathDoesNotExist(razorPluginPath));
+            }
+        }
+
+        return new ChildProcessTransport(launchResult.process);
+    }
+
+    private async _connectToServer(address: string, options: Options): Promise<ServerTransport> {
+        const transport = new SocketTransport(address, { maxAttempts: options.serverReconnectAttempts, delay: ReconnectDelay });
+
+        this._disposables.add(transport.onReconnecting(attempt =>
+            this.eventStream.post(new ObservableEvents.OmnisharpServerReconnect(address, attempt, options.serverReconnectAttempts))
+        ));
+
+        // The requests sent on the lost connection are never answered, the new one does not know about them.
+        this._disposables.add(transport.onDisconnected(err => this._requestQueue.rejectWaiting(err)));
+
+        await transport.connect();
+        this.eventStream.post(new ObservableEvents.OmnisharpAttach(address));
+
+        return transport;
+    }
+
+    private _replayRecording(recordingPath: string): ServerTransport {
+        const transport = new ReplayTransport(readRecording(recordingPath));
+        this.eventStream.post(new ObservableEvents.OmnisharpServerMessage(`Replaying OmniSharp wire protocol recording ${recordingPath} instead of launching OmniSharp.`));
+
+        return transport;
+    }
+
+    private _startRecording(recordingPath: string) {
+        let recorder: ProtocolRecorder;
+        try {
+            recorder = new ProtocolRecorder(recordingPath, err =>
+                this.eventStream.post(new ObservableEvents.OmnisharpServerMessage(`Stopped recording the OmniSharp wire protocol to ${recordingPath}: ${err}`))
+            );
+        }
+        catch (err) {
+            // A recording is only a diagnostic aid, so the server starts without one.
+            this.eventStream.post(new ObservableEvents.OmnisharpServerMessage(`Could not record the OmniSharp wire protocol to ${recordingPath}: ${err}`));
+            return;
+        }
+
+        this._recorder = recorder;
+        this._disposables.add(new Disposable(() => {
+            recorder.dispose();
+            if (this._recorder === recorder) {
+                this._recorder = undefined;
+            }
+        }));
+
+        this.eventStream.post(new ObservableEvents.OmnisharpServerMessage(`Recording the OmniSharp wire protocol to ${recordingPath}.`));
+    }
+
     private onProjectConfigurationReceived(listener: (e: protocol.ProjectConfigurationMessage) => void) {
         return this._addListener(Events.ProjectConfiguration, listener);
     }
@@ -473,10 +680,16 @@ export class OmniSharpServer {
         this.firstUpdateProject = false;
         let info = await serverUtils.requestWorkspaceInformation(this);
         //once we get the info, push the event into the event stream
-        this.eventStream.post(new ObservableEvents.WorkspaceInformationUpdated(info));
+        this.eventStream.post(new ObservableEvents.WorkspaceInformationUpdated(info, this._launchTarget));
     }
 
     public async stop(): Promise<void> {
+        // Stopping the server on purpose also abandons any crash recovery that is waiting to restart it.
+        this._crashRecovery.cancel();
+        return this._stop();
+    }
+
+    private async _stop(): Promise<void> {
 
         let cleanupPromise: Promise<void>;
 
@@ -490,42 +703,27 @@ export class OmniSharpServer {
             this._reportTelemetry();
         }
 
-        if (!this._serverProcess) {
-            // nothing to kill
-            cleanupPromise = Promise.resolve();
+        if (this._requestQueueIntervalId !== undefined) {
+            clearInterval(this._requestQueueIntervalId);
+            this._requestQueueIntervalId = undefined;
         }
-        else if (process.platform === 'win32') {
-            // when killing a process in windows its child
-            // processes are *not* killed but become root
-            // processes. Therefore we use TASKKILL.EXE
-            cleanupPromise = new Promise<void>((resolve, reject) => {
-                const killer = exec(`taskkill /F /T /PID ${this._serverProcess.pid}`, (err, stdout, stderr) => {
-                    if (err) {
-                        return reject(err);
-                    }
-                });
 
-                killer.on('exit', resolve);
-                killer.on('error', reject);
-            });
+        this._watchdog = undefined;
+
+        if (!this._transport) {
+            // nothing to kill
+            cleanupPromise = Promise.resolve();
         }
         else {
-            // Kill Unix process and children
-            cleanupPromise = utils.getUnixChildProcessIds(this._serverProcess.pid)
-                .then(children => {
-                    for (let child of children) {
-                        process.kill(child, 'SIGTERM');
-                    }
-
-                    this._serverProcess.kill('SIGTERM');
-                });
+            // Kills a launched server, or just disconnects from an attached one.
+            cleanupPromise = this._transport.stop();
         }
 
         let disposables = this._disposables;
         this._disposables = null;
 
         return cleanupPromise.then(() => {
-            this._serverProcess = null;
+            this._transport = null;
             this._setState(ServerState.Stopped);
             this._fireEvent(Events.ServerStop, this);
             if (disposables) {
@@ -541,6 +739,7 @@ export class OmniSharpServer {
         }
 
         if (launchTarget) {
+            this._crashRecovery.reset();
             await this.stop();
             this.eventStream.post(new ObservableEvents.OmnisharpRestart());
             const options = this.optionProvider.GetLatestOptions();
@@ -548,7 +747,7 @@ export class OmniSharpServer {
         }
     }
 
-    public autoStart(preferredPath: string): Thenable<void> {
+    public autoStart(preferredPath: string, preferredProjects?: string[]): Thenable<void> {
         const options = this.optionProvider.GetLatestOptions();
         return findLaunchTargets(options).then(async launchTargets => {
             // If there aren't any potential launch targets, we create file watcher and try to
@@ -567,54 +766,89 @@ export class OmniSharpServer {
                     });
                 }).then(() => {
                     // 2nd try again
-                    return this.autoStart(preferredPath);
+                    return this.autoStart(preferredPath, preferredProjects);
                 });
             }
-            else if (launchTargets.length === 1) {
-                // If there's only one target, just start
-                return this.restart(launchTargets[0]);
-            }
 
-            // First, try to launch against something that matches the user's preferred target
-            const defaultLaunchSolutionConfigValue = this.optionProvider.GetLatestOptions().defaultLaunchSolution;
-            const defaultLaunchSolutionTarget = launchTargets.find((a) => (path.basename(a.target) === defaultLaunchSolutionConfigValue));
-            if (defaultLaunchSolutionTarget) {
-                return this.restart(defaultLaunchSolutionTarget);
-            }
+            return this.startWithLaunchTargets(launchTargets, preferredPath, preferredProjects);
+        });
+    }
 
-            // If there's more than one launch target, we start the server if one of the targets
-            // matches the preferred path.
-            if (preferredPath) {
-                const preferredLaunchTarget = launchTargets.find((a) => a.target === preferredPath);
-                if (preferredLaunchTarget) {
-                    return this.restart(preferredLaunchTarget);
-                }
-            }
+    /**
+     * Starts the server with one of the given launch targets, asking the user to pick one if none can be chosen automatically.
+     */
+    public async startWithLaunchTargets(launchTargets: LaunchTarget[], preferredPath: string, preferredProjects?: string[]): Promise<void> {
+        if (launchTargets.length === 1) {
+            // If there's only one target, just start
+            return this.restart(launchTargets[0]);
+        }
 
-            // To maintain previous behavior when there are mulitple targets available,
-            // launch with first Solution or Folder target.
-            const firstFolderOrSolutionTarget = launchTargets
-                .find(target => target.workspaceKind == LaunchTargetKind.Folder || target.workspaceKind == LaunchTargetKind.Solution);
-            if (firstFolderOrSolutionTarget) {
-                return this.restart(firstFolderOrSolutionTarget);
+        // First, try to launch against something that matches the user's preferred target
+        const defaultLaunchSolutionConfigValue = this.optionProvider.GetLatestOptions().defaultLaunchSolution;
+        const defaultLaunchSolutionTarget = launchTargets.find((a) => (path.basename(a.target) === defaultLaunchSolutionConfigValue));
+        if (defaultLaunchSolutionTarget) {
+            return this.restart(defaultLaunchSolutionTarget);
+        }
+
+        // Then try to launch against a selection of several projects, as long as all of them still exist.
+        if (preferredProjects && preferredProjects.length > 1) {
+            const projectTargets = preferredProjects.map(project =>
+                launchTargets.find(target => target.workspaceKind === LaunchTargetKind.Project && target.target === project));
+            if (projectTargets.every(target => target !== undefined)) {
+                return this.restart(createProjectsLaunchTarget(projectTargets));
             }
+        }
 
-            // When running integration tests, open the first launch target.
-            if (process.env.RUNNING_INTEGRATION_TESTS === "true") {
-                return this.restart(launchTargets[0]);
+        // If there's more than one launch target, we start the server if one of the targets
+        // matches the preferred path.
+        if (preferredPath) {
+            const preferredLaunchTarget = launchTargets.find((a) => a.target === preferredPath);
+            if (preferredLaunchTarget) {
+                return this.restart(preferredLaunchTarget);
             }
+        }
 
-            // Otherwise, we fire the "MultipleLaunchTargets" event,
-            // which is handled in status.ts to display the launch target selector.
-            this._fireEvent(Events.MultipleLaunchTargets, launchTargets);
-            return showProjectSelector(this, launchTargets);
-        });
+        // To maintain previous behavior when there are mulitple targets available,
+        // launch with first Solution or Folder target.
+        const firstFolderOrSolutionTarget = launchTargets
+            .find(target => target.workspaceKind == LaunchTargetKind.Folder || target.workspaceKind == LaunchTargetKind.Solution);
+        if (firstFolderOrSolutionTarget) {
+            return this.restart(firstFolderOrSolutionTarget);
+        }
+
+        // When running integration tests, open the first launch target.
+        if (process.env.RUNNING_INTEGRATION_TESTS === "true") {
+            return this.restart(launchTargets[0]);
+        }
+
+        // Otherwise, we fire the "MultipleLaunchTargets" event,
+        // which is handled in status.ts to display the launch target selector.
+        this._fireEvent(Events.MultipleLaunchTargets, launchTargets);
+        return showProjectSelector(this, launchTargets);
     }
 
     // --- requests et al
 
+    /**
+     * Lets another server answer requests about documents it owns. The router returns the server
+     * that should handle a request, or undefined to handle it here.
+     */
+    public routeRequests(router: (data: any) => OmniSharpServer): Disposable {
+        this._requestRouter = router;
+        return new Disposable(() => {
+            if (this._requestRouter === router) {
+                this._requestRouter = undefined;
+            }
+        });
+    }
+
     public async makeRequest<TResponse>(command: string, data?: any, token?: CancellationToken): Promise<TResponse> {
 
+        const owner = this._requestRouter && this._requestRouter(data);
+        if (owner && owner !== this) {
+            return owner.makeRequest<TResponse>(command, data, token);
+        }
+
         if (!this.isRunning()) {
             return Promise.reject<TResponse>('OmniSharp server is not running.');
         }
@@ -629,7 +863,8 @@ export class OmniSharpServer {
                 command,
                 data,
                 onSuccess: value => resolve(value),
-                onError: err => reject(err)
+                onError: err => reject(err),
+                timeout: this._getRequestTimeout(command)
             };
 
             this._requestQueue.enqueue(request);
@@ -644,31 +879,90 @@ export class OmniSharpServer {
             });
         }
 
-        return promise.then(response => {
-            let endTime = Date.now();
-            let elapsedTime = endTime - startTime;
-            this._recordRequestDelay(command, elapsedTime);
+        let outcome: RequestOutcome = 'succeeded';
+        try {
+            return await promise;
+        }
+        catch (err) {
+            if (err instanceof RequestTimeoutError) {
+                outcome = 'timedOut';
+            }
+            else if (err instanceof RequestSupersededError || (token && token.isCancellationRequested)) {
+                outcome = 'cancelled';
+            }
+            else {
+                outcome = 'failed';
+            }
+
+            throw err;
+        }
+        finally {
+            let elapsedTime = Date.now() - startTime;
+
+            // The telemetry delays only cover answered requests, the performance report shows every outcome.
+            if (outcome === 'succeeded') {
+                this._recordRequestDelay(command, elapsedTime);
+            }
+
+            this._performanceTracker.reportRequest(command, elapsedTime, data && data.FileName, outcome);
+        }
+    }
 
-            return response;
+    private _configureRequestQueue(options: Options) {
+        const concurrency = options.requestQueueConcurrency || {};
+        this._requestQueue.configure({
+            concurrency: {
+                priority: Math.max(concurrency.priority || 1, 1),
+                normal: Math.max(concurrency.normal || 8, 1),
+                deferred: Math.max(concurrency.deferred || 2, 1)
+            },
+            priorities: options.requestPriorities || {},
+            agingThreshold: Math.max(options.deferredRequestAgingThreshold || 0, 0) * 1000,
+            getActiveDocument: options.prioritizeActiveDocument
+                ? () => this.vscode.window.activeTextEditor && this.vscode.window.activeTextEditor.document.fileName
+                : undefined
         });
     }
 
-    private async _doConnect(options: Options): Promise<void> {
+    private _getRequestTimeout(command: string): number {
+        // The watchdog probe is left outstanding for as long as the server takes to answer it, as that is how the
+        // watchdog tells a hung server. A probe rejected by a timeout would be taken for a stopping server.
+        if (command === protocol.Requests.CheckAliveStatus) {
+            return undefined;
+        }
 
-        this._serverProcess.stderr.on('data', (data: Buffer) => {
-            let trimData = removeBOMFromBuffer(data);
-            if (trimData.length > 0) {
-                this._fireEvent(Events.StdErr, trimData.toString());
-            }
-        });
+        const timeouts = this.optionProvider.GetLatestOptions().requestTimeouts || {};
+        const seconds = command in timeouts ? timeouts[command] : timeouts['*'];
 
-        this._readLine = createInterface({
-            input: this._serverProcess.stdout,
-            output: this._serverProcess.stdin,
-            terminal: false
-        });
+        // Convert the timeout from seconds to milliseconds, no timeout means no deadline.
+        return seconds > 0 ? seconds * 1000 : undefined;
+    }
+
+    private async _doConnect(options: Options): Promise<void> {
+        const transport = this._transport;
+        let connected = false;
+
+        this._disposables.add(transport.onStdErr(data => this._fireEvent(Events.StdErr, data)));
+        this._disposables.add(transport.onLine(line => this._onLineReceived(line)));
 
         const promise = new Promise<void>((resolve, reject) => {
+            // Losing the transport while connecting fails the start, afterwards it takes the server down.
+            this._disposables.add(transport.onClosed(err => {
+                if (connected) {
+                    this._onTransportClosed(err);
+                }
+                else {
+                    reject(err);
+                }
+            }));
+
+            if (!transport.ownsServer) {
+                // An attached server started before we connected, so its 'started' event has already been sent.
+                this._projectsLoaded = true;
+                resolve();
+                return;
+            }
+
             let listener: Disposable;
 
             // Convert the timeout from the seconds to milliseconds, which is required by setTimeout().
@@ -676,6 +970,12 @@ export class OmniSharpServer {
 
             // timeout logic
             const handle = setTimeout(() => {
+                if (options.continueLoadingAfterTimeout) {
+                    // Start with the projects loaded so far; the started-event tells when the remaining ones were loaded.
+                    resolve();
+                    return;
+                }
+
                 if (listener) {
                     listener.dispose();
                 }
@@ -690,19 +990,62 @@ export class OmniSharpServer {
                 }
 
                 clearTimeout(handle);
+                this._onProjectLoadCompleted();
                 resolve();
             });
+
+            this._disposables.add(listener);
         });
 
-        const lineReceived = this._onLineReceived.bind(this);
+        await promise;
+        connected = true;
+    }
 
-        this._readLine.addListener('line', lineReceived);
+    private _onProjectLoaded(projectPath: string) {
+        if (!projectPath) {
+            return;
+        }
 
-        this._disposables.add(new Disposable(() => {
-            this._readLine.removeListener('line', lineReceived);
-        }));
+        this._projectLoadProgress.markLoaded(projectPath);
+        if (this._stillLoading) {
+            this.eventStream.post(new ObservableEvents.OmnisharpServerProjectLoadProgress(this._launchTarget.target, this._projectLoadProgress.loadedProjectCount, this._projectLoadProgress.getPendingProjects()));
+        }
+    }
 
-        return promise;
+    private _onProjectLoadCompleted() {
+        this._projectsLoaded = true;
+        if (this._stillLoading) {
+            this._stillLoading = false;
+            this.eventStream.post(new ObservableEvents.OmnisharpServerProjectLoadCompleted(this._launchTarget.target, this._projectLoadProgress.loadedProjectCount));
+        }
+    }
+
+    private async _reportProjectLoadTimeout(launchTarget: LaunchTarget, options: Options) {
+        this._projectLoadProgress.setExpectedProjects(await readLaunchTargetProjects(launchTarget));
+
+        // The remaining projects may have been loaded while the launch target was read.
+        if (!this._projectsLoaded) {
+            this._stillLoading = true;
+            this.eventStream.post(new ObservableEvents.OmnisharpServerProjectLoadTimeout(launchTarget.target, options.projectLoadTimeout, this._projectLoadProgress.loadedProjectCount, this._projectLoadProgress.getPendingProjects()));
+        }
+    }
+
+    private async _onTransportClosed(err: Error) {
+        this._fireEvent(Events.ServerError, err);
+
+        // An attached server is not ours to restart; its transport has already given up reconnecting.
+        const recoverable = this._transport.ownsServer;
+
+        await this._stop();
+
+        if (recoverable) {
+            await this._crashRecovery.recover(this.optionProvider.GetLatestOptions().serverRestartAttempts, this._startTime);
+        }
+    }
+
+    private async _restartAfterCrash(): Promise<boolean> {
+        await this._start(this._launchTarget, this.optionProvider.GetLatestOptions());
+        return this.isRunning();
     }
 
     private _onLineReceived(line: string) {
@@ -727,6 +1070,10 @@ export class OmniSharpServer {
             return;
         }
 
+        if (this._recorder) {
+            this._recorder.record(packet);
+        }
+
         switch (packet.Type) {
             case 'response':
                 this._handleResponsePacket(<protocol.WireProtocol.ResponsePacket>packet);
@@ -741,6 +1088,7 @@ export class OmniSharpServer {
     }
 
     private _handleResponsePacket(packet: protocol.WireProtocol.ResponsePacket) {
+        this._lastResponseTime = Date.now();
         const request = this._requestQueue.dequeue(packet.Command, packet.Request_seq);
 
         if (!request) {
@@ -751,6 +1099,7 @@ export class OmniSharpServer {
         this.eventStream.post(new ObservableEvents.OmnisharpServerVerboseMessage(`handleResponse: ${packet.Command} (${packet.Request_seq})`));
 
         if (packet.Success) {
+            this.eventStream.post(new ObservableEvents.OmnisharpServerRequestSucceeded(packet.Command, packet.Request_seq));
             request.onSuccess(packet.Body);
         }
         else {
@@ -783,7 +1132,33 @@ export class OmniSharpServer {
         };
 
         this.eventStream.post(new ObservableEvents.OmnisharpRequestMessage(request, id));
-        this._serverProcess.stdin.write(JSON.stringify(requestPacket) + '\n');
+
+        if (this._recorder) {
+            this._recorder.record(requestPacket);
+        }
+
+        this._transport.write(JSON.stringify(requestPacket) + '\n');
         return id;
     }
 }
+
+/**
+ * Returns the projects OmniSharp loads for a launch target, or undefined when they are not known, e.g. for a folder.
+ */
+async function readLaunchTargetProjects(launchTarget: LaunchTarget): Promise<string[] | undefined> {
+    try {
+        switch (launchTarget.workspaceKind) {
+            case LaunchTargetKind.Solution:
+                return path.extname(launchTarget.target).toLowerCase() === '.slnf'
+                    ? await readSolutionFilterProjects(launchTarget.target)
+                    : (await readSolutionProjects(launchTarget.target)).map(project => project.path);
+            case LaunchTargetKind.Project:
+                return launchTarget.projects || [launchTarget.target];
+        }
+    }
+    catch {
+        // The projects that are still loading are not named when the solution cannot be read.
+    }
+
+    return undefined;
+}
@@ -0,0 +1,166 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { DelayTracker } from './delayTracker';
+
+const RecentRequestCount = 500;
+const SlowestRequestCount = 10;
+
+export type RequestOutcome = 'succeeded' | 'failed' | 'cancelled' | 'timedOut';
+
+export interface CommandPerformance {
+    command: string;
+    count: number;
+    failures: number;
+    averageTime: number;
+    maxTime: number;
+    delays: { [bucket: string]: number };
+}
+
+export interface RequestPerformance {
+    command: string;
+    fileName?: string;
+    elapsedTime: number;
+    outcome: RequestOutcome;
+    completedAt: string;
+}
+
+export interface QueueDepth {
+    name: string;
+    pending: number;
+    waiting: number;
+}
+
+export interface ServerPerformanceReport {
+    target: string;
+    createdAt: string;
+    queues: QueueDepth[];
+    commands: CommandPerformance[];
+    slowestRequests: RequestPerformance[];
+}
+
+interface CommandStatistics {
+    count: number;
+    failures: number;
+    totalTime: number;
+    maxTime: number;
+    delays: DelayTracker;
+}
+
+/**
+ * Keeps the request latencies of a server for as long as it runs. Unlike the delay trackers reported
+ * through telemetry, the measures are never cleared, so that they can be inspected at any time.
+ * Requests that failed, were cancelled or timed out are measured as well, their outcome tells them apart.
+ */
+export class ServerPerformanceTracker {
+    private _commands = new Map<string, CommandStatistics>();
+    private _recentRequests: RequestPerformance[] = [];
+
+    public reportRequest(command: string, elapsedTime: number, fileName?: string, outcome: RequestOutcome = 'succeeded', now: Date = new Date()) {
+        let statistics = this._commands.get(command);
+        if (!statistics) {
+            statistics = { count: 0, failures: 0, totalTime: 0, maxTime: 0, delays: new DelayTracker(command) };
+            this._commands.set(command, statistics);
+        }
+
+        statistics.count += 1;
+        if (outcome !== 'succeeded') {
+            statistics.failures += 1;
+        }
+        statistics.totalTime += elapsedTime;
+        statistics.maxTime = Math.max(statistics.maxTime, elapsedTime);
+        statistics.delays.reportDelay(elapsedTime);
+
+        this._recentRequests.push({ command, fileName, elapsedTime, outcome, completedAt: now.toISOString() });
+        if (this._recentRequests.length > RecentRequestCount) {
+            this._recentRequests.shift();
+        }
+    }
+
+    public getCommandPerformance(): CommandPerformance[] {
+        return Array.from(this._commands.entries())
+            .map(([command, statistics]) => ({
+                command,
+                count: statistics.count,
+                failures: statistics.failures,
+                averageTime: Math.round(statistics.totalTime / statistics.count),
+                maxTime: statistics.maxTime,
+                delays: statistics.delays.getMeasures()
+            }))
+            .sort((a, b) => b.count - a.count);
+    }
+
+    /**
+     * Returns the slowest of the most recently completed requests, slowest first.
+     */
+    public getSlowestRequests(count: number = SlowestRequestCount): RequestPerformance[] {
+        return this._recentRequests
+            .slice()
+            .sort((a, b) => b.elapsedTime - a.elapsedTime)
+            .slice(0, count);
+    }
+
+    public clear() {
+        this._commands.clear();
+        this._recentRequests = [];
+    }
+}
+
+const delayBucketLabels: { [bucket: string]: string } = {
+    immediateDelays: '0-25',
+    nearImmediateDelays: '26-50',
+    shortDelays: '51-250',
+    mediumDelays: '251-500',
+    idleDelays: '501-1500',
+    nonFocusDelays: '1501-3000',
+    bigDelays: '3000+'
+};
+
+/**
+ * Renders performance reports as a Markdown document, one section per server.
+ */
+export function formatPerformanceReports(reports: ServerPerformanceReport[]): string {
+    const lines = ['# OmniSharp Server Performance', ''];
+    if (reports.length === 0) {
+        lines.push('No OmniSharp server is running.');
+    }
+
+    for (const report of reports) {
+        lines.push(`## ${report.target || 'OmniSharp'}`, '', `Captured at ${report.createdAt}.`, '');
+
+        lines.push('### Queues', '', '| Queue | Pending | Waiting |', '|---|---:|---:|');
+        for (const queue of report.queues) {
+            lines.push(`| ${queue.name} | ${queue.pending} | ${queue.waiting} |`);
+        }
+
+        lines.push('', '### Requests', '');
+        if (report.commands.length === 0) {
+            lines.push('No requests have completed yet.');
+        }
+        else {
+            const buckets = Object.keys(delayBucketLabels);
+            lines.push(`| Command | Count | Unsuccessful | Average (ms) | Max (ms) | ${buckets.map(bucket => `${delayBucketLabels[bucket]} ms`).join(' | ')} |`);
+            lines.push(`|---|---:|---:|---:|---:|${buckets.map(_ => '---:').join('|')}|`);
+            for (const command of report.commands) {
+                lines.push(`| ${command.command} | ${command.count} | ${command.failures} | ${command.averageTime} | ${command.maxTime} | ${buckets.map(bucket => command.delays[bucket]).join(' | ')} |`);
+            }
+        }
+
+        lines.push('', '### Slowest Recent Requests', '');
+        if (report.slowestRequests.length === 0) {
+            lines.push('No requests have completed yet.');
+        }
+        else {
+            lines.push('| Command | File | Time (ms) | Outcome | Completed at |', '|---|---|---:|---|---|');
+            for (const request of report.slowestRequests) {
+                lines.push(`| ${request.command} | ${request.fileName || ''} | ${request.elapsedTime} | ${request.outcome} | ${request.completedAt} |`);
+            }
+        }
+
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,184 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { OmniSharpServer } from './server';
+import { findLaunchTargets, LaunchTarget } from './launcher';
+import { OmnisharpServerPoolStatus } from './loggingEvents';
+import { EventStream } from '../EventStream';
+import OptionProvider from '../observers/OptionProvider';
+import CompositeDisposable from '../CompositeDisposable';
+import Disposable, { IDisposable } from '../Disposable';
+import { selectServer } from './serverRouting';
+
+const ServerStart = 'ServerStart';
+const ServerStop = 'ServerStop';
+
+/**
+ * Runs one OmniSharp server per workspace folder, so that every folder of a multi-root workspace gets
+ * language services for its own solution. The language features are registered with the primary server
+ * while any server of the pool runs. The primary server forwards requests about documents in other workspace
+ * folders to the server that owns them, and the other servers pass their project events on to it.
+ *
+ * Workspace-wide requests, such as workspace symbols, are answered by a single server, see {@link selectServer}.
+ */
+export class OmniSharpServerPool implements IDisposable {
+    private _servers = new Map<string, OmniSharpServer>();
+    private _disposables = new CompositeDisposable();
+    private _eventBus = new EventEmitter();
+
+    constructor(
+        public readonly primary: OmniSharpServer,
+        private _createServer: () => OmniSharpServer,
+        private _optionProvider: OptionProvider,
+        private _eventStream: EventStream) {
+        this._disposables.add(primary.routeRequests(data => this._routeRequest(data)));
+        this._watchServer(primary);
+    }
+
+    /**
+     * All servers of the pool, starting with the primary one.
+     */
+    public get servers(): OmniSharpServer[] {
+        return Array.from(new Set<OmniSharpServer>([this.primary, ...this._servers.values()]));
+    }
+
+    /**
+     * Returns true if any server of the pool is running.
+     */
+    public isRunning(): boolean {
+        return this.servers.some(server => server.isRunning());
+    }
+
+    /**
+     * Fired whenever a server of the pool has started.
+     */
+    public onServerStart(listener: () => any): Disposable {
+        this._eventBus.addListener(ServerStart, listener);
+        return new Disposable(() => this._eventBus.removeListener(ServerStart, listener));
+    }
+
+    /**
+     * Fired whenever a server of the pool has stopped.
+     */
+    public onServerStop(listener: () => any): Disposable {
+        this._eventBus.addListener(ServerStop, listener);
+        return new Disposable(() => this._eventBus.removeListener(ServerStop, listener));
+    }
+
+    /**
+     * Returns the server that owns the workspace folder containing the given file, if there is one.
+     */
+    public getServerForPath(fileName: string): OmniSharpServer | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fileName));
+        return folder ? this._servers.get(folder.uri.fsPath) : undefined;
+    }
+
+    /**
+     * Returns true if the server that answers requests about the given file is running.
+     */
+    public isRunningForPath(fileName: string): boolean {
+        return (this.getServerForPath(fileName) || this.primary).isRunning();
+    }
+
+    /**
+     * Returns the server that should be started with the given launch target. While a single server serves
+     * the whole workspace, that is always the primary server.
+     */
+    public getServerForLaunchTarget(launchTarget: LaunchTarget): OmniSharpServer {
+        if (this._servers.size === 0) {
+            return this.primary;
+        }
+
+        const folderPath = getWorkspaceFolderPath(launchTarget);
+        return folderPath ? this._getOrCreateServer(folderPath) : this.primary;
+    }
+
+    public async autoStart(preferredPath: string, preferredProjects?: string[]): Promise<void> {
+        const options = this._optionProvider.GetLatestOptions();
+        if (!options.serverPerWorkspaceFolder) {
+            return this.primary.autoStart(preferredPath, preferredProjects);
+        }
+
+        const launchTargets = await findLaunchTargets(options);
+        const launchTargetsByFolder = new Map<string, LaunchTarget[]>();
+        for (const launchTarget of launchTargets) {
+            const folderPath = getWorkspaceFolderPath(launchTarget);
+            if (!launchTargetsByFolder.has(folderPath)) {
+                launchTargetsByFolder.set(folderPath, []);
+            }
+
+            launchTargetsByFolder.get(folderPath).push(launchTarget);
+        }
+
+        // A single server serves workspaces whose targets all live in the same folder (or outside of any folder).
+        if (launchTargetsByFolder.size <= 1 || launchTargetsByFolder.has(undefined)) {
+            return this.primary.autoStart(preferredPath, preferredProjects);
+        }
+
+        await Promise.all(Array.from(launchTargetsByFolder.entries()).map(async ([folderPath, folderTargets]) =>
+            this._getOrCreateServer(folderPath).startWithLaunchTargets(folderTargets, preferredPath, preferredProjects)));
+    }
+
+    public async restart(): Promise<void> {
+        await Promise.all(this.servers.map(async server => server.restart()));
+    }
+
+    public async stop(): Promise<void> {
+        await Promise.all(this.servers.map(async server => server.stop()));
+    }
+
+    public dispose() {
+        this._disposables.dispose();
+    }
+
+    private _getOrCreateServer(folderPath: string): OmniSharpServer {
+        let server = this._servers.get(folderPath);
+        if (!server) {
+            server = this._servers.size === 0 ? this.primary : this._createServer();
+            this._servers.set(folderPath, server);
+
+            if (server !== this.primary) {
+                this._watchServer(server);
+                this._disposables.add(server.forwardEvents(this.primary));
+            }
+        }
+
+        return server;
+    }
+
+    private _watchServer(server: OmniSharpServer) {
+        this._disposables.add(server.onServerStart(() => {
+            this._postStatus();
+            this._eventBus.emit(ServerStart);
+        }));
+        this._disposables.add(server.onServerStop(() => {
+            this._postStatus();
+            this._eventBus.emit(ServerStop);
+        }));
+    }
+
+    private _postStatus() {
+        const status = this.servers
+            .filter(server => server.getSolutionPathOrFolder())
+            .map(server => ({ target: server.getSolutionPathOrFolder(), running: server.isRunning() }));
+
+        this._eventStream.post(new OmnisharpServerPoolStatus(status));
+    }
+
+    private _routeRequest(data: any): OmniSharpServer | undefined {
+        return selectServer(data, this.primary, this.servers, fileName => this.getServerForPath(fileName));
+    }
+}
+
+function getWorkspaceFolderPath(launchTarget: LaunchTarget): string | undefined {
+    if (!launchTarget.target) {
+        return undefined;
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(launchTarget.target));
+    return folder ? folder.uri.fsPath : undefined;
+}
@@ -0,0 +1,29 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface RoutedServer {
+    isRunning(): boolean;
+}
+
+/**
+ * Returns the server of a pool that should answer a request, or undefined to let the primary server answer it.
+ *
+ * A request about a file goes to the server of the workspace folder containing it. Workspace-wide requests, such as
+ * workspace symbols or a code check of the whole workspace, are not fanned out: they go to the primary server, or to
+ * the first running server while the primary one is stopped, and only cover the workspace folder of that server.
+ */
+export function selectServer<TServer extends RoutedServer>(
+    data: any,
+    primary: TServer,
+    servers: TServer[],
+    getServerForPath: (fileName: string) => TServer | undefined): TServer | undefined {
+
+    const fileName = data && (data.FileName || data.fileName);
+    if (typeof fileName === 'string') {
+        return getServerForPath(fileName);
+    }
+
+    return primary.isRunning() ? primary : servers.find(server => server.isRunning());
+}
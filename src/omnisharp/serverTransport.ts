@@ -0,0 +1,437 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as net from 'net';
+import * as protocol from './protocol';
+import * as utils from '../common';
+import { ChildProcess, exec } from 'child_process';
+import { EventEmitter } from 'events';
+import { ReadLine, createInterface } from 'readline';
+import { setTimeout } from 'timers';
+import Disposable from '../Disposable';
+import { removeBOMFromBuffer } from '../utils/removeBOM';
+import { RecordedPacket } from './protocolRecording';
+
+module Events {
+    export const Line = 'line';
+    export const StdErr = 'stderr';
+    export const Reconnecting = 'reconnecting';
+    export const Disconnected = 'disconnected';
+    export const Closed = 'closed';
+}
+
+/**
+ * A bidirectional channel carrying newline-delimited wire protocol packets between
+ * the extension and an OmniSharp server.
+ */
+export interface ServerTransport {
+    /**
+     * True if the server was launched by the extension. An attached server has already
+     * finished starting, so it will not send another 'started' event.
+     */
+    readonly ownsServer: boolean;
+
+    onLine(listener: (line: string) => void): Disposable;
+    onStdErr(listener: (data: string) => void): Disposable;
+    onReconnecting(listener: (attempt: number) => void): Disposable;
+
+    /**
+     * Fired when the connection is lost and is about to be re-established. Packets written before are
+     * not answered on the new connection.
+     */
+    onDisconnected(listener: (err: Error) => void): Disposable;
+
+    /**
+     * Fired when the transport is lost without `stop()` having been called.
+     */
+    onClosed(listener: (err: Error) => void): Disposable;
+
+    write(line: string): void;
+    stop(): Promise<void>;
+}
+
+/**
+ * Controls how a lost connection to an attached server is re-established.
+ */
+export interface ReconnectPolicy {
+    maxAttempts: number;
+
+    /**
+     * Delay in milliseconds before the first retry. The delay doubles with every following attempt.
+     */
+    delay: number;
+}
+
+abstract class BaseTransport implements ServerTransport {
+    private _eventBus = new EventEmitter();
+
+    public abstract readonly ownsServer: boolean;
+
+    public onLine(listener: (line: string) => void): Disposable {
+        return this._addListener(Events.Line, listener);
+    }
+
+    public onStdErr(listener: (data: string) => void): Disposable {
+        return this._addListener(Events.StdErr, listener);
+    }
+
+    public onReconnecting(listener: (attempt: number) => void): Disposable {
+        return this._addListener(Events.Reconnecting, listener);
+    }
+
+    public onDisconnected(listener: (err: Error) => void): Disposable {
+        return this._addListener(Events.Disconnected, listener);
+    }
+
+    public onClosed(listener: (err: Error) => void): Disposable {
+        return this._addListener(Events.Closed, listener);
+    }
+
+    public abstract write(line: string): void;
+    public abstract stop(): Promise<void>;
+
+    protected _fireEvent(event: string, args?: any): void {
+        this._eventBus.emit(event, args);
+    }
+
+    private _addListener(event: string, listener: (e: any) => any): Disposable {
+        this._eventBus.addListener(event, listener);
+        return new Disposable(() => this._eventBus.removeListener(event, listener));
+    }
+}
+
+/**
+ * Talks to an OmniSharp process launched by the extension through its standard streams.
+ */
+export class ChildProcessTransport extends BaseTransport {
+    public readonly ownsServer = true;
+    private _readLine: ReadLine;
+    private _stopping = false;
+    private _exited = false;
+
+    constructor(private _process: ChildProcess) {
+        super();
+
+        this._process.stderr.on('data', (data: Buffer) => {
+            let trimData = removeBOMFromBuffer(data);
+            if (trimData.length > 0) {
+                this._fireEvent(Events.StdErr, trimData.toString());
+            }
+        });
+
+        this._readLine = createInterface({
+            input: this._process.stdout,
+            output: this._process.stdin,
+            terminal: false
+        });
+
+        this._readLine.addListener('line', line => this._fireEvent(Events.Line, line));
+
+        this._process.on('exit', (code, signal) => {
+            this._exited = true;
+            if (!this._stopping) {
+                this._fireEvent(Events.Closed, new Error(`OmniSharp process exited unexpectedly (code: ${code}, signal: ${signal}).`));
+            }
+        });
+    }
+
+    public write(line: string): void {
+        this._process.stdin.write(line);
+    }
+
+    public async stop(): Promise<void> {
+        this._stopping = true;
+        this._readLine.close();
+
+        if (this._exited) {
+            // nothing to kill
+            return;
+        }
+
+        if (process.platform === 'win32') {
+            // when killing a process in windows its child
+            // processes are *not* killed but become root
+            // processes. Therefore we use TASKKILL.EXE
+            return new Promise<void>((resolve, reject) => {
+                const killer = exec(`taskkill /F /T /PID ${this._process.pid}`, (err, stdout, stderr) => {
+                    if (err) {
+                        return reject(err);
+                    }
+                });
+
+                killer.on('exit', resolve);
+                killer.on('error', reject);
+            });
+        }
+
+        // Kill Unix process and children
+        const children = await utils.getUnixChildProcessIds(this._process.pid);
+        for (let child of children) {
+            process.kill(child, 'SIGTERM');
+        }
+
+        this._process.kill('SIGTERM');
+    }
+}
+
+/**
+ * Talks to an already-running OmniSharp server over a TCP connection, a Unix domain socket
+ * or a Windows named pipe. Lost connections are re-established according to the reconnect policy;
+ * packets written in the meantime are buffered and sent once the connection is back.
+ */
+export class SocketTransport extends BaseTransport {
+    public readonly ownsServer = false;
+    private _connectOptions: net.NetConnectOpts;
+    private _socket: net.Socket;
+    private _readLine: ReadLine;
+    private _pendingWrites: string[] = [];
+    private _stopping = false;
+
+    constructor(private _address: string, private _policy: ReconnectPolicy) {
+        super();
+        this._connectOptions = parseServerAddress(_address);
+    }
+
+    /**
+     * Establishes the initial connection, retrying according to the reconnect policy.
+     */
+    public async connect(): Promise<void> {
+        let lastError: Error;
+
+        for (let attempt = 0; attempt <= this._policy.maxAttempts; attempt++) {
+            if (attempt > 0) {
+                this._fireEvent(Events.Reconnecting, attempt);
+                await delay(this._policy.delay * Math.pow(2, attempt - 1));
+            }
+
+            if (this._stopping) {
+                throw new Error(`Connection to OmniSharp server at ${this._address} was stopped.`);
+            }
+
+            try {
+                this._attach(await openSocket(this._connectOptions));
+                return;
+            }
+            catch (error) {
+                lastError = error;
+            }
+        }
+
+        throw new Error(`Could not connect to OmniSharp server at ${this._address}: ${lastError}`);
+    }
+
+    public write(line: string): void {
+        if (this._socket) {
+            this._socket.write(line);
+        }
+        else {
+            this._pendingWrites.push(line);
+        }
+    }
+
+    public async stop(): Promise<void> {
+        this._stopping = true;
+        this._pendingWrites = [];
+
+        if (this._socket) {
+            const socket = this._socket;
+            this._socket = undefined;
+            this._readLine.close();
+
+            return new Promise<void>(resolve => {
+                socket.once('close', () => resolve());
+                socket.end();
+                socket.destroy();
+            });
+        }
+    }
+
+    private _attach(socket: net.Socket) {
+        this._socket = socket;
+        this._readLine = createInterface({
+            input: socket,
+            terminal: false
+        });
+
+        this._readLine.addListener('line', line => this._fireEvent(Events.Line, line));
+
+        // 'close' always follows 'error', so the error is handled there.
+        socket.on('error', () => { });
+        socket.on('close', () => this._onSocketClosed(socket));
+
+        const pendingWrites = this._pendingWrites;
+        this._pendingWrites = [];
+        for (let line of pendingWrites) {
+            socket.write(line);
+        }
+    }
+
+    private _onSocketClosed(socket: net.Socket) {
+        if (this._stopping || socket !== this._socket) {
+            return;
+        }
+
+        this._socket = undefined;
+        this._readLine.close();
+
+        this._fireEvent(Events.Disconnected, new Error(`Connection to OmniSharp server at ${this._address} was lost.`));
+        this.connect().catch(err => this._fireEvent(Events.Closed, err));
+    }
+}
+
+interface RecordedExchange {
+    request: protocol.WireProtocol.RequestPacket;
+    response: protocol.WireProtocol.ResponsePacket;
+    events: protocol.WireProtocol.EventPacket[];
+    replayed: boolean;
+}
+
+/**
+ * Stands in for an OmniSharp server by answering requests from a wire protocol recording. A request
+ * is answered with the response to a recorded request for the same command, preferring one with
+ * identical arguments that has not been replayed yet. Events recorded after a response are replayed
+ * along with it; events recorded before the first response are replayed right away.
+ */
+export class ReplayTransport extends BaseTransport {
+    public readonly ownsServer = false;
+    private _exchanges: RecordedExchange[] = [];
+    private _stopped = false;
+
+    constructor(recording: RecordedPacket[]) {
+        super();
+
+        const initialEvents: protocol.WireProtocol.EventPacket[] = [];
+        const exchangesBySeq = new Map<number, RecordedExchange>();
+        let lastAnswered: RecordedExchange;
+
+        for (const { packet } of recording) {
+            switch (packet.Type) {
+                case 'request':
+                    const exchange: RecordedExchange = { request: <protocol.WireProtocol.RequestPacket>packet, response: undefined, events: [], replayed: false };
+                    exchangesBySeq.set(packet.Seq, exchange);
+                    this._exchanges.push(exchange);
+                    break;
+                case 'response':
+                    const response = <protocol.WireProtocol.ResponsePacket>packet;
+                    lastAnswered = exchangesBySeq.get(response.Request_seq) || lastAnswered;
+                    if (lastAnswered) {
+                        lastAnswered.response = response;
+                    }
+                    break;
+                case 'event':
+                    (lastAnswered ? lastAnswered.events : initialEvents).push(<protocol.WireProtocol.EventPacket>packet);
+                    break;
+            }
+        }
+
+        // Give the server a chance to subscribe to the transport before anything is sent.
+        setTimeout(() => this._send(initialEvents), 0);
+    }
+
+    public write(line: string): void {
+        const request = <protocol.WireProtocol.RequestPacket>JSON.parse(line);
+        const exchange = this._findExchange(request);
+
+        let packets: protocol.WireProtocol.Packet[];
+        if (exchange) {
+            exchange.replayed = true;
+            const response: protocol.WireProtocol.ResponsePacket = { ...exchange.response, Request_seq: request.Seq };
+            packets = [response, ...exchange.events];
+        }
+        else {
+            const response: protocol.WireProtocol.ResponsePacket = {
+                Type: 'response',
+                Seq: 0,
+                Command: request.Command,
+                Request_seq: request.Seq,
+                Running: true,
+                Success: false,
+                Message: `The recording does not contain a response for ${request.Command}.`,
+                Body: null
+            };
+            packets = [response];
+        }
+
+        setTimeout(() => this._send(packets), 0);
+    }
+
+    public async stop(): Promise<void> {
+        this._stopped = true;
+    }
+
+    private _findExchange(request: protocol.WireProtocol.RequestPacket): RecordedExchange {
+        const candidates = this._exchanges.filter(exchange => exchange.response && exchange.request.Command === request.Command);
+        const args = JSON.stringify(request.Arguments);
+        const hasSameArguments = (exchange: RecordedExchange) => JSON.stringify(exchange.request.Arguments) === args;
+
+        return candidates.find(exchange => !exchange.replayed && hasSameArguments(exchange))
+            || candidates.find(exchange => !exchange.replayed)
+            || candidates.find(hasSameArguments)
+            || candidates[candidates.length - 1];
+    }
+
+    private _send(packets: protocol.WireProtocol.Packet[]) {
+        if (this._stopped) {
+            return;
+        }
+
+        for (const packet of packets) {
+            this._fireEvent(Events.Line, JSON.stringify(packet));
+        }
+    }
+}
+
+/**
+ * Converts the value of the 'omnisharp.serverAddress' setting into socket connection options.
+ * Supported forms are `host:port`, `tcp://host:port`, a bare port (connects to localhost),
+ * `unix:///path/to/socket`, or any other path for a Unix domain socket or a Windows named pipe.
+ */
+export function parseServerAddress(address: string): net.NetConnectOpts {
+    const value = address.trim();
+
+    if (value.startsWith('unix://')) {
+        return { path: value.substring('unix://'.length) };
+    }
+
+    if (/^\d+$/.test(value)) {
+        return { host: 'localhost', port: parseInt(value) };
+    }
+
+    // IPv6 hosts must be written in brackets, e.g. [::1]:2000
+    const tcpMatch = /^(?:tcp:\/\/)?(?:\[([^\]]+)\]|([^:\/\\]+)):(\d+)$/.exec(value);
+    if (tcpMatch) {
+        return {
+            host: tcpMatch[1] || tcpMatch[2],
+            port: parseInt(tcpMatch[3])
+        };
+    }
+
+    if (value.startsWith('tcp://')) {
+        throw new Error(`Invalid OmniSharp server address '${address}'. Expected 'tcp://host:port'.`);
+    }
+
+    return { path: value };
+}
+
+async function openSocket(options: net.NetConnectOpts): Promise<net.Socket> {
+    return new Promise<net.Socket>((resolve, reject) => {
+        const socket = net.connect(options);
+
+        const onError = (err: Error) => {
+            socket.destroy();
+            reject(err);
+        };
+
+        socket.once('error', onError);
+        socket.once('connect', () => {
+            socket.removeListener('error', onError);
+            resolve(socket);
+        });
+    });
+}
+
+async function delay(ms: number): Promise<void> {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,107 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { EventStream } from '../EventStream';
+import { OmnisharpServerResponsive, OmnisharpServerUnresponsive } from './loggingEvents';
+import { QueueDepth } from './serverPerformance';
+
+export interface ServerHealth {
+    unresponsive: boolean;
+    lastProbeLatency?: number;
+    lastResponseTime?: number;
+    outstandingProbeTime?: number;
+}
+
+/**
+ * Detects an OmniSharp server that is alive but no longer answers requests. A lightweight probe is sent
+ * periodically; the server is considered unresponsive when the probe has been outstanding for longer
+ * than the threshold and no other request was answered in that time either, so that a server that is
+ * merely busy with slow requests is not mistaken for a hung one.
+ */
+export class ServerWatchdog {
+    private _lastProbeTime = 0;
+    private _lastProbeLatency: number;
+    private _probeStartTime: number;
+    private _unresponsiveSince: number;
+
+    constructor(
+        private _target: string,
+        private _probeInterval: number,
+        private _unresponsiveThreshold: number,
+        private _sendProbe: () => Promise<void>,
+        private _getLastResponseTime: () => number,
+        private _getQueueDepths: () => QueueDepth[],
+        private _eventStream: EventStream) {
+    }
+
+    public get isUnresponsive(): boolean {
+        return this._unresponsiveSince !== undefined;
+    }
+
+    public getHealth(now: number = Date.now()): ServerHealth {
+        return {
+            unresponsive: this.isUnresponsive,
+            lastProbeLatency: this._lastProbeLatency,
+            lastResponseTime: this._getLastResponseTime(),
+            outstandingProbeTime: this._probeStartTime !== undefined ? now - this._probeStartTime : undefined
+        };
+    }
+
+    /**
+     * Sends a probe when one is due and updates the health of the server. Called periodically by the server.
+     */
+    public check(now: number = Date.now()) {
+        if (this._probeInterval <= 0) {
+            return;
+        }
+
+        if (this._probeStartTime === undefined) {
+            if (now - this._lastProbeTime >= this._probeInterval) {
+                this._probe(now);
+            }
+
+            return;
+        }
+
+        if (this.isUnresponsive) {
+            return;
+        }
+
+        const probeTime = now - this._probeStartTime;
+        const lastResponseTime = this._getLastResponseTime();
+        const silentTime = lastResponseTime !== undefined ? now - lastResponseTime : probeTime;
+        if (probeTime >= this._unresponsiveThreshold && silentTime >= this._unresponsiveThreshold) {
+            this._unresponsiveSince = now;
+            this._eventStream.post(new OmnisharpServerUnresponsive(this._target, Math.min(probeTime, silentTime), this._getQueueDepths()));
+        }
+    }
+
+    private _probe(now: number) {
+        const startTime = now;
+        this._probeStartTime = startTime;
+        this._lastProbeTime = startTime;
+
+        this._sendProbe().then(() => {
+            if (this._probeStartTime !== startTime) {
+                return;
+            }
+
+            const endTime = Date.now();
+            this._lastProbeLatency = endTime - startTime;
+            this._probeStartTime = undefined;
+
+            if (this.isUnresponsive) {
+                const unresponsiveTime = endTime - this._unresponsiveSince;
+                this._unresponsiveSince = undefined;
+                this._eventStream.post(new OmnisharpServerResponsive(this._target, unresponsiveTime));
+            }
+        }, () => {
+            // A failed probe says nothing about the health of the server, e.g. it is stopping. Probe again later.
+            if (this._probeStartTime === startTime) {
+                this._probeStartTime = undefined;
+            }
+        });
+    }
+}
@@ -0,0 +1,169 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const CSharpProjectTypeGuid = '{9A19103F-16F7-4668-BE54-9A1E7A4F7556}';
+const SolutionFolderTypeGuid = '{2150E333-8FDC-42A3-9474-1A3956D46DE8}';
+
+export interface SolutionProject {
+    name: string;
+
+    /**
+     * The path of the project as written in the solution, relative to the solution's directory.
+     */
+    relativePath: string;
+    path: string;
+}
+
+function toGuid(value: string): string {
+    const hash = crypto.createHash('md5').update(value).digest('hex').toUpperCase();
+    return `{${hash.substr(0, 8)}-${hash.substr(8, 4)}-${hash.substr(12, 4)}-${hash.substr(16, 4)}-${hash.substr(20, 12)}}`;
+}
+
+/**
+ * Returns the text of a solution file containing the given projects, referenced by their absolute paths.
+ */
+export function createSolutionText(projects: string[]): string {
+    const lines = [
+        '',
+        'Microsoft Visual Studio Solution File, Format Version 12.00',
+        '# Visual Studio Version 17',
+    ];
+
+    for (const project of projects) {
+        const name = path.basename(project, path.extname(project));
+        lines.push(`Project("${CSharpProjectTypeGuid}") = "${name}", "${project}", "${toGuid(project)}"`);
+        lines.push('EndProject');
+    }
+
+    lines.push('Global', 'EndGlobal', '');
+    return lines.join('\r\n');
+}
+
+/**
+ * OmniSharp can only be launched with a solution or a folder, so project selections are launched with a
+ * solution that is generated for them. The same selection always maps to the same solution file.
+ *
+ * The solution is written outside of the workspace, so that it neither shows up in the user's source tree nor is
+ * found as a launch target of its own. OmniSharp is rooted at the directory of the projects through its working directory.
+ */
+export async function writeProjectsSolution(projects: string[], directory: string = path.join(os.tmpdir(), 'omnisharp-vscode')): Promise<string> {
+    const sortedProjects = projects.slice().sort();
+    const solutionPath = path.join(directory, `projects-${crypto.createHash('sha256').update(sortedProjects.join('\n')).digest('hex').substr(0, 16)}.sln`);
+
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(solutionPath, createSolutionText(sortedProjects));
+
+    return solutionPath;
+}
+
+function toPlatformPath(value: string): string {
+    return value.replace(/[\\/]/g, path.sep);
+}
+
+/**
+ * Returns the projects of a solution file, leaving out solution folders.
+ */
+export async function readSolutionProjects(solutionPath: string): Promise<SolutionProject[]> {
+    const text = await fs.promises.readFile(solutionPath, 'utf8');
+    const projectLine = /^Project\("([^"]*)"\)\s*=\s*"([^"]*)"\s*,\s*"([^"]*)"/gm;
+    const projects: SolutionProject[] = [];
+
+    let match: RegExpExecArray;
+    while ((match = projectLine.exec(text)) !== null) {
+        const [, typeGuid, name, relativePath] = match;
+        if (typeGuid.toUpperCase() === SolutionFolderTypeGuid || !/\.\w+proj$/i.test(relativePath)) {
+            continue;
+        }
+
+        projects.push({ name, relativePath, path: path.resolve(path.dirname(solutionPath), toPlatformPath(relativePath)) });
+    }
+
+    return projects;
+}
+
+/**
+ * Returns the absolute paths of the projects referenced by a project through `ProjectReference` items.
+ */
+export async function readProjectReferences(projectPath: string): Promise<string[]> {
+    const text = await fs.promises.readFile(projectPath, 'utf8');
+    const projectReference = /<ProjectReference\s+Include\s*=\s*"([^"]+)"/g;
+    const references: string[] = [];
+
+    let match: RegExpExecArray;
+    while ((match = projectReference.exec(text)) !== null) {
+        references.push(path.resolve(path.dirname(projectPath), toPlatformPath(match[1])));
+    }
+
+    return references;
+}
+
+/**
+ * Returns the given projects together with all projects they reference, directly or transitively.
+ * Projects that cannot be read are kept but not followed.
+ */
+export async function addTransitiveReferences(projects: string[]): Promise<string[]> {
+    const result = new Set<string>(projects);
+    const pending = projects.slice();
+
+    while (pending.length > 0) {
+        const project = pending.pop();
+
+        let references: string[];
+        try {
+            references = await readProjectReferences(project);
+        }
+        catch {
+            continue;
+        }
+
+        for (const reference of references) {
+            if (!result.has(reference)) {
+                result.add(reference);
+                pending.push(reference);
+            }
+        }
+    }
+
+    return Array.from(result);
+}
+
+/**
+ * Returns the path of the solution filter that is created for a solution, next to the solution.
+ */
+export function getSolutionFilterPath(solutionPath: string): string {
+    return path.join(path.dirname(solutionPath), `${path.basename(solutionPath, path.extname(solutionPath))}.filtered.slnf`);
+}
+
+/**
+ * Returns the projects of a solution filter, as absolute paths.
+ */
+export async function readSolutionFilterProjects(filterPath: string): Promise<string[]> {
+    const filter = JSON.parse(await fs.promises.readFile(filterPath, 'utf8'));
+    const solutionPath = path.resolve(path.dirname(filterPath), toPlatformPath(filter.solution.path));
+    return (<string[]>filter.solution.projects).map(project => path.resolve(path.dirname(solutionPath), toPlatformPath(project)));
+}
+
+/**
+ * Writes a solution filter that loads the given projects of a solution. Projects that are not part of the
+ * solution cannot be loaded through a filter and are left out.
+ */
+export async function writeSolutionFilter(filterPath: string, solutionPath: string, solutionProjects: SolutionProject[], projects: string[]): Promise<void> {
+    const included = new Set<string>(projects);
+    const filter = {
+        solution: {
+            path: path.relative(path.dirname(filterPath), solutionPath).replace(/\//g, '\\'),
+            projects: solutionProjects
+                .filter(project => included.has(project.path))
+                .map(project => project.relativePath)
+        }
+    };
+
+    await fs.promises.writeFile(filterPath, JSON.stringify(filter, null, 2));
+}
@@ -0,0 +1,261 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface LineCoverage {
+    /**
+     * Zero-based line. Cobertura reports one-based lines.
+     */
+    line: number;
+    hits: number;
+}
+
+export interface FileCoverage {
+    fileName: string;
+
+    /**
+     * The name of the assembly the file was compiled into.
+     */
+    projectName: string;
+    lines: LineCoverage[];
+}
+
+export interface CoverageSummary {
+    coveredLines: number;
+    totalLines: number;
+}
+
+export interface FileCoverageSummary extends CoverageSummary {
+    fileName: string;
+}
+
+export interface ProjectCoverageSummary extends CoverageSummary {
+    projectName: string;
+    files: FileCoverageSummary[];
+}
+
+// The name the coverlet data collector is enabled by. The test project needs to reference coverlet.collector.
+export const CoverageDataCollectorName = 'XPlat Code Coverage';
+
+// The name of the report the coverlet data collector writes to a folder of the results directory.
+export const CoberturaReportFileName = 'coverage.cobertura.xml';
+
+const emptyRunSettings = '<?xml version="1.0" encoding="utf-8"?>\n<RunSettings>\n</RunSettings>\n';
+
+/**
+ * Returns RunSettings that enable the coverage data collector and write the results to the given directory.
+ * The RunSettings the user configured, if any, are extended rather than replaced.
+ */
+export function createCoverageRunSettings(runSettingsText: string | undefined, resultsDirectory: string): string {
+    let text = runSettingsText && /<\/RunSettings\s*>/i.test(runSettingsText) ? runSettingsText : emptyRunSettings;
+
+    const resultsDirectoryElement = `<ResultsDirectory>${escapeXml(resultsDirectory)}</ResultsDirectory>`;
+    const existingResultsDirectory = /<ResultsDirectory\s*>[\s\S]*?<\/ResultsDirectory\s*>/i;
+    text = existingResultsDirectory.test(text)
+        ? text.replace(existingResultsDirectory, () => resultsDirectoryElement)
+        : addElement(text, ['RunSettings', 'RunConfiguration'], resultsDirectoryElement);
+
+    if (!new RegExp(`friendlyName\\s*=\\s*"${CoverageDataCollectorName}"`, 'i').test(text)) {
+        text = addElement(text, ['RunSettings', 'DataCollectionRunSettings', 'DataCollectors'],
+            `<DataCollector friendlyName="${CoverageDataCollectorName}"><Configuration><Format>cobertura</Format></Configuration></DataCollector>`);
+    }
+
+    return text;
+}
+
+/**
+ * Adds an element to the innermost of the given elements, creating those that are missing.
+ */
+function addElement(text: string, parents: string[], element: string): string {
+    for (let i = parents.length - 1; i >= 0; i--) {
+        const closingTag = new RegExp(`</${parents[i]}\\s*>`, 'i');
+        if (closingTag.test(text)) {
+            const wrapped = parents.slice(i + 1).reduceRight((inner, name) => `<${name}>${inner}</${name}>`, element);
+            return text.replace(closingTag, match => `${wrapped}\n${match}`);
+        }
+    }
+
+    return text;
+}
+
+/**
+ * Returns the line coverage of each file in a Cobertura report. The file names of the report are relative to its
+ * first source folder, unless they are absolute. A file that contributes to several classes is reported once.
+ */
+export function parseCoberturaReport(xml: string): FileCoverage[] {
+    const sources: string[] = [];
+    const sourcePattern = /<source>([^<]*)<\/source>/g;
+    let sourceMatch: RegExpExecArray;
+    while ((sourceMatch = sourcePattern.exec(xml))) {
+        sources.push(unescapeXml(sourceMatch[1].trim()));
+    }
+
+    const files = new Map<string, { projectName: string, hits: Map<number, number> }>();
+    const packagePattern = /<package\b([^>]*)>([\s\S]*?)<\/package>/g;
+    let packageMatch: RegExpExecArray;
+    while ((packageMatch = packagePattern.exec(xml))) {
+        const projectName = getAttribute(packageMatch[1], 'name') || '';
+
+        const classPattern = /<class\b([^>]*?)(?:\/>|>([\s\S]*?)<\/class>)/g;
+        let classMatch: RegExpExecArray;
+        while ((classMatch = classPattern.exec(packageMatch[2]))) {
+            const fileName = getAttribute(classMatch[1], 'filename');
+            if (!fileName) {
+                continue;
+            }
+
+            const fullPath = path.isAbsolute(fileName) || sources.length === 0 ? fileName : path.join(sources[0], fileName);
+            if (!files.has(fullPath)) {
+                files.set(fullPath, { projectName, hits: new Map<number, number>() });
+            }
+
+            // The lines of the methods repeat the lines of the class.
+            const hits = files.get(fullPath).hits;
+            const classLines = (classMatch[2] || '').replace(/<methods>[\s\S]*?<\/methods>/g, '');
+            const linePattern = /<line\b([^>]*)>/g;
+            let lineMatch: RegExpExecArray;
+            while ((lineMatch = linePattern.exec(classLines))) {
+                const number = parseInt(getAttribute(lineMatch[1], 'number'));
+                const lineHits = parseInt(getAttribute(lineMatch[1], 'hits'));
+                if (number > 0 && !isNaN(lineHits)) {
+                    hits.set(number - 1, (hits.get(number - 1) || 0) + lineHits);
+                }
+            }
+        }
+    }
+
+    return Array.from(files.entries()).map(([fileName, file]) => ({
+        fileName,
+        projectName: file.projectName,
+        lines: Array.from(file.hits.entries()).map(([line, hits]) => ({ line, hits })).sort((a, b) => a.line - b.line)
+    }));
+}
+
+/**
+ * Returns the Cobertura reports the coverage data collector wrote to a results directory.
+ */
+export async function findCoberturaReports(directory: string): Promise<string[]> {
+    const reports: string[] = [];
+    let entries: string[];
+    try {
+        entries = await fs.promises.readdir(directory);
+    }
+    catch {
+        return reports;
+    }
+
+    for (const entry of entries) {
+        const entryPath = path.join(directory, entry);
+        if ((await fs.promises.stat(entryPath)).isDirectory()) {
+            reports.push(...await findCoberturaReports(entryPath));
+        }
+        else if (entry === CoberturaReportFileName) {
+            reports.push(entryPath);
+        }
+    }
+
+    return reports;
+}
+
+export function summarizeLineCoverage(lines: LineCoverage[]): CoverageSummary {
+    return {
+        coveredLines: lines.filter(line => line.hits > 0).length,
+        totalLines: lines.length
+    };
+}
+
+/**
+ * Returns the share of covered lines, e.g. "85.7% (6/7 lines)".
+ */
+export function formatCoverageSummary(summary: CoverageSummary): string {
+    const percentage = summary.totalLines > 0 ? Math.floor(summary.coveredLines * 1000 / summary.totalLines) / 10 : 100;
+    return `${percentage}% (${summary.coveredLines}/${summary.totalLines} lines)`;
+}
+
+/**
+ * Returns the coverage of a file with the hits of both reports added up.
+ */
+function mergeFileCoverage(coverage: FileCoverage, other: FileCoverage): FileCoverage {
+    const hits = new Map<number, number>();
+    for (const line of [...coverage.lines, ...other.lines]) {
+        hits.set(line.line, (hits.get(line.line) || 0) + line.hits);
+    }
+
+    return {
+        fileName: coverage.fileName,
+        projectName: coverage.projectName,
+        lines: Array.from(hits.entries()).map(([line, lineHits]) => ({ line, hits: lineHits })).sort((a, b) => a.line - b.line)
+    };
+}
+
+/**
+ * Keeps the latest coverage of each file. The coverage of a file is forgotten when it changes, as its lines no
+ * longer match the lines that were covered.
+ */
+export class CoverageStore {
+    private _files = new Map<string, { coverage: FileCoverage, runId: number }>();
+
+    /**
+     * Adds the coverage of a report. A run writes a report per test class, so the reports of the same run are merged,
+     * while the first report of a new run replaces the coverage of the files it names.
+     */
+    public update(files: FileCoverage[], runId: number) {
+        for (const file of files) {
+            const known = this._files.get(file.fileName);
+            const coverage = known && known.runId === runId ? mergeFileCoverage(known.coverage, file) : file;
+            this._files.set(file.fileName, { coverage, runId });
+        }
+    }
+
+    /**
+     * Forgets the coverage of a file. Returns whether coverage of the file was known.
+     */
+    public invalidate(fileName: string): boolean {
+        return this._files.delete(fileName);
+    }
+
+    public clear() {
+        this._files.clear();
+    }
+
+    public getFile(fileName: string): FileCoverage | undefined {
+        const known = this._files.get(fileName);
+        return known && known.coverage;
+    }
+
+    public getSummary(): ProjectCoverageSummary[] {
+        const projects = new Map<string, ProjectCoverageSummary>();
+        for (const { coverage: file } of this._files.values()) {
+            if (!projects.has(file.projectName)) {
+                projects.set(file.projectName, { projectName: file.projectName, coveredLines: 0, totalLines: 0, files: [] });
+            }
+
+            const project = projects.get(file.projectName);
+            const summary = summarizeLineCoverage(file.lines);
+            project.files.push({ fileName: file.fileName, ...summary });
+            project.coveredLines += summary.coveredLines;
+            project.totalLines += summary.totalLines;
+        }
+
+        const result = Array.from(projects.values()).sort((a, b) => a.projectName.localeCompare(b.projectName));
+        result.forEach(project => project.files.sort((a, b) => a.fileName.localeCompare(b.fileName)));
+        return result;
+    }
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`).exec(attributes);
+    return match ? unescapeXml(match[1]) : undefined;
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+    return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
@@ -0,0 +1,98 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from './protocol';
+
+export interface StackFrame {
+    method: string;
+    fileName: string;
+
+    /**
+     * Zero-based line of the frame.
+     */
+    line: number;
+}
+
+export interface TestFailure {
+    testName: string;
+    errorMessage: string;
+
+    /**
+     * The frames of the stack trace that name a source file, the failing line first.
+     */
+    frames: StackFrame[];
+}
+
+// A frame of a .NET stack trace, e.g.
+//   at Contoso.MathTests.Adds() in /work/Tests/MathTests.cs:line 12
+//   at Contoso.MathTests.Adds () [0x00001] in /work/Tests/MathTests.cs:12
+const stackFrameLine = /^\s*at\s+(.+?)\s+in\s+(.+):(?:line\s+)?(\d+)\s*$/;
+
+/**
+ * Returns the frames of a stack trace that name a source file. Frames of assemblies built without symbols,
+ * such as those of the assertion library, name no file and are left out.
+ */
+export function parseStackTrace(stackTrace: string): StackFrame[] {
+    const frames: StackFrame[] = [];
+    for (const line of (stackTrace || '').split(/\r?\n/)) {
+        const match = stackFrameLine.exec(line);
+        if (match) {
+            frames.push({
+                method: match[1].replace(/\s*\[0x[0-9a-f]+\]$/i, ''),
+                fileName: match[2],
+                line: Math.max(parseInt(match[3]) - 1, 0)
+            });
+        }
+    }
+
+    return frames;
+}
+
+/**
+ * Keeps the failures of the tests that failed in their latest run, to show them where they happened.
+ */
+export class TestFailureTracker {
+    private _failures = new Map<string, TestFailure>();
+
+    /**
+     * Records the failures of a test run. The failure of a test that did not fail this time is forgotten.
+     */
+    public update(results: protocol.V2.DotNetTestResult[]) {
+        for (const result of results) {
+            const frames = parseStackTrace(result.ErrorStackTrace);
+            if (result.Outcome === protocol.V2.TestOutcomes.Failed && frames.length > 0) {
+                this._failures.set(result.MethodName, {
+                    testName: result.MethodName,
+                    errorMessage: result.ErrorMessage || 'The test failed.',
+                    frames
+                });
+            }
+            else {
+                this._failures.delete(result.MethodName);
+            }
+        }
+    }
+
+    public clear() {
+        this._failures.clear();
+    }
+
+    /**
+     * Returns the failures grouped by the file of their failing line.
+     */
+    public getFailuresByFile(): Map<string, TestFailure[]> {
+        const files = new Map<string, TestFailure[]>();
+        for (const failure of this._failures.values()) {
+            const fileName = failure.frames[0].fileName;
+            if (!files.has(fileName)) {
+                files.set(fileName, []);
+            }
+
+            files.get(fileName).push(failure);
+        }
+
+        return files;
+    }
+}
@@ -0,0 +1,193 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from './protocol';
+
+/**
+ * The part of the workspace state the history is persisted in.
+ */
+export interface TestHistoryState {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: any): Thenable<void>;
+}
+
+export interface TestResultRecord {
+    outcome: string;
+
+    /**
+     * The time the test took in milliseconds. OmniSharp only reports the time of a whole run, so it is only known
+     * for runs of a single test.
+     */
+    duration?: number;
+    errorMessage?: string;
+    timestamp: number;
+    runId: number;
+
+    /**
+     * Identifies the state of the code the test ran against. It changes whenever a C# file is saved.
+     */
+    codeVersion: number;
+}
+
+export interface TestRun {
+    results: protocol.V2.DotNetTestResult[];
+
+    /**
+     * A file of the project the tests were run in, by which they can be run again.
+     */
+    fileName?: string;
+    testFrameworkName?: string;
+    duration?: number;
+    timestamp: number;
+
+    /**
+     * Identifies the run the results belong to, when a run is made of several requests. The results of a run are
+     * recorded as one run however many requests they were reported by.
+     */
+    runId?: number;
+}
+
+export interface RecordedTest {
+    testName: string;
+    fileName?: string;
+    testFrameworkName?: string;
+
+    /**
+     * The results of the test, the latest first.
+     */
+    records: TestResultRecord[];
+}
+
+interface StoredHistory {
+    codeVersion: number;
+    lastRunId: number;
+    tests: { [testName: string]: RecordedTest };
+}
+
+/**
+ * Keeps the results of the latest runs of each test in the workspace state, to show how a test behaved over time
+ * and to find tests whose outcome changes without the code changing.
+ */
+export default class TestResultHistory {
+    public static readonly StateKey = 'testResultHistory';
+    public static readonly MaxRecordsPerTest = 20;
+
+    // The ids of the runs recorded in this session, by the id of the run that reported them.
+    private _recordedRunIds = new Map<number, number>();
+
+    constructor(private _state: TestHistoryState) {
+    }
+
+    public async record(run: TestRun): Promise<void> {
+        const history = this._getHistory();
+        const recordedRunId = run.runId !== undefined ? this._recordedRunIds.get(run.runId) : undefined;
+        const runId = recordedRunId !== undefined ? recordedRunId : history.lastRunId + 1;
+        if (run.runId !== undefined) {
+            this._recordedRunIds.set(run.runId, runId);
+        }
+
+        const duration = run.results.length === 1 ? run.duration : undefined;
+
+        // The stored history is replaced rather than changed, as the state hands out the stored object.
+        const tests = { ...history.tests };
+        for (const result of run.results) {
+            const test: RecordedTest = { testName: result.MethodName, records: [], ...tests[result.MethodName] };
+            test.fileName = run.fileName || test.fileName;
+            test.testFrameworkName = run.testFrameworkName || test.testFrameworkName;
+            test.records = [{
+                outcome: result.Outcome,
+                duration,
+                errorMessage: result.ErrorMessage || undefined,
+                timestamp: run.timestamp,
+                runId,
+                codeVersion: history.codeVersion
+            }, ...test.records].slice(0, TestResultHistory.MaxRecordsPerTest);
+
+            tests[result.MethodName] = test;
+        }
+
+        await this._state.update(TestResultHistory.StateKey, { ...history, lastRunId: Math.max(history.lastRunId, runId), tests });
+    }
+
+    /**
+     * Tells that the code changed, so results recorded from now on are not compared with earlier ones.
+     */
+    public async markCodeChanged(): Promise<void> {
+        const history = this._getHistory();
+        await this._state.update(TestResultHistory.StateKey, { ...history, codeVersion: history.codeVersion + 1 });
+    }
+
+    public async clear(): Promise<void> {
+        this._recordedRunIds.clear();
+        await this._state.update(TestResultHistory.StateKey, undefined);
+    }
+
+    public getTests(): RecordedTest[] {
+        const tests = this._getHistory().tests;
+        return Object.keys(tests).sort().map(testName => tests[testName]);
+    }
+
+    public getTest(testName: string): RecordedTest | undefined {
+        return this._getHistory().tests[testName];
+    }
+
+    /**
+     * Returns whether a test both passed and failed against the same code.
+     */
+    public isFlaky(testName: string): boolean {
+        const test = this.getTest(testName);
+        if (!test) {
+            return false;
+        }
+
+        const outcomes = new Map<number, Set<string>>();
+        for (const record of test.records) {
+            if (!outcomes.has(record.codeVersion)) {
+                outcomes.set(record.codeVersion, new Set<string>());
+            }
+
+            outcomes.get(record.codeVersion).add(record.outcome);
+        }
+
+        return Array.from(outcomes.values()).some(versionOutcomes =>
+            versionOutcomes.has(protocol.V2.TestOutcomes.Passed) && versionOutcomes.has(protocol.V2.TestOutcomes.Failed));
+    }
+
+    public getFlakyTests(): RecordedTest[] {
+        return this.getTests().filter(test => this.isFlaky(test.testName));
+    }
+
+    /**
+     * Returns the tests that failed in the latest run.
+     */
+    public getFailedTestsOfLastRun(): RecordedTest[] {
+        const lastRunId = this._getHistory().lastRunId;
+        return this.getTests().filter(test =>
+            test.records.length > 0 && test.records[0].runId === lastRunId && test.records[0].outcome === protocol.V2.TestOutcomes.Failed);
+    }
+
+    private _getHistory(): StoredHistory {
+        return this._state.get<StoredHistory>(TestResultHistory.StateKey) || { codeVersion: 0, lastRunId: 0, tests: {} };
+    }
+}
+
+/**
+ * Returns the history of a test as a Markdown document.
+ */
+export function formatTestHistory(test: RecordedTest, flaky: boolean): string {
+    const lines = [`# ${test.testName}`, ''];
+    if (flaky) {
+        lines.push('**This test may be flaky:** it both passed and failed against the same code.', '');
+    }
+
+    lines.push('| Time | Outcome | Duration | Error |', '| --- | --- | --- | --- |');
+    for (const record of test.records) {
+        const duration = record.duration !== undefined ? `${record.duration} ms` : '';
+        const error = (record.errorMessage || '').replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+        lines.push(`| ${new Date(record.timestamp).toISOString()} | ${record.outcome} | ${duration} | ${error} |`);
+    }
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,176 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as protocol from './protocol';
+
+export type TestNodeKind = 'project' | 'namespace' | 'class' | 'method';
+
+export interface TestNode {
+    id: string;
+    kind: TestNodeKind;
+    label: string;
+
+    /**
+     * The name OmniSharp runs the test, or the tests of the class, by.
+     */
+    fullyQualifiedName?: string;
+    fileName?: string;
+
+    /**
+     * Zero-based line of the test method.
+     */
+    line?: number;
+    children: TestNode[];
+}
+
+export interface TestName {
+    namespaceName: string;
+    className: string;
+    methodName: string;
+}
+
+export interface TestResultSummary {
+    outcome: 'passed' | 'failed' | 'skipped' | 'unknown';
+    errorMessage?: string;
+    errorStackTrace?: string;
+    output: string[];
+}
+
+// The name of the test framework OmniSharp expects for the package a test project references.
+const testFrameworkPackages: [RegExp, string][] = [
+    [/<PackageReference\s+Include\s*=\s*"xunit(\.core)?"/i, 'xunit'],
+    [/<PackageReference\s+Include\s*=\s*"NUnit"/i, 'nunit'],
+    [/<PackageReference\s+Include\s*=\s*"MSTest\.TestFramework"/i, 'mstest']
+];
+
+/**
+ * Returns the test framework a project references, or undefined when it is not a test project.
+ */
+export function detectTestFramework(projectText: string): string | undefined {
+    const match = testFrameworkPackages.find(([packageReference]) => packageReference.test(projectText));
+    return match && match[1];
+}
+
+/**
+ * Splits the fully qualified name of a test method. The arguments of a parameterized test may contain dots,
+ * so they are left out before the name is split.
+ */
+export function splitTestName(fullyQualifiedName: string): TestName {
+    const argumentsStart = fullyQualifiedName.indexOf('(');
+    const name = argumentsStart === -1 ? fullyQualifiedName : fullyQualifiedName.substring(0, argumentsStart);
+    const parts = name.split('.');
+
+    return {
+        methodName: parts.pop(),
+        className: parts.pop() || '',
+        namespaceName: parts.join('.')
+    };
+}
+
+/**
+ * Returns the tests of a project grouped into namespaces and classes. A parameterized test is discovered once for
+ * each set of arguments, but is run by its method, so the method appears only once.
+ */
+export function createProjectTestNodes(projectPath: string, tests: protocol.V2.TestInfo[]): TestNode[] {
+    const namespaces = new Map<string, TestNode>();
+    const classes = new Map<string, TestNode>();
+    const methods = new Set<string>();
+
+    for (const test of tests) {
+        const { namespaceName, className, methodName } = splitTestName(test.FullyQualifiedName);
+        const methodFullName = [namespaceName, className, methodName].filter(part => part.length > 0).join('.');
+        if (methods.has(methodFullName)) {
+            continue;
+        }
+
+        methods.add(methodFullName);
+
+        if (!namespaces.has(namespaceName)) {
+            namespaces.set(namespaceName, {
+                id: `${projectPath}|${namespaceName}`,
+                kind: 'namespace',
+                label: namespaceName || '<global namespace>',
+                children: []
+            });
+        }
+
+        const classFullName = namespaceName ? `${namespaceName}.${className}` : className;
+        if (!classes.has(classFullName)) {
+            const classNode: TestNode = {
+                id: `${projectPath}|${classFullName}`,
+                kind: 'class',
+                label: className,
+                fullyQualifiedName: classFullName,
+                fileName: test.CodeFilePath || undefined,
+                children: []
+            };
+
+            classes.set(classFullName, classNode);
+            namespaces.get(namespaceName).children.push(classNode);
+        }
+
+        classes.get(classFullName).children.push({
+            id: `${projectPath}|${methodFullName}`,
+            kind: 'method',
+            label: methodName,
+            fullyQualifiedName: methodFullName,
+            fileName: test.CodeFilePath || undefined,
+            line: test.LineNumber > 0 ? test.LineNumber - 1 : undefined,
+            children: []
+        });
+    }
+
+    return Array.from(namespaces.values());
+}
+
+/**
+ * Combines the results of each test method. A parameterized test reports a result for each set of arguments
+ * and fails when any of them fails.
+ */
+export function summarizeTestResults(results: protocol.V2.DotNetTestResult[]): Map<string, TestResultSummary> {
+    const summaries = new Map<string, TestResultSummary>();
+
+    for (const result of results) {
+        const { namespaceName, className, methodName } = splitTestName(result.MethodName);
+        const methodFullName = [namespaceName, className, methodName].filter(part => part.length > 0).join('.');
+        const outcome = toOutcome(result.Outcome);
+
+        const summary = summaries.get(methodFullName);
+        if (!summary) {
+            summaries.set(methodFullName, {
+                outcome,
+                errorMessage: result.ErrorMessage || undefined,
+                errorStackTrace: result.ErrorStackTrace || undefined,
+                output: [...(result.StandardOutput || []), ...(result.StandardError || [])]
+            });
+            continue;
+        }
+
+        summary.output.push(...(result.StandardOutput || []), ...(result.StandardError || []));
+        if (outcomePrecedence.indexOf(outcome) < outcomePrecedence.indexOf(summary.outcome)) {
+            summary.outcome = outcome;
+            summary.errorMessage = result.ErrorMessage || undefined;
+            summary.errorStackTrace = result.ErrorStackTrace || undefined;
+        }
+    }
+
+    return summaries;
+}
+
+// The outcome of a parameterized test is the first of the outcomes of its cases in this order.
+const outcomePrecedence: TestResultSummary['outcome'][] = ['failed', 'unknown', 'passed', 'skipped'];
+
+function toOutcome(outcome: string): TestResultSummary['outcome'] {
+    switch (outcome) {
+        case protocol.V2.TestOutcomes.Passed:
+            return 'passed';
+        case protocol.V2.TestOutcomes.Failed:
+            return 'failed';
+        case protocol.V2.TestOutcomes.Skipped:
+            return 'skipped';
+        default:
+            return 'unknown';
+    }
+}
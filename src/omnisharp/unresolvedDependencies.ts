@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as protocol from './protocol';
+
+export interface ProjectUnresolvedDependencies {
+    projectPath: string;
+    dependencies: protocol.PackageDependency[];
+}
+
+export interface PackageReferenceLocation {
+    line: number;
+    startCharacter: number;
+    endCharacter: number;
+}
+
+/**
+ * Collects the packages OmniSharp could not resolve, per project file.
+ */
+export class UnresolvedDependencyTracker {
+    private _projects = new Map<string, protocol.PackageDependency[]>();
+
+    public update(message: protocol.UnresolvedDependenciesMessage) {
+        if (message.UnresolvedDependencies && message.UnresolvedDependencies.length > 0) {
+            this._projects.set(message.FileName, message.UnresolvedDependencies);
+        }
+        else {
+            this._projects.delete(message.FileName);
+        }
+    }
+
+    /**
+     * Forgets the unresolved dependencies of a project, or of all projects within a folder, e.g. after it was restored.
+     * Returns the projects that were forgotten.
+     */
+    public clear(projectOrFolderPath?: string): string[] {
+        const cleared = this.getProjects().map(project => project.projectPath).filter(projectPath =>
+            projectOrFolderPath === undefined || isSameOrWithin(projectPath, projectOrFolderPath));
+
+        for (const projectPath of cleared) {
+            this._projects.delete(projectPath);
+        }
+
+        return cleared;
+    }
+
+    public getProjects(): ProjectUnresolvedDependencies[] {
+        return Array.from(this._projects.entries()).map(([projectPath, dependencies]) => ({ projectPath, dependencies }));
+    }
+}
+
+function isSameOrWithin(filePath: string, projectOrFolderPath: string): boolean {
+    const relativePath = path.relative(projectOrFolderPath, filePath);
+    return relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+}
+
+export function formatPackageDependency(dependency: protocol.PackageDependency): string {
+    return dependency.Version ? `${dependency.Name} ${dependency.Version}` : dependency.Name;
+}
+
+/**
+ * Returns the location of the `PackageReference` item of a package in the text of a project file, if it has one.
+ * Transitive dependencies have no item of their own.
+ */
+export function findPackageReference(projectText: string, packageName: string): PackageReferenceLocation | undefined {
+    const escapedName = packageName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const packageReference = new RegExp(`<PackageReference\\s+(?:Include|Update)\\s*=\\s*"${escapedName}"`, 'i');
+
+    const lines = projectText.split(/\r?\n/);
+    for (let line = 0; line < lines.length; line++) {
+        const match = packageReference.exec(lines[line]);
+        if (match) {
+            return { line, startCharacter: match.index, endCharacter: match.index + match[0].length };
+        }
+    }
+
+    return undefined;
+}
@@ -133,6 +133,10 @@ export async function updateBuffer(server: OmniSharpServer, request: protocol.Up
     return server.makeRequest<boolean>(protocol.Requests.UpdateBuffer, request);
 }
 
+export async function changeBuffer(server: OmniSharpServer, request: protocol.ChangeBufferRequest) {
+    return server.makeRequest<void>(protocol.Requests.ChangeBuffer, request);
+}
+
 export async function getMetadata(server: OmniSharpServer, request: protocol.MetadataRequest) {
     return server.makeRequest<protocol.MetadataResponse>(protocol.Requests.Metadata, request);
 }
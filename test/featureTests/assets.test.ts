@@ -134,6 +134,31 @@ suite("Asset generation: csproj", () => {
         });
     });
 
+    test("Create launch.json for project built with the properties of an MSBuild profile", () => {
+        let rootPath = path.resolve('testRoot');
+        let info = createMSBuildWorkspaceInformation(path.join(rootPath, 'testApp.csproj'), 'testApp', 'netcoreapp1.0');
+        let generator = new AssetGenerator(info, createMockWorkspaceFolder(rootPath), undefined, { Configuration: 'Release', Platform: 'x64' });
+        generator.setStartupProject(0);
+        let launchJson = parse(generator.createLaunchJsonConfigurations(ProgramLaunchType.Console), undefined, { disallowComments: true });
+        let programPath = launchJson[0].program;
+
+        // ${workspaceFolder}/bin/x64/Release/netcoreapp1.0/testApp.dll
+        let segments = programPath.split(path.posix.sep);
+        segments.should.deep.equal(['${workspaceFolder}', 'bin', 'x64', 'Release', 'netcoreapp1.0', 'testApp.dll']);
+    });
+
+    test("Generated 'build' and 'publish' tasks pass the properties of an MSBuild profile", () => {
+        let rootPath = path.resolve('testRoot');
+        let info = createMSBuildWorkspaceInformation(path.join(rootPath, 'testApp.csproj'), 'testApp', 'netcoreapp1.0');
+        let generator = new AssetGenerator(info, createMockWorkspaceFolder(rootPath), undefined, { Configuration: 'Release', DefineConstants: 'TRACE;FEATURE_X' });
+        generator.setStartupProject(0);
+        let tasksJson = generator.createTasksConfiguration();
+
+        tasksJson.tasks
+            .filter(task => task.label !== "watch")
+            .forEach(task => task.args.should.include.members(["/property:Configuration=Release", "/property:DefineConstants=TRACE%3BFEATURE_X"]));
+    });
+
     test("Create launch.json for nested project opened in workspace", () => {
         let rootPath = path.resolve('testRoot');
         let info = createMSBuildWorkspaceInformation(path.join(rootPath, 'nested', 'testApp.csproj'), 'testApp', 'netcoreapp1.0');
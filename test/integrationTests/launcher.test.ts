@@ -53,4 +53,18 @@ suite(`launcher:`, () => {
         const projectTarget = launchTargets.find(target => target.workspaceKind === LaunchTargetKind.Project && target.label === "test.csproj");
         assert.exists(projectTarget, "Launch targets did not include `/test/test.csproj`");
     });
+
+    test(`Project targets point to the project file`, () => {
+        const testResources: vscode.Uri[] = [
+            vscode.Uri.parse(`/test/first.csproj`),
+            vscode.Uri.parse(`/test/second.csproj`),
+        ];
+        const folderMap = new Map<number, vscode.Uri[]>([[0, testResources]]);
+
+        const launchTargets = resourcesAndFolderMapToLaunchTargets(testResources, workspaceFolders, folderMap);
+
+        const projectTarget = launchTargets.find(target => target.workspaceKind === LaunchTargetKind.Project && target.label === "second.csproj");
+        assert.equal(projectTarget.target, vscode.Uri.parse(`/test/second.csproj`).fsPath);
+        assert.deepEqual(projectTarget.projects, [projectTarget.target]);
+    });
 });
@@ -54,5 +54,24 @@ export function getEmptyOptions(): Options {
         /* dotnetPath */"",
         /* excludePaths */null,
         /* maxProjectFileCountForDiagnosticAnalysis */null,
-        /* testRunSettings */"");
+        /* testRunSettings */"",
+        /* serverAddress */undefined,
+        /* serverReconnectAttempts */0,
+        /* serverRestartAttempts */0,
+        /* requestTimeouts */{},
+        /* protocolRecordingPath */undefined,
+        /* protocolReplayPath */undefined,
+        /* serverPerWorkspaceFolder */false,
+        /* requestQueueConcurrency */{ priority: 1, normal: 8, deferred: 2 },
+        /* requestPriorities */{},
+        /* deferredRequestAgingThreshold */0,
+        /* prioritizeActiveDocument */false,
+        /* watchdogProbeInterval */0,
+        /* watchdogUnresponsiveThreshold */0,
+        /* msbuildProfiles */{},
+        /* msbuildProfile */'',
+        /* continueLoadingAfterTimeout */false,
+        /* continuousTesting */false,
+        /* continuousTestingDelay */0,
+        /* continuousTestingUseFindUsages */false);
 }
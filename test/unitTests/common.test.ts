@@ -5,7 +5,7 @@
 
 import * as path from 'path';
 
-import { buildPromiseChain, isSubfolderOf, safeLength, sum } from '../../src/common';
+import { buildPromiseChain, isSubfolderOf, mapWithConcurrency, safeLength, sum } from '../../src/common';
 
 import { should, expect } from 'chai';
 
@@ -28,6 +28,30 @@ suite("Common", () => {
         });
     });
 
+    suite("mapWithConcurrency", () => {
+        test("runs at most the given number of selectors at a time", async () => {
+            let running = 0;
+            let maxRunning = 0;
+
+            const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await new Promise<void>(resolve => setTimeout(resolve, 5 * (6 - item)));
+                running--;
+                return item * 10;
+            });
+
+            results.should.deep.equal([10, 20, 30, 40, 50]);
+            maxRunning.should.equal(2);
+        });
+
+        test("returns no results for an empty array", async () => {
+            const results = await mapWithConcurrency([], 4, async item => item);
+
+            results.should.deep.equal([]);
+        });
+    });
+
     suite("safeLength", () => {
         test("return 0 for empty array", () => {
             let array: any[] = [];
@@ -0,0 +1,67 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect, should } from 'chai';
+import { StatusBarItem } from '../../../src/vscodeAdapter';
+import { ContinuousTestingDisabled, ContinuousTestRunCancelled, ContinuousTestRunCompleted, ContinuousTestRunFailed, ContinuousTestRunStart } from '../../../src/omnisharp/loggingEvents';
+import { ContinuousTestingStatusBarObserver } from '../../../src/observers/ContinuousTestingStatusBarObserver';
+import { StatusBarColors } from '../../../src/observers/OmnisharpStatusBarObserver';
+
+suite('ContinuousTestingStatusBarObserver', () => {
+    suiteSetup(() => should());
+
+    let showCalled: boolean;
+    let hideCalled: boolean;
+    let statusBarItem = <StatusBarItem>{
+        show: () => { showCalled = true; },
+        hide: () => { hideCalled = true; }
+    };
+    let observer = new ContinuousTestingStatusBarObserver(statusBarItem);
+
+    setup(() => {
+        showCalled = false;
+        hideCalled = false;
+    });
+
+    test('ContinuousTestRunStart: Show running message that cancels the run', () => {
+        observer.post(new ContinuousTestRunStart(['/work/Lib/Calculator.cs']));
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.contain('Testing');
+        expect(statusBarItem.command).to.equal('dotnet.test.cancelContinuousTestRun');
+        expect(statusBarItem.tooltip).to.contain('Calculator.cs');
+    });
+
+    test('ContinuousTestRunCompleted: Show pass and fail counts', () => {
+        observer.post(new ContinuousTestRunCompleted({ passed: 12, failed: 0, skipped: 1 }));
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.equal('$(pass) 12 $(error) 0');
+        expect(statusBarItem.color).to.be.undefined;
+    });
+
+    test('ContinuousTestRunCompleted: Show failures in red', () => {
+        observer.post(new ContinuousTestRunCompleted({ passed: 11, failed: 2, skipped: 0 }));
+        expect(statusBarItem.text).to.equal('$(pass) 11 $(error) 2');
+        expect(statusBarItem.color).to.equal(StatusBarColors.Red);
+    });
+
+    test('ContinuousTestRunCancelled: Show cancelled message', () => {
+        observer.post(new ContinuousTestRunCancelled());
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.contain('cancelled');
+    });
+
+    test('ContinuousTestRunFailed: Show the failure', () => {
+        observer.post(new ContinuousTestRunFailed('Could not run the tests impacted by Calculator.cs: server stopped'));
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.contain('failed');
+        expect(statusBarItem.tooltip).to.contain('server stopped');
+    });
+
+    test('ContinuousTestingDisabled: Hide the status bar item', () => {
+        observer.post(new ContinuousTestingDisabled());
+        expect(hideCalled).to.be.true;
+        expect(statusBarItem.text).to.be.undefined;
+    });
+});
@@ -5,7 +5,7 @@
 
 import * as chai from 'chai';
 import { getNullChannel } from '../testAssets/Fakes';
-import { EventWithMessage, DotNetTestDebugWarning, DotNetTestDebugStart, BaseEvent, DotNetTestRunStart, DotNetTestDebugProcessStart, DotNetTestMessage, DotNetTestDebugComplete, ReportDotNetTestResults, DotNetTestsInClassDebugStart, DotNetTestsInClassRunStart, DotNetTestRunInContextStart, DotNetTestDebugInContextStart } from '../../../src/omnisharp/loggingEvents';
+import { EventWithMessage, ContinuousTestRunFailed, DotNetTestDebugWarning, DotNetTestDebugStart, BaseEvent, DotNetTestRunStart, DotNetTestDebugProcessStart, DotNetTestMessage, DotNetTestDebugComplete, ReportDotNetTestResults, DotNetTestsInClassDebugStart, DotNetTestsInClassRunStart, DotNetTestRunInContextStart, DotNetTestDebugInContextStart } from '../../../src/omnisharp/loggingEvents';
 import DotNetTestLoggerObserver from '../../../src/observers/DotnetTestLoggerObserver';
 import * as protocol from '../../../src/omnisharp/protocol';
 
@@ -25,7 +25,8 @@ suite(`${DotNetTestLoggerObserver.name}`, () => {
 
     [
         new DotNetTestDebugWarning("some warning"),
-        new DotNetTestMessage("some message")
+        new DotNetTestMessage("some message"),
+        new ContinuousTestRunFailed("some failure")
     ].forEach((event: EventWithMessage) => {
         test(`${event.constructor.name}: Message is logged`, () => {
             observer.post(event);
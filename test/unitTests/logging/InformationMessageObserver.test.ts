@@ -5,7 +5,7 @@
 
 import { InformationMessageObserver } from '../../../src/observers/InformationMessageObserver';
 import { use as chaiUse, expect, should } from 'chai';
-import { getUnresolvedDependenices, updateConfig, getVSCodeWithConfig } from '../testAssets/Fakes';
+import { getUnresolvedDependenciesUpdated, updateConfig, getVSCodeWithConfig } from '../testAssets/Fakes';
 import { from as observableFrom } from 'rxjs';
 import { timeout } from 'rxjs/operators';
 
@@ -36,8 +36,8 @@ suite("InformationMessageObserver", () => {
 
     [
         {
-            event: getUnresolvedDependenices("someFile"),
-            expectedCommand: "dotnet.restore.all"
+            event: getUnresolvedDependenciesUpdated("/work/App/App.csproj"),
+            expectedCommand: "dotnet.restore.unresolved"
         }
     ].forEach((elem) => {
         suite(elem.event.constructor.name, () => {
@@ -56,6 +56,7 @@ suite("InformationMessageObserver", () => {
                 test('The information message is shown', async () => {
                     observer.post(elem.event);
                     expect(infoMessage).to.not.be.empty;
+                    expect(infoMessage).to.contain('App.csproj');
                     doClickOk();
                     await commandDone;
                     expect(invokedCommand).to.be.equal(elem.expectedCommand);
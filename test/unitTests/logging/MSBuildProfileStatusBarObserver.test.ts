@@ -0,0 +1,53 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect, should } from 'chai';
+import { StatusBarItem } from '../../../src/vscodeAdapter';
+import { MSBuildProfileStatusBarObserver } from '../../../src/observers/MSBuildProfileStatusBarObserver';
+import { OmnisharpMSBuildProfile, OmnisharpServerOnStop } from '../../../src/omnisharp/loggingEvents';
+
+suite('MSBuildProfileStatusBarObserver', () => {
+    suiteSetup(() => should());
+
+    let showCalled: boolean;
+    let hideCalled: boolean;
+    let statusBarItem = <StatusBarItem>{
+        show: () => { showCalled = true; },
+        hide: () => { hideCalled = true; }
+    };
+    let observer = new MSBuildProfileStatusBarObserver(statusBarItem);
+
+    setup(() => {
+        showCalled = false;
+        hideCalled = false;
+    });
+
+    test('The active profile is shown with the command to switch profiles', () => {
+        observer.post(new OmnisharpMSBuildProfile('Release', ['Release', 'Linux'], { Configuration: 'Release' }));
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.contain('Release');
+        expect(statusBarItem.command).to.equal('o.selectMSBuildProfile');
+        expect(statusBarItem.tooltip).to.contain('Configuration=Release');
+    });
+
+    test('Projects loaded without a profile are shown as Default', () => {
+        observer.post(new OmnisharpMSBuildProfile('', ['Release'], {}));
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.contain('Default');
+    });
+
+    test('Status bar is hidden when no profiles are configured', () => {
+        observer.post(new OmnisharpMSBuildProfile('', [], {}));
+        expect(hideCalled).to.be.true;
+        expect(statusBarItem.text).to.be.undefined;
+    });
+
+    test('OnServerStop: Status bar is hidden', () => {
+        observer.post(new OmnisharpMSBuildProfile('Release', ['Release'], {}));
+        observer.post(new OmnisharpServerOnStop());
+        expect(hideCalled).to.be.true;
+        expect(statusBarItem.command).to.be.undefined;
+    });
+});
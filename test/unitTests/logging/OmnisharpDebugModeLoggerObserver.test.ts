@@ -37,6 +37,12 @@ suite("OmnisharpDebugModeLoggerObserver", () => {
         expect(logOutput).to.contain(event.command);
     });
 
+    test(`OmnisharpServerEnqueueRequest: Coalescing is logged`, () => {
+        let event = new OmnisharpServerEnqueueRequest("foo", "someCommand", "superseding");
+        observer.post(event);
+        expect(logOutput).to.contain("(superseding)");
+    });
+
     test(`OmnisharpServerDequeueRequest: QueueName, QueueStatus, Command and Id is logged`, () => {
         let event = new OmnisharpServerDequeueRequest("foo", "pending", "someCommand", 1);
         observer.post(event);
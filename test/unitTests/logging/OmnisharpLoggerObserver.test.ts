@@ -5,7 +5,7 @@
 import { should, expect } from 'chai';
 import { getNullChannel } from '../testAssets/Fakes';
 import { OmnisharpLoggerObserver } from '../../../src/observers/OmnisharpLoggerObserver';
-import { OmnisharpServerMsBuildProjectDiagnostics, EventWithMessage, OmnisharpServerOnStdErr, OmnisharpServerMessage, OmnisharpServerOnServerError, OmnisharpInitialisation, OmnisharpLaunch, OmnisharpServerOnError, OmnisharpFailure, OmnisharpEventPacketReceived } from '../../../src/omnisharp/loggingEvents';
+import { OmnisharpServerMsBuildProjectDiagnostics, EventWithMessage, OmnisharpServerOnStdErr, OmnisharpServerMessage, OmnisharpServerOnServerError, OmnisharpInitialisation, OmnisharpLaunch, OmnisharpServerOnError, OmnisharpFailure, OmnisharpEventPacketReceived, OmnisharpAttach, OmnisharpServerReconnect, OmnisharpServerCrashRestart, OmnisharpServerCrashRecoveryFailed, OmnisharpServerRequestTimeout, OmnisharpServerUnresponsive, OmnisharpServerResponsive, OmnisharpServerProjectLoadTimeout, OmnisharpServerProjectLoadCompleted } from '../../../src/omnisharp/loggingEvents';
 
 suite("OmnisharpLoggerObserver", () => {
     suiteSetup(() => should());
@@ -159,6 +159,64 @@ suite("OmnisharpLoggerObserver", () => {
         });
     });
 
+    test('OmnisharpAttach: Server address is logged', () => {
+        let event = new OmnisharpAttach("localhost:2000");
+        observer.post(event);
+        expect(logOutput).to.contain("Connected to OmniSharp server at localhost:2000.");
+    });
+
+    test('OmnisharpServerReconnect: Server address and attempt are logged', () => {
+        let event = new OmnisharpServerReconnect("/tmp/omnisharp.sock", 2, 5);
+        observer.post(event);
+        expect(logOutput).to.contain(event.address);
+        expect(logOutput).to.contain("attempt 2 of 5");
+    });
+
+    test('OmnisharpServerCrashRestart: Delay and attempt are logged', () => {
+        let event = new OmnisharpServerCrashRestart(2, 3, 2000);
+        observer.post(event);
+        expect(logOutput).to.contain("restarting in 2 second(s)");
+        expect(logOutput).to.contain("attempt 2 of 3");
+    });
+
+    test('OmnisharpServerCrashRecoveryFailed: Number of attempts is logged', () => {
+        let event = new OmnisharpServerCrashRecoveryFailed(3);
+        observer.post(event);
+        expect(logOutput).to.contain("could not be restarted after 3 attempt(s)");
+    });
+
+    test('OmnisharpServerRequestTimeout: Command and timeout are logged', () => {
+        let event = new OmnisharpServerRequestTimeout("/completion", 5, 30000);
+        observer.post(event);
+        expect(logOutput).to.contain("Request /completion (5) timed out after 30 second(s)");
+    });
+
+    test('OmnisharpServerUnresponsive: Silent time and queue state are logged', () => {
+        let event = new OmnisharpServerUnresponsive("/work/app.sln", 31000, [{ name: "Normal", pending: 4, waiting: 8 }]);
+        observer.post(event);
+        expect(logOutput).to.contain("/work/app.sln has not answered any request for 31 second(s)");
+        expect(logOutput).to.contain("Normal: 8 waiting, 4 pending");
+    });
+
+    test('OmnisharpServerResponsive: Unresponsive time is logged', () => {
+        let event = new OmnisharpServerResponsive("/work/app.sln", 45000);
+        observer.post(event);
+        expect(logOutput).to.contain("answering requests again after 45 second(s)");
+    });
+
+    test('OmnisharpServerProjectLoadTimeout: The projects still loading are logged', () => {
+        let event = new OmnisharpServerProjectLoadTimeout("/work/app.sln", 60, 3, ["/work/Big/Big.csproj"]);
+        observer.post(event);
+        expect(logOutput).to.contain("/work/app.sln did not load all projects within 60 second(s)");
+        expect(logOutput).to.contain("/work/Big/Big.csproj");
+    });
+
+    test('OmnisharpServerProjectLoadCompleted: Completion is logged', () => {
+        let event = new OmnisharpServerProjectLoadCompleted("/work/app.sln", 4);
+        observer.post(event);
+        expect(logOutput).to.contain("/work/app.sln has finished loading the projects");
+    });
+
     suite('OmnisharpServerOnError', () => {
         test(`Doesnot throw error if FileName is null`, () => {
             let event = new OmnisharpServerOnError({ Text: "someText", FileName: null, Line: 1, Column: 2 });
@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { StatusBarItem } from '../../../src/vscodeAdapter';
-import { OmnisharpOnBeforeServerInstall, OmnisharpOnBeforeServerStart, OmnisharpServerOnServerError, OmnisharpServerOnStart, OmnisharpServerOnStop, DownloadStart, InstallationStart, DownloadProgress, OmnisharpServerOnStdErr, BaseEvent, InstallationSuccess } from '../../../src/omnisharp/loggingEvents';
+import { OmnisharpOnBeforeServerInstall, OmnisharpOnBeforeServerStart, OmnisharpServerOnServerError, OmnisharpServerOnStart, OmnisharpServerOnStop, DownloadStart, InstallationStart, DownloadProgress, OmnisharpServerOnStdErr, BaseEvent, InstallationSuccess, OmnisharpServerCrashRestart, OmnisharpServerCrashRecoveryFailed, OmnisharpServerRequestTimeout, OmnisharpServerRequestSucceeded, OmnisharpServerUnresponsive, OmnisharpServerResponsive, OmnisharpServerProjectLoadTimeout, OmnisharpServerProjectLoadProgress, OmnisharpServerProjectLoadCompleted } from '../../../src/omnisharp/loggingEvents';
 import { expect, should } from 'chai';
 import { OmnisharpStatusBarObserver, StatusBarColors } from '../../../src/observers/OmnisharpStatusBarObserver';
 
@@ -52,6 +52,85 @@ suite('OmnisharpStatusBarObserver', () => {
         expect(statusBarItem.tooltip).to.contain(event.message);
     });
 
+    test('OmnisharpServerCrashRestart: Status bar is shown with the restart attempt', () => {
+        let event = new OmnisharpServerCrashRestart(1, 3, 1000);
+        observer.post(event);
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.color).to.equal(StatusBarColors.Yellow);
+        expect(statusBarItem.command).to.equal('o.showOutput');
+        expect(statusBarItem.tooltip).to.contain('attempt 1 of 3');
+    });
+
+    test('OmnisharpServerCrashRecoveryFailed: Status bar is shown with the restart command', () => {
+        let event = new OmnisharpServerCrashRecoveryFailed(3);
+        observer.post(event);
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.color).to.equal(StatusBarColors.Red);
+        expect(statusBarItem.command).to.equal('o.restart');
+    });
+
+    test('OmnisharpServerRequestTimeout: Status bar is shown with the timed out command', () => {
+        let event = new OmnisharpServerRequestTimeout('/codecheck', 7, 300000);
+        observer.post(event);
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.color).to.equal(StatusBarColors.Yellow);
+        expect(statusBarItem.tooltip).to.contain('/codecheck');
+    });
+
+    test('OmnisharpServerRequestSucceeded: Status bar is shown as running again after a request timeout', () => {
+        observer.post(new OmnisharpServerRequestTimeout('/codecheck', 7, 300000));
+        observer.post(new OmnisharpServerRequestSucceeded('/completion', 8));
+        expect(statusBarItem.color).to.be.undefined;
+        expect(statusBarItem.tooltip).to.equal('OmniSharp server is running');
+    });
+
+    test('OmnisharpServerRequestSucceeded: Status bar is left alone when it shows no request timeout', () => {
+        observer.post(new OmnisharpServerRequestTimeout('/codecheck', 7, 300000));
+        observer.post(new OmnisharpServerUnresponsive('/work/app.sln', 30000, []));
+        observer.post(new OmnisharpServerRequestSucceeded('/completion', 8));
+        expect(statusBarItem.color).to.equal(StatusBarColors.Red);
+    });
+
+    test('OmnisharpServerUnresponsive: Status bar is shown with the restart with diagnostics command', () => {
+        let event = new OmnisharpServerUnresponsive('/work/app.sln', 30000, []);
+        observer.post(event);
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.equal('$(flame) Unresponsive');
+        expect(statusBarItem.color).to.equal(StatusBarColors.Red);
+        expect(statusBarItem.command).to.equal('o.restartWithDiagnostics');
+    });
+
+    test('OmnisharpServerResponsive: Status bar is shown as running', () => {
+        let event = new OmnisharpServerResponsive('/work/app.sln', 30000);
+        observer.post(event);
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.equal('$(flame)');
+        expect(statusBarItem.command).to.equal('o.showOutput');
+    });
+
+    test('OmnisharpServerProjectLoadTimeout: Status bar is shown as still loading', () => {
+        let event = new OmnisharpServerProjectLoadTimeout('/work/app.sln', 60, 3, ['/work/Big/Big.csproj']);
+        observer.post(event);
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.equal('$(flame) Loading');
+        expect(statusBarItem.color).to.equal(StatusBarColors.Yellow);
+        expect(statusBarItem.tooltip).to.equal('OmniSharp server is running, 1 project(s) are still loading');
+    });
+
+    test('OmnisharpServerProjectLoadProgress: Status bar tooltip shows the loaded projects when the remaining ones are not known', () => {
+        let event = new OmnisharpServerProjectLoadProgress('/work', 4);
+        observer.post(event);
+        expect(statusBarItem.text).to.equal('$(flame) Loading');
+        expect(statusBarItem.tooltip).to.equal('OmniSharp server is running, 4 project(s) were loaded and more are still loading');
+    });
+
+    test('OmnisharpServerProjectLoadCompleted: Status bar is shown as running', () => {
+        let event = new OmnisharpServerProjectLoadCompleted('/work/app.sln', 5);
+        observer.post(event);
+        expect(statusBarItem.text).to.equal('$(flame)');
+        expect(statusBarItem.color).to.be.undefined;
+        expect(statusBarItem.command).to.equal('o.showOutput');
+    });
 
     test('OnBeforeServerInstall: Status bar is shown with the installation text', () => {
         let event = new OmnisharpOnBeforeServerInstall();
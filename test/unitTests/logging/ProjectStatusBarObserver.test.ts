@@ -7,7 +7,7 @@ import { expect, should } from 'chai';
 import { getWorkspaceInformationUpdated, getMSBuildWorkspaceInformation } from '../testAssets/Fakes';
 import { StatusBarItem } from '../../../src/vscodeAdapter';
 import { ProjectStatusBarObserver } from '../../../src/observers/ProjectStatusBarObserver';
-import { OmnisharpOnMultipleLaunchTargets, OmnisharpServerOnStop } from '../../../src/omnisharp/loggingEvents';
+import { OmnisharpOnMultipleLaunchTargets, OmnisharpServerOnStop, OmnisharpServerPoolStatus, WorkspaceInformationUpdated } from '../../../src/omnisharp/loggingEvents';
 
 suite('ProjectStatusBarObserver', () => {
     suiteSetup(() => should());
@@ -58,5 +58,50 @@ suite('ProjectStatusBarObserver', () => {
             expect(statusBarItem.text).to.contain(event.info.MsBuild.SolutionPath);
             expect(statusBarItem.command).to.equal('o.pickProjectAndStart');
         });
+
+        test('Project names are shown if the server was launched with projects', () => {
+            let event = new WorkspaceInformationUpdated(
+                { MsBuild: getMSBuildWorkspaceInformation("/tmp/projects.sln", []) },
+                { label: "App, Lib", description: "2 projects", target: "/work", directory: "/work", workspaceKind: 1, projects: ["/work/App/App.csproj", "/work/Lib/Lib.csproj"] });
+            observer.post(event);
+            expect(showCalled).to.be.true;
+            expect(statusBarItem.text).to.equal('$(file-directory) App, Lib');
+            expect(statusBarItem.tooltip).to.contain('/work/Lib/Lib.csproj');
+        });
+    });
+
+    suite('OmnisharpServerPoolStatus', () => {
+        let poolObserver: ProjectStatusBarObserver;
+
+        setup(() => {
+            poolObserver = new ProjectStatusBarObserver(statusBarItem);
+        });
+
+        test('Status bar shows every server of the pool', () => {
+            poolObserver.post(new OmnisharpServerPoolStatus([
+                { target: '/work/first/First.sln', running: true },
+                { target: '/work/second/Second.sln', running: false }
+            ]));
+            expect(showCalled).to.be.true;
+            expect(statusBarItem.text).to.contain('First.sln, Second.sln');
+            expect(statusBarItem.tooltip).to.contain('/work/second/Second.sln: stopped');
+            expect(statusBarItem.command).to.equal('o.pickProjectAndStart');
+        });
+
+        test('Workspace information and server stops do not replace the pool status', () => {
+            poolObserver.post(new OmnisharpServerPoolStatus([
+                { target: '/work/first/First.sln', running: true },
+                { target: '/work/second/Second.sln', running: true }
+            ]));
+            poolObserver.post(new OmnisharpServerOnStop());
+            poolObserver.post(getWorkspaceInformationUpdated(getMSBuildWorkspaceInformation("somePath", [])));
+            expect(statusBarItem.text).to.contain('First.sln, Second.sln');
+        });
+
+        test('A pool with a single server does not change the status bar', () => {
+            statusBarItem.text = undefined;
+            poolObserver.post(new OmnisharpServerPoolStatus([{ target: '/work/first/First.sln', running: true }]));
+            expect(statusBarItem.text).to.be.undefined;
+        });
     });
-});
\ No newline at end of file
+});
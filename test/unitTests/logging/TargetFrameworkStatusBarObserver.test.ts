@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect, should } from 'chai';
+import { StatusBarItem } from '../../../src/vscodeAdapter';
+import { TargetFrameworkStatusBarObserver } from '../../../src/observers/TargetFrameworkStatusBarObserver';
+import { ActiveTargetFrameworkUpdated, OmnisharpServerOnStop } from '../../../src/omnisharp/loggingEvents';
+
+suite('TargetFrameworkStatusBarObserver', () => {
+    suiteSetup(() => should());
+
+    const net6 = { Name: '.NETCoreApp,Version=v6.0', FriendlyName: '.NET 6.0', ShortName: 'net6.0' };
+    const net48 = { Name: '.NETFramework,Version=v4.8', FriendlyName: '.NET Framework 4.8', ShortName: 'net48' };
+
+    let showCalled: boolean;
+    let hideCalled: boolean;
+    let statusBarItem = <StatusBarItem>{
+        show: () => { showCalled = true; },
+        hide: () => { hideCalled = true; }
+    };
+    let observer = new TargetFrameworkStatusBarObserver(statusBarItem);
+
+    setup(() => {
+        showCalled = false;
+        hideCalled = false;
+    });
+
+    test('The active framework of a multi-targeted project is shown with the command to select another one', () => {
+        observer.post(new ActiveTargetFrameworkUpdated('/work/Lib/Lib.csproj', net48, [net6, net48]));
+        expect(showCalled).to.be.true;
+        expect(statusBarItem.text).to.contain('net48');
+        expect(statusBarItem.command).to.equal('csharp.selectTargetFramework');
+        expect(statusBarItem.tooltip).to.contain('Lib.csproj');
+    });
+
+    test('Status bar is hidden for projects with a single framework', () => {
+        observer.post(new ActiveTargetFrameworkUpdated('/work/App/App.csproj', net6, [net6]));
+        expect(hideCalled).to.be.true;
+        expect(statusBarItem.text).to.be.undefined;
+    });
+
+    test('Status bar is hidden for documents outside of a project', () => {
+        observer.post(new ActiveTargetFrameworkUpdated());
+        expect(hideCalled).to.be.true;
+    });
+
+    test('OnServerStop: Status bar is hidden', () => {
+        observer.post(new OmnisharpServerOnStop());
+        expect(hideCalled).to.be.true;
+        expect(statusBarItem.command).to.be.undefined;
+    });
+});
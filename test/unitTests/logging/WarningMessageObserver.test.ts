@@ -4,6 +4,7 @@
 *--------------------------------------------------------------------------------------------*/
 
 import { WarningMessageObserver } from '../../../src/observers/WarningMessageObserver';
+import { OmnisharpServerProjectLoadTimeout } from '../../../src/omnisharp/loggingEvents';
 import { assert, use as chaiUse, expect, should } from 'chai';
 import { getFakeVsCode, getMSBuildDiagnosticsMessage, getOmnisharpMSBuildProjectDiagnosticsEvent, getOmnisharpServerOnErrorEvent } from '../testAssets/Fakes';
 import { vscode } from '../../../src/vscodeAdapter';
@@ -90,6 +91,18 @@ suite('WarningMessageObserver', () => {
         expect(invokedCommand).to.be.undefined;
     });
 
+    test('OmnisharpServerProjectLoadTimeout: A warning message names the projects that are still loading', () => {
+        observer.post(new OmnisharpServerProjectLoadTimeout('/work/app.sln', 60, 3, ['/work/Big/Big.csproj', '/work/Slow/Slow.csproj']));
+
+        expect(warningMessages).to.deep.equal(['Loading the projects is taking longer than 60 second(s). Language features are available for the 3 loaded project(s) while Big.csproj, Slow.csproj are still loading.']);
+    });
+
+    test('OmnisharpServerProjectLoadTimeout: A warning message is displayed when the projects still loading are not known', () => {
+        observer.post(new OmnisharpServerProjectLoadTimeout('/work', 60, 3));
+
+        expect(warningMessages[0]).to.contain('while the remaining projects are still loading');
+    });
+
     [
         {
             eventA: getOmnisharpMSBuildProjectDiagnosticsEvent("someFile",
@@ -0,0 +1,51 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import ActiveTargetFrameworks, { TargetFrameworkState } from '../../../src/omnisharp/activeTargetFrameworks';
+import { MSBuildProject } from '../../../src/omnisharp/protocol';
+
+suite(`${ActiveTargetFrameworks.name}`, () => {
+    let values: { [key: string]: any };
+    let activeTargetFrameworks: ActiveTargetFrameworks;
+
+    const project = <MSBuildProject>{
+        Path: '/work/Lib/Lib.csproj',
+        TargetFramework: '.NETStandard,Version=v2.0',
+        TargetFrameworks: [
+            { Name: '.NETCoreApp,Version=v6.0', FriendlyName: '.NET 6.0', ShortName: 'net6.0' },
+            { Name: '.NETStandard,Version=v2.0', FriendlyName: '.NET Standard 2.0', ShortName: 'netstandard2.0' }
+        ]
+    };
+
+    setup(() => {
+        values = {};
+        const state: TargetFrameworkState = {
+            get: <T>(key: string) => <T>values[key],
+            update: async (key: string, value: any) => { values[key] = value; }
+        };
+
+        activeTargetFrameworks = new ActiveTargetFrameworks(state);
+    });
+
+    test('Without a selection, the framework reported by OmniSharp is active', () => {
+        expect(activeTargetFrameworks.getSelected(project)).to.be.undefined;
+        expect(activeTargetFrameworks.getActive(project).ShortName).to.equal('netstandard2.0');
+    });
+
+    test('The selected framework is active and persisted', async () => {
+        await activeTargetFrameworks.select(project, project.TargetFrameworks[0]);
+
+        expect(activeTargetFrameworks.getActive(project).ShortName).to.equal('net6.0');
+        expect(values[ActiveTargetFrameworks.StateKey]).to.deep.equal({ '/work/Lib/Lib.csproj': 'net6.0' });
+    });
+
+    test('A selection the project no longer targets is ignored', async () => {
+        values[ActiveTargetFrameworks.StateKey] = { '/work/Lib/Lib.csproj': 'net472' };
+
+        expect(activeTargetFrameworks.getSelected(project)).to.be.undefined;
+        expect(activeTargetFrameworks.getActive(project).ShortName).to.equal('netstandard2.0');
+    });
+});
@@ -0,0 +1,150 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { BufferSynchronizer, SynchronizedDocument } from '../../../src/omnisharp/bufferSynchronizer';
+import { LinePositionSpanTextChange } from '../../../src/omnisharp/protocol';
+
+suite(`${BufferSynchronizer.name}`, () => {
+    interface SentRequest {
+        command: 'update' | 'change';
+        request: any;
+        complete(): void;
+        fail(): void;
+    }
+
+    let sent: SentRequest[];
+    let running: boolean;
+    let synchronizer: BufferSynchronizer;
+    let document: SynchronizedDocument;
+
+    function send(command: 'update' | 'change') {
+        return async (request: any) => new Promise<void>((resolve, reject) => {
+            sent.push({ command, request, complete: resolve, fail: () => reject(new Error('failed')) });
+        });
+    }
+
+    async function flush(): Promise<void> {
+        return new Promise<void>(resolve => setImmediate(resolve));
+    }
+
+    function createChange(text: string, line: number = 0): LinePositionSpanTextChange {
+        return { NewText: text, StartLine: line, StartColumn: 0, EndLine: line, EndColumn: 0 };
+    }
+
+    function edit(text: string, ...changes: LinePositionSpanTextChange[]) {
+        document.version += 1;
+        document.getText = () => text;
+        synchronizer.onDidChange(document, changes);
+    }
+
+    setup(() => {
+        sent = [];
+        running = true;
+        synchronizer = new BufferSynchronizer(() => running, send('update'), send('change'));
+        document = { fileName: '/work/Program.cs', version: 1, isClosed: false, getText: () => 'class C {}' };
+        synchronizer.resync(document);
+    });
+
+    test('The whole buffer is sent for a document the server does not know', async () => {
+        await flush();
+        expect(sent.map(request => request.command)).to.deep.equal(['update']);
+        expect(sent[0].request).to.deep.equal({ FileName: '/work/Program.cs', Buffer: 'class C {}' });
+    });
+
+    test('A single change is sent as a delta', async () => {
+        await flush();
+        sent[0].complete();
+        edit('// A\nclass C {}', createChange('// A\n'));
+        await flush();
+
+        expect(sent[1].command).to.equal('change');
+        expect(sent[1].request).to.deep.equal({ FileName: '/work/Program.cs', NewText: '// A\n', StartLine: 0, StartColumn: 0, EndLine: 0, EndColumn: 0 });
+    });
+
+    test('The changes of one edit are sent together', async () => {
+        await flush();
+        sent[0].complete();
+        edit('// A\nclass C {}\n// B', createChange('// A\n'), createChange('\n// B', 1));
+        await flush();
+
+        expect(sent[1].command).to.equal('update');
+        expect(sent[1].request).to.deep.equal({ FileName: '/work/Program.cs', Changes: [createChange('// A\n'), createChange('\n// B', 1)], ApplyChangesTogether: false });
+    });
+
+    test('A skipped version resends the whole buffer', async () => {
+        await flush();
+        sent[0].complete();
+        document.version += 1;
+        edit('// A\nclass C {}', createChange('// A\n'));
+        await flush();
+
+        expect(sent[1].command).to.equal('update');
+        expect(sent[1].request.Buffer).to.equal('// A\nclass C {}');
+    });
+
+    test('The requests of a document are sent one after the other', async () => {
+        await flush();
+        edit('// A\nclass C {}', createChange('// A\n'));
+        edit('// A\n// B\nclass C {}', createChange('// B\n', 1));
+        await flush();
+        expect(sent).to.have.lengthOf(1);
+
+        sent[0].complete();
+        await flush();
+        expect(sent).to.have.lengthOf(2);
+        expect(sent[1].request.NewText).to.equal('// A\n');
+
+        sent[1].complete();
+        await flush();
+        expect(sent).to.have.lengthOf(3);
+        expect(sent[2].request.NewText).to.equal('// B\n');
+    });
+
+    test('A failed delta resends the whole buffer', async () => {
+        await flush();
+        sent[0].complete();
+        edit('// A\nclass C {}', createChange('// A\n'));
+        await flush();
+
+        sent[1].fail();
+        await flush();
+        expect(sent[2].command).to.equal('update');
+        expect(sent[2].request.Buffer).to.equal('// A\nclass C {}');
+    });
+
+    test('A failed delta of a closed document is not resent', async () => {
+        await flush();
+        sent[0].complete();
+        edit('// A\nclass C {}', createChange('// A\n'));
+        await flush();
+
+        document.isClosed = true;
+        sent[1].fail();
+        await flush();
+        expect(sent).to.have.lengthOf(2);
+    });
+
+    test('The whole buffer is sent again after a reset', async () => {
+        await flush();
+        sent[0].complete();
+        synchronizer.reset();
+        edit('// A\nclass C {}', createChange('// A\n'));
+        await flush();
+
+        expect(sent[1].command).to.equal('update');
+        expect(sent[1].request.Buffer).to.equal('// A\nclass C {}');
+    });
+
+    test('Nothing is sent while the server is not running', async () => {
+        await flush();
+        sent[0].complete();
+        running = false;
+        edit('// A\nclass C {}', createChange('// A\n'));
+        await flush();
+
+        expect(sent).to.have.lengthOf(1);
+    });
+});
@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { EventStream } from '../../../src/EventStream';
+import { EventType } from '../../../src/omnisharp/EventType';
+import { BaseEvent, OmnisharpServerCrashRestart } from '../../../src/omnisharp/loggingEvents';
+import { CrashRecovery } from '../../../src/omnisharp/crashRecovery';
+import { Request, RequestQueueCollection } from '../../../src/omnisharp/requestQueue';
+import * as protocol from '../../../src/omnisharp/protocol';
+
+suite(`${CrashRecovery.name}`, () => {
+    let events: BaseEvent[];
+    let sent: Request[];
+    let delays: number[];
+    let starts: boolean[];
+    let recovered: number;
+    let queue: RequestQueueCollection;
+    let recovery: CrashRecovery;
+
+    setup(() => {
+        events = [];
+        sent = [];
+        delays = [];
+        starts = [];
+        recovered = 0;
+
+        const eventStream = new EventStream();
+        eventStream.subscribe(event => events.push(event));
+
+        let nextId = 1;
+        queue = new RequestQueueCollection(eventStream, 8, request => {
+            request.id = nextId++;
+            sent.push(request);
+            return request.id;
+        });
+
+        recovery = new CrashRecovery(
+            async () => starts.shift(),
+            () => recovered++,
+            queue,
+            eventStream,
+            async delay => { delays.push(delay); });
+    });
+
+    test('The server is restarted with a growing delay until it runs', async () => {
+        starts = [false, true];
+        await recovery.recover(3, 0, 1000);
+
+        expect(delays).to.deep.equal([1000, 2000]);
+        expect(recovered).to.equal(1);
+    });
+
+    test('Requests the crashed server never answered are sent to the restarted server', async () => {
+        const request: Request = { command: protocol.Requests.Completion, onSuccess: () => { }, onError: () => { } };
+        queue.enqueue(request);
+
+        starts = [true];
+        await recovery.recover(3, 0, 1000);
+
+        expect(sent).to.deep.equal([request, request]);
+    });
+
+    test('Requests the crashed server never answered are rejected once the restart attempts are exhausted', async () => {
+        let error: any;
+        queue.enqueue({ command: protocol.Requests.Completion, onSuccess: () => { }, onError: err => error = err });
+
+        starts = [false, false];
+        await recovery.recover(2, 0, 1000);
+
+        expect(recovered).to.equal(0);
+        expect(error).to.be.an('error');
+        expect(events.map(event => event.type)).to.include(EventType.OmnisharpServerCrashRecoveryFailed);
+    });
+
+    test('Crashes after a stable run do not count towards the restart limit', async () => {
+        starts = [false, false];
+        await recovery.recover(2, 0, 1000);
+
+        starts = [true];
+        await recovery.recover(2, 0, 10 * 60 * 1000);
+
+        expect(recovered).to.equal(1);
+        expect((<OmnisharpServerCrashRestart>events.filter(event => event.type === EventType.OmnisharpServerCrashRestart).pop()).attempt).to.equal(1);
+    });
+
+    test('A cancelled recovery does not restart the server', async () => {
+        starts = [true];
+        recovery = new CrashRecovery(async () => starts.shift(), () => recovered++, queue, new EventStream(), async () => recovery.cancel());
+        await recovery.recover(3, 0, 1000);
+
+        expect(starts).to.deep.equal([true]);
+        expect(recovered).to.equal(0);
+    });
+});
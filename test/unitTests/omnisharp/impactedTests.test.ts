@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { countTestOutcomes, findEnclosingTestMethods, findReferencingProjects, getChangedSymbols, getTestFrameworkName, getTestMethods } from '../../../src/omnisharp/impactedTests';
+import * as protocol from '../../../src/omnisharp/protocol';
+
+suite('Impacted tests', () => {
+    function createElement(kind: string, name: string, startLine: number, endLine: number, properties?: { [name: string]: any }, children?: protocol.V2.Structure.CodeElement[]): protocol.V2.Structure.CodeElement {
+        return {
+            Kind: kind,
+            Name: name,
+            DisplayName: name,
+            Ranges: {
+                [protocol.V2.SymbolRangeNames.Full]: { Start: { Line: startLine, Column: 0 }, End: { Line: endLine, Column: 1 } },
+                [protocol.V2.SymbolRangeNames.Name]: { Start: { Line: startLine, Column: 4 }, End: { Line: startLine, Column: 4 + name.length } }
+            },
+            Properties: properties,
+            Children: children
+        };
+    }
+
+    function createTestMethod(name: string, startLine: number, endLine: number) {
+        return createElement(protocol.V2.SymbolKinds.Method, name, startLine, endLine, {
+            [protocol.V2.SymbolPropertyNames.TestFramework]: 'xunit',
+            [protocol.V2.SymbolPropertyNames.TestMethodName]: `Contoso.MathTests.${name}`
+        });
+    }
+
+    const testFile = [
+        createElement(protocol.V2.SymbolKinds.Namespace, 'Contoso', 0, 30, undefined, [
+            createElement(protocol.V2.SymbolKinds.Class, 'MathTests', 2, 29, undefined, [
+                createElement(protocol.V2.SymbolKinds.Method, 'CreateCalculator', 4, 7),
+                createTestMethod('Adds', 9, 14),
+                createTestMethod('Subtracts', 16, 21)
+            ])
+        ])
+    ];
+
+    suite(findReferencingProjects.name, () => {
+        test('Returns the projects that reference a project directly or transitively', () => {
+            const projects = [
+                { projectPath: '/work/Lib/Lib.csproj', references: [] as string[] },
+                { projectPath: '/work/App/App.csproj', references: ['/work/Lib/Lib.csproj'] },
+                { projectPath: '/work/App.Tests/App.Tests.csproj', references: ['/work/App/App.csproj'] },
+                { projectPath: '/work/Other.Tests/Other.Tests.csproj', references: ['/work/Other/Other.csproj'] }
+            ];
+
+            expect(findReferencingProjects('/work/Lib/Lib.csproj', projects).sort()).to.deep.equal(['/work/App.Tests/App.Tests.csproj', '/work/App/App.csproj', '/work/Lib/Lib.csproj']);
+        });
+
+        test('Handles reference cycles', () => {
+            const projects = [
+                { projectPath: '/work/A/A.csproj', references: ['/work/B/B.csproj'] },
+                { projectPath: '/work/B/B.csproj', references: ['/work/A/A.csproj'] }
+            ];
+
+            expect(findReferencingProjects('/work/A/A.csproj', projects).sort()).to.deep.equal(['/work/A/A.csproj', '/work/B/B.csproj']);
+        });
+    });
+
+    suite(getTestMethods.name, () => {
+        test('Returns the test methods of a file', () => {
+            expect(getTestMethods(testFile).map(testMethod => testMethod.methodName)).to.deep.equal(['Contoso.MathTests.Adds', 'Contoso.MathTests.Subtracts']);
+            expect(getTestMethods(testFile)[0].testFrameworkName).to.equal('xunit');
+        });
+    });
+
+    suite(getTestFrameworkName.name, () => {
+        test('Returns the test framework the test methods share', () => {
+            expect(getTestFrameworkName(getTestMethods(testFile))).to.equal('xunit');
+        });
+
+        test('Returns undefined for test methods of several frameworks or none', () => {
+            const testMethods = getTestMethods(testFile);
+            expect(getTestFrameworkName([testMethods[0], { ...testMethods[1], testFrameworkName: 'nunit' }])).to.equal(undefined);
+            expect(getTestFrameworkName([])).to.equal(undefined);
+        });
+    });
+
+    suite(getChangedSymbols.name, () => {
+        test('Returns the innermost members that contain a changed line', () => {
+            expect(getChangedSymbols(testFile, [5, 17]).map(element => element.Name)).to.deep.equal(['CreateCalculator', 'Subtracts']);
+        });
+
+        test('Returns the type for a change outside of its members', () => {
+            expect(getChangedSymbols(testFile, [25]).map(element => element.Name)).to.deep.equal(['MathTests']);
+        });
+
+        test('Returns no symbols for a change outside of any type', () => {
+            expect(getChangedSymbols(testFile, [0, 40])).to.deep.equal([]);
+        });
+    });
+
+    suite(findEnclosingTestMethods.name, () => {
+        test('Returns the test methods that contain a line', () => {
+            expect(findEnclosingTestMethods(getTestMethods(testFile), [6, 12]).map(testMethod => testMethod.methodName)).to.deep.equal(['Contoso.MathTests.Adds']);
+        });
+    });
+
+    suite(countTestOutcomes.name, () => {
+        test('Counts the outcomes of the results', () => {
+            const createResult = (outcome: string): protocol.V2.DotNetTestResult => ({ MethodName: 'Contoso.MathTests.Adds', Outcome: outcome, ErrorMessage: null, ErrorStackTrace: null, StandardOutput: [], StandardError: [] });
+
+            expect(countTestOutcomes([
+                createResult(protocol.V2.TestOutcomes.Passed),
+                createResult(protocol.V2.TestOutcomes.Passed),
+                createResult(protocol.V2.TestOutcomes.Failed),
+                createResult(protocol.V2.TestOutcomes.Skipped)
+            ])).to.deep.equal({ passed: 2, failed: 1, skipped: 1 });
+        });
+    });
+});
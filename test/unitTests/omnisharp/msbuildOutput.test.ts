@@ -0,0 +1,122 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { BuildDiagnosticTracker, MSBuildOutputParser, parseMSBuildOutputLine } from '../../../src/omnisharp/msbuildOutput';
+
+suite('MSBuild output', () => {
+    suite(parseMSBuildOutputLine.name, () => {
+        test('Parses a compiler error with its position, code and project', () => {
+            const diagnostic = parseMSBuildOutputLine('/work/App/Program.cs(10,5): error CS1002: ; expected [/work/App/App.csproj]', '/work');
+
+            expect(diagnostic).to.deep.equal({
+                severity: 'error',
+                fileName: '/work/App/Program.cs',
+                code: 'CS1002',
+                text: '; expected',
+                projectPath: '/work/App/App.csproj',
+                startLine: 9,
+                startColumn: 4,
+                endLine: 9,
+                endColumn: 4
+            });
+        });
+
+        test('Parses a full range and a build node prefix', () => {
+            const diagnostic = parseMSBuildOutputLine('  1>/work/App/Gen.cs(3,1,4,7): warning SG0001: Generated code is obsolete [/work/App/App.csproj]', '/work');
+
+            expect(diagnostic).to.include({ severity: 'warning', code: 'SG0001', startLine: 2, startColumn: 0, endLine: 3, endColumn: 6 });
+        });
+
+        test('Reports diagnostics of a tool at the project', () => {
+            const diagnostic = parseMSBuildOutputLine('CSC : error CS5001: Program does not contain a static \'Main\' method [/work/App/App.csproj]', '/work');
+
+            expect(diagnostic).to.include({ fileName: '/work/App/App.csproj', code: 'CS5001', startLine: 0, startColumn: 0 });
+        });
+
+        test('Parses errors of targets without a code', () => {
+            const diagnostic = parseMSBuildOutputLine('/work/Directory.Build.targets(12,5): error : The version must be set. [/work/App/App.csproj]', '/work');
+
+            expect(diagnostic).to.include({ fileName: '/work/Directory.Build.targets', code: undefined, text: 'The version must be set.' });
+        });
+
+        test('Resolves relative file names against the project', () => {
+            const diagnostic = parseMSBuildOutputLine('Program.cs(1,1): error CS0246: The type could not be found [/work/App/App.csproj]', '/work');
+
+            expect(diagnostic.fileName).to.equal('/work/App/Program.cs');
+        });
+
+        test('Ignores other output', () => {
+            expect(parseMSBuildOutputLine('  App -> /work/App/bin/Debug/net6.0/App.dll', '/work')).to.equal(undefined);
+            expect(parseMSBuildOutputLine('    2 Warning(s)', '/work')).to.equal(undefined);
+            expect(parseMSBuildOutputLine('Time Elapsed 00:00:01.23', '/work')).to.equal(undefined);
+        });
+    });
+
+    suite(MSBuildOutputParser.name, () => {
+        test('Parses lines split across chunks and leaves out repeated diagnostics', () => {
+            const parser = new MSBuildOutputParser('/work');
+            const error = '/work/App/Program.cs(10,5): error CS1002: ; expected [/work/App/App.csproj]';
+
+            parser.append(`Build started.\n${error.substring(0, 20)}`);
+            parser.append(`${error.substring(20)}\r\nBuild FAILED.\n${error}`);
+
+            expect(parser.finish().map(diagnostic => diagnostic.code)).to.deep.equal(['CS1002']);
+        });
+
+        test('Collects the projects that were built', () => {
+            const parser = new MSBuildOutputParser('/work');
+            parser.append('  Lib -> /work/Lib/bin/Debug/net6.0/Lib.dll\n  App -> /work/App/bin/Debug/net6.0/App.dll\n');
+            parser.finish();
+
+            expect(parser.getProjectOutputs()).to.deep.equal([
+                { projectName: 'Lib', outputPath: '/work/Lib/bin/Debug/net6.0/Lib.dll' },
+                { projectName: 'App', outputPath: '/work/App/bin/Debug/net6.0/App.dll' }
+            ]);
+        });
+    });
+
+    suite(BuildDiagnosticTracker.name, () => {
+        const appError = parseMSBuildOutputLine('/work/App/Program.cs(10,5): error CS1002: ; expected [/work/App/App.csproj]', '/work');
+        const libWarning = parseMSBuildOutputLine('/work/Lib/Class.cs(1,1): warning CS0168: Unused variable [/work/Lib/Lib.csproj]', '/work');
+
+        test('A project build replaces the diagnostics of the projects it built', () => {
+            const tracker = new BuildDiagnosticTracker();
+            tracker.update('/work/App/App.csproj', [appError, libWarning]);
+            tracker.update('/work/App/App.csproj', [libWarning]);
+
+            expect(Array.from(tracker.getDiagnosticsByFile().keys())).to.deep.equal(['/work/Lib/Class.cs']);
+        });
+
+        test('A project build replaces the diagnostics of the referenced projects it built cleanly', () => {
+            const tracker = new BuildDiagnosticTracker();
+            tracker.update('/work/Lib/Lib.csproj', [libWarning]);
+            tracker.update('/work/App/App.csproj', [], [
+                { projectName: 'Lib', outputPath: '/work/Lib/bin/Debug/net6.0/Lib.dll' },
+                { projectName: 'App', outputPath: '/work/App/bin/Debug/net6.0/App.dll' }
+            ]);
+
+            expect(tracker.getDiagnosticsByFile().size).to.equal(0);
+        });
+
+        test('A build output is matched to the project whose directory contains it', () => {
+            const otherLibWarning = parseMSBuildOutputLine('/work/Old/Lib/Class.cs(1,1): warning CS0168: Unused variable [/work/Old/Lib/Lib.csproj]', '/work');
+            const tracker = new BuildDiagnosticTracker();
+            tracker.update(undefined, [libWarning, otherLibWarning]);
+            tracker.update('/work/App/App.csproj', [], [{ projectName: 'Lib', outputPath: '/work/Lib/bin/Debug/net6.0/Lib.dll' }]);
+
+            expect(Array.from(tracker.getDiagnosticsByFile().keys())).to.deep.equal(['/work/Old/Lib/Class.cs']);
+        });
+
+        test('A solution build replaces the diagnostics of all projects', () => {
+            const tracker = new BuildDiagnosticTracker();
+            tracker.update('/work/App/App.csproj', [appError]);
+            tracker.update('/work/Lib/Lib.csproj', [libWarning]);
+            tracker.update(undefined, []);
+
+            expect(tracker.getDiagnosticsByFile().size).to.equal(0);
+        });
+    });
+});
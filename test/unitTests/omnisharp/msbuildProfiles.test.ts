@@ -0,0 +1,43 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { getActiveMSBuildProperties, getCommandLinePropertyArguments, getOutputFolder, getServerPropertyArguments } from '../../../src/omnisharp/msbuildProfiles';
+import { getEmptyOptions } from '../Fakes/FakeOptions';
+
+suite('MSBuild profiles', () => {
+    test('The properties of the active profile are used', () => {
+        const options = getEmptyOptions();
+        options.msbuildProfiles = { Release: { Configuration: 'Release' }, Linux: { DefineConstants: 'LINUX' } };
+        options.msbuildProfile = 'Linux';
+
+        expect(getActiveMSBuildProperties(options)).to.deep.equal({ DefineConstants: 'LINUX' });
+    });
+
+    test('No properties are used without an active profile or for an unknown one', () => {
+        const options = getEmptyOptions();
+        options.msbuildProfiles = { Release: { Configuration: 'Release' } };
+        expect(getActiveMSBuildProperties(options)).to.deep.equal({});
+
+        options.msbuildProfile = 'Debug';
+        expect(getActiveMSBuildProperties(options)).to.deep.equal({});
+    });
+
+    test('Properties are passed to the server as MSBuild options', () => {
+        expect(getServerPropertyArguments({ Configuration: 'Release', Platform: 'x64' }))
+            .to.deep.equal(['MsBuild:Configuration=Release', 'MsBuild:Platform=x64']);
+    });
+
+    test('Semicolons in property values are escaped on the command line', () => {
+        expect(getCommandLinePropertyArguments({ DefineConstants: 'TRACE;LINUX' }))
+            .to.deep.equal(['/property:DefineConstants=TRACE%3BLINUX']);
+    });
+
+    test('The output folder depends on the configuration and platform', () => {
+        expect(getOutputFolder({})).to.equal('bin/Debug');
+        expect(getOutputFolder({ Configuration: 'Release', Platform: 'AnyCPU' })).to.equal('bin/Release');
+        expect(getOutputFolder({ Configuration: 'Release', Platform: 'x64' })).to.equal('bin/x64/Release');
+    });
+});
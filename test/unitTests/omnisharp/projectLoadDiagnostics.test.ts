@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { MSBuildDiagnosticsMessage } from '../../../src/omnisharp/protocol';
+import { ProjectLoadDiagnosticTracker } from '../../../src/omnisharp/projectLoadDiagnostics';
+
+suite(`${ProjectLoadDiagnosticTracker.name}`, () => {
+    const propsError: MSBuildDiagnosticsMessage = {
+        LogLevel: 'Error',
+        FileName: '/work/Directory.Build.props',
+        Text: 'The imported project was not found.',
+        StartLine: 3,
+        StartColumn: 5,
+        EndLine: 0,
+        EndColumn: 0
+    };
+
+    let tracker: ProjectLoadDiagnosticTracker;
+
+    setup(() => {
+        tracker = new ProjectLoadDiagnosticTracker();
+    });
+
+    test('Diagnostics are reported at their file with zero-based positions', () => {
+        tracker.update({ FileName: '/work/App/App.csproj', Errors: [propsError], Warnings: [] });
+
+        const diagnostics = tracker.getDiagnosticsByFile().get('/work/Directory.Build.props');
+        expect(diagnostics).to.have.lengthOf(1);
+        expect(diagnostics[0]).to.include({ severity: 'error', projectPath: '/work/App/App.csproj', startLine: 2, startColumn: 4, endLine: 2, endColumn: 4 });
+    });
+
+    test('Diagnostics without a file are reported at the project', () => {
+        tracker.update({ FileName: '/work/App/App.csproj', Errors: [], Warnings: [{ ...propsError, LogLevel: 'Warning', FileName: '' }] });
+
+        expect(Array.from(tracker.getDiagnosticsByFile().keys())).to.deep.equal(['/work/App/App.csproj']);
+        expect(tracker.getFailedProjects()).to.be.empty;
+    });
+
+    test('A diagnostic of a file imported by several projects is reported once', () => {
+        tracker.update({ FileName: '/work/App/App.csproj', Errors: [propsError], Warnings: [] });
+        tracker.update({ FileName: '/work/Lib/Lib.csproj', Errors: [propsError], Warnings: [] });
+
+        expect(tracker.getDiagnosticsByFile().get('/work/Directory.Build.props')).to.have.lengthOf(1);
+        expect(tracker.getFailedProjects().map(project => project.projectPath)).to.deep.equal(['/work/App/App.csproj', '/work/Lib/Lib.csproj']);
+    });
+
+    test('Clearing a launch target keeps the diagnostics of the other launch targets', () => {
+        tracker.update({ FileName: '/work/App/App.csproj', Errors: [propsError], Warnings: [] }, '/work/App');
+        tracker.update({ FileName: '/work/Lib/Lib.csproj', Errors: [propsError], Warnings: [] }, '/work/Lib');
+
+        tracker.clear('/work/App');
+
+        expect(tracker.getFailedProjects().map(project => project.projectPath)).to.deep.equal(['/work/Lib/Lib.csproj']);
+    });
+
+    test('Diagnostics are cleared when the project reloads cleanly', () => {
+        tracker.update({ FileName: '/work/App/App.csproj', Errors: [propsError], Warnings: [] });
+        tracker.update({ FileName: '/work/App/App.csproj', Errors: [], Warnings: [] });
+
+        expect(tracker.getDiagnosticsByFile().size).to.equal(0);
+        expect(tracker.getFailedProjects()).to.be.empty;
+    });
+});
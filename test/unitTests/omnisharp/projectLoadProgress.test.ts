@@ -0,0 +1,37 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import * as path from 'path';
+import { ProjectLoadProgress } from '../../../src/omnisharp/projectLoadProgress';
+
+suite(`${ProjectLoadProgress.name}`, () => {
+    const app = path.resolve('/work/App/App.csproj');
+    const lib = path.resolve('/work/Lib/Lib.csproj');
+
+    test('Projects that were not reported as loaded are pending', () => {
+        const progress = new ProjectLoadProgress();
+        progress.markLoaded(app);
+        progress.setExpectedProjects([app, lib]);
+
+        expect(progress.getPendingProjects()).to.deep.equal([lib]);
+        expect(progress.loadedProjectCount).to.equal(1);
+    });
+
+    test('Paths are compared after normalization', () => {
+        const progress = new ProjectLoadProgress();
+        progress.setExpectedProjects([path.join(path.resolve('/work/App'), '..', 'Lib', 'Lib.csproj')]);
+        progress.markLoaded(lib);
+
+        expect(progress.getPendingProjects()).to.deep.equal([]);
+    });
+
+    test('Pending projects are unknown without the expected projects', () => {
+        const progress = new ProjectLoadProgress();
+        progress.markLoaded(app);
+
+        expect(progress.getPendingProjects()).to.equal(undefined);
+    });
+});
@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { expect } from 'chai';
+import { MSBuildProject } from '../../../src/omnisharp/protocol';
+import { createSolutionNode, getProjectChildren, getSourceFolders } from '../../../src/omnisharp/projectTree';
+
+suite('Project tree', () => {
+    const root = path.resolve('/work');
+
+    function createProject(name: string, sourceFiles: string[] = []): MSBuildProject {
+        const directory = path.join(root, name);
+        return <MSBuildProject>{
+            Path: path.join(directory, `${name}.csproj`),
+            SourceFiles: sourceFiles.map(file => path.join(directory, file)),
+            TargetFrameworks: [
+                { Name: '.NETCoreApp,Version=v6.0', FriendlyName: '.NET 6.0', ShortName: 'net6.0' },
+                { Name: '.NETStandard,Version=v2.0', FriendlyName: '.NET Standard 2.0', ShortName: 'netstandard2.0' }
+            ]
+        };
+    }
+
+    test('The solution node lists its projects by name', () => {
+        const solution = createSolutionNode({
+            MsBuild: {
+                SolutionPath: path.join(root, 'app.sln'),
+                Projects: [createProject('Web'), createProject('Core')]
+            }
+        });
+
+        expect(solution.label).to.equal('app.sln');
+        expect(solution.children.map(project => project.label)).to.deep.equal(['Core', 'Web']);
+        expect(solution.children[0].description).to.equal('net6.0, netstandard2.0');
+    });
+
+    test('There is no solution node without MSBuild projects', () => {
+        expect(createSolutionNode({})).to.be.undefined;
+        expect(createSolutionNode({ MsBuild: { SolutionPath: '', Projects: [] } })).to.be.undefined;
+    });
+
+    test('A project lists its frameworks, references and source folders', () => {
+        const project = createProject('Web', ['Program.cs']);
+        const children = getProjectChildren(project, [path.join(root, 'Core', 'Core.csproj')]);
+
+        expect(children.map(child => child.kind)).to.deep.equal(['frameworks', 'references', 'sourceFolder']);
+        expect(children[0].children.map(framework => framework.label)).to.deep.equal(['net6.0', 'netstandard2.0']);
+        expect(children[1].children[0]).to.include({ label: 'Core', description: path.join('..', 'Core', 'Core.csproj') });
+    });
+
+    test('The references node is left out for projects without references', () => {
+        const children = getProjectChildren(createProject('Core'), []);
+
+        expect(children.map(child => child.kind)).to.deep.equal(['frameworks']);
+    });
+
+    test('Source files are grouped by folder', () => {
+        const project = createProject('Web', ['Program.cs', path.join('Controllers', 'B.cs'), path.join('Controllers', 'A.cs'), path.join('..', 'obj', 'Generated.cs')]);
+        const folders = getSourceFolders(project);
+
+        expect(folders.map(folder => folder.label)).to.deep.equal(['Web', 'Controllers']);
+        expect(folders[1].children.map(file => file.label)).to.deep.equal(['A.cs', 'B.cs']);
+    });
+});
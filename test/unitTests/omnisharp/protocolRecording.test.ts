@@ -0,0 +1,55 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { expect } from 'chai';
+import { CreateTmpDir, TmpAsset } from '../../../src/CreateTmpAsset';
+import { ProtocolRecorder, readRecording } from '../../../src/omnisharp/protocolRecording';
+
+suite(`${ProtocolRecorder.name}`, () => {
+    let tmpDir: TmpAsset;
+    let recordingPath: string;
+
+    setup(async () => {
+        tmpDir = await CreateTmpDir(true);
+        recordingPath = path.join(tmpDir.name, 'recording.jsonl');
+    });
+
+    teardown(() => {
+        tmpDir.dispose();
+    });
+
+    test('Recorded packets are read back in order with timestamps', () => {
+        const recorder = new ProtocolRecorder(recordingPath, () => { });
+        recorder.record({ Type: 'request', Seq: 1 });
+        recorder.record({ Type: 'response', Seq: 2 });
+        recorder.dispose();
+
+        const recording = readRecording(recordingPath);
+
+        expect(recording.map(r => r.packet)).to.deep.equal([{ Type: 'request', Seq: 1 }, { Type: 'response', Seq: 2 }]);
+        expect(Date.parse(recording[0].timestamp)).to.not.be.NaN;
+    });
+
+    test('Every session replaces the existing recording', () => {
+        const first = new ProtocolRecorder(recordingPath, () => { });
+        first.record({ Type: 'event', Seq: 1 });
+        first.dispose();
+
+        const second = new ProtocolRecorder(recordingPath, () => { });
+        second.record({ Type: 'event', Seq: 2 });
+        second.dispose();
+
+        expect(readRecording(recordingPath).map(r => r.packet)).to.deep.equal([{ Type: 'event', Seq: 2 }]);
+    });
+
+    test('Packets recorded after disposal are ignored', () => {
+        const recorder = new ProtocolRecorder(recordingPath, () => { });
+        recorder.dispose();
+        recorder.record({ Type: 'event', Seq: 1 });
+
+        expect(readRecording(recordingPath)).to.be.empty;
+    });
+});
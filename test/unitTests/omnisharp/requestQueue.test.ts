@@ -0,0 +1,271 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { EventStream } from '../../../src/EventStream';
+import { Request, RequestQueueCollection, RequestSupersededError, RequestTimeoutError } from '../../../src/omnisharp/requestQueue';
+import * as protocol from '../../../src/omnisharp/protocol';
+
+suite(`${RequestQueueCollection.name}`, () => {
+    let sent: Request[];
+    let nextId: number;
+    let queue: RequestQueueCollection;
+
+    setup(() => {
+        sent = [];
+        nextId = 1;
+        queue = new RequestQueueCollection(new EventStream(), 8, request => {
+            request.id = nextId++;
+            sent.push(request);
+            return request.id;
+        });
+    });
+
+    function createRequest(command: string): Request {
+        return { command, onSuccess: () => { }, onError: () => { } };
+    }
+
+    test('Waiting requests are sent again after being requeued', () => {
+        const request = createRequest(protocol.Requests.Completion);
+        queue.enqueue(request);
+        expect(request.id).to.equal(1);
+
+        queue.requeueWaiting();
+        queue.drain();
+
+        expect(sent).to.deep.equal([request, request]);
+        expect(request.id).to.equal(2);
+        expect(queue.dequeue(protocol.Requests.Completion, 1)).to.be.undefined;
+        expect(queue.dequeue(protocol.Requests.Completion, 2)).to.equal(request);
+    });
+
+    test('Requeued requests are sent before requests that were still pending', () => {
+        const first = createRequest(protocol.Requests.UpdateBuffer);
+        const second = createRequest(protocol.Requests.UpdateBuffer);
+        queue.enqueue(first);
+        queue.enqueue(second);
+        expect(sent).to.deep.equal([first]);
+
+        queue.requeueWaiting();
+        queue.drain();
+
+        expect(sent).to.deep.equal([first, first]);
+    });
+
+    test('Waiting requests are rejected when the connection is lost and free their slot', () => {
+        let error: any;
+        const request: Request = { ...createRequest(protocol.Requests.UpdateBuffer), onError: err => error = err };
+        const next = createRequest(protocol.Requests.UpdateBuffer);
+        queue.enqueue(request);
+        queue.enqueue(next);
+
+        const lost = new Error('lost');
+        queue.rejectWaiting(lost);
+
+        expect(error).to.equal(lost);
+        expect(queue.dequeue(protocol.Requests.UpdateBuffer, 1)).to.be.undefined;
+        expect(sent).to.deep.equal([request, next]);
+    });
+
+    test('Requests waiting longer than their timeout are rejected and free their slot', () => {
+        let error: any;
+        const request: Request = { ...createRequest(protocol.Requests.UpdateBuffer), onError: err => error = err, timeout: 1000 };
+        const next = createRequest(protocol.Requests.UpdateBuffer);
+        queue.enqueue(request);
+        queue.enqueue(next);
+
+        queue.reapExpired(request.startTime + 999);
+        expect(error).to.be.undefined;
+        expect(sent).to.deep.equal([request]);
+
+        queue.reapExpired(request.startTime + 1000);
+        expect(error).to.be.instanceOf(RequestTimeoutError);
+        expect(error.command).to.equal(protocol.Requests.UpdateBuffer);
+        expect(queue.dequeue(protocol.Requests.UpdateBuffer, 1)).to.be.undefined;
+        expect(sent).to.deep.equal([request, next]);
+    });
+
+    test('Requests without a timeout are never reaped', () => {
+        const request = createRequest(protocol.Requests.Completion);
+        queue.enqueue(request);
+
+        queue.reapExpired(Number.MAX_SAFE_INTEGER);
+
+        expect(queue.dequeue(protocol.Requests.Completion, 1)).to.equal(request);
+    });
+
+    suite('Coalescing', () => {
+        function createCodeCheck(fileName: string, onSuccess: (value: any) => void = () => { }, onError: (err: any) => void = () => { }): Request {
+            return { command: protocol.Requests.CodeCheck, data: { FileName: fileName }, onSuccess, onError };
+        }
+
+        setup(() => {
+            // Fill the deferred queue so that following requests stay pending.
+            queue.enqueue(createCodeCheck('busy1.cs'));
+            queue.enqueue(createCodeCheck('busy2.cs'));
+            sent = [];
+        });
+
+        function completeBusyRequests() {
+            queue.dequeue(protocol.Requests.CodeCheck, 1);
+            queue.dequeue(protocol.Requests.CodeCheck, 2);
+            queue.drain();
+        }
+
+        test('Identical pending requests share one request', () => {
+            const results: string[] = [];
+            queue.enqueue(createCodeCheck('a.cs', value => results.push(`first ${value}`)));
+            queue.enqueue(createCodeCheck('a.cs', value => results.push(`second ${value}`)));
+
+            completeBusyRequests();
+            expect(sent).to.have.lengthOf(1);
+
+            queue.dequeue(protocol.Requests.CodeCheck, sent[0].id).onSuccess('done');
+            expect(results).to.deep.equal(['first done', 'second done']);
+        });
+
+        test('A newer request supersedes a pending one for the same file', () => {
+            const results: string[] = [];
+            let olderError: any;
+            queue.enqueue({ ...createCodeCheck('a.cs', value => results.push(`older ${value}`), err => olderError = err), data: { FileName: 'a.cs', Buffer: 'old' } });
+            queue.enqueue({ ...createCodeCheck('a.cs', value => results.push(`newer ${value}`)), data: { FileName: 'a.cs', Buffer: 'new' } });
+            expect(olderError).to.be.instanceOf(RequestSupersededError);
+
+            completeBusyRequests();
+            expect(sent).to.have.lengthOf(1);
+            expect(sent[0].data.Buffer).to.equal('new');
+
+            queue.dequeue(protocol.Requests.CodeCheck, sent[0].id).onSuccess('done');
+            expect(results).to.deep.equal(['newer done']);
+        });
+
+        test('Superseding rejects every request that shared the pending one', () => {
+            const errors: any[] = [];
+            queue.enqueue({ ...createCodeCheck('a.cs', undefined, err => errors.push(err)), data: { FileName: 'a.cs', Buffer: 'old' } });
+            queue.enqueue({ ...createCodeCheck('a.cs', undefined, err => errors.push(err)), data: { FileName: 'a.cs', Buffer: 'old' } });
+            queue.enqueue({ ...createCodeCheck('a.cs'), data: { FileName: 'a.cs', Buffer: 'new' } });
+
+            expect(errors).to.have.lengthOf(2);
+            errors.forEach(err => expect(err).to.be.instanceOf(RequestSupersededError));
+        });
+
+        test('Requests for different ranges of a file are not coalesced', () => {
+            const range = { Start: { Line: 0, Column: 0 }, End: { Line: 10, Column: 0 } };
+            queue.enqueue({ ...createRequest(protocol.V2.Requests.Highlight), data: { FileName: 'a.cs' } });
+            queue.enqueue({ ...createRequest(protocol.V2.Requests.Highlight), data: { FileName: 'a.cs', Range: range } });
+
+            completeBusyRequests();
+            expect(sent).to.have.lengthOf(2);
+        });
+
+        test('Requests for different files are not coalesced', () => {
+            queue.enqueue(createCodeCheck('a.cs'));
+            queue.enqueue(createCodeCheck('b.cs'));
+
+            completeBusyRequests();
+            expect(sent).to.have.lengthOf(2);
+        });
+
+        test('Cancelling one of the coalesced requests keeps the others', () => {
+            const cancelled = createCodeCheck('a.cs');
+            let result: string;
+            queue.enqueue(cancelled);
+            queue.enqueue(createCodeCheck('a.cs', value => result = value));
+
+            queue.cancelRequest(cancelled);
+            completeBusyRequests();
+            expect(sent).to.have.lengthOf(1);
+
+            queue.dequeue(protocol.Requests.CodeCheck, sent[0].id).onSuccess('done');
+            expect(result).to.equal('done');
+        });
+
+        test('Cancelling all of the coalesced requests after they were sent frees their slot', () => {
+            const first = createCodeCheck('a.cs');
+            const second = createCodeCheck('a.cs');
+            queue.enqueue(first);
+            queue.enqueue(second);
+            completeBusyRequests();
+            const id = sent[0].id;
+
+            queue.cancelRequest(first);
+            expect(queue.getDepths()[2].waiting).to.equal(1);
+
+            queue.cancelRequest(second);
+            expect(queue.getDepths()[2].waiting).to.equal(0);
+            expect(queue.dequeue(protocol.Requests.CodeCheck, id)).to.be.undefined;
+        });
+
+        test('Commands that are not supersedable are never coalesced', () => {
+            queue.enqueue(createRequest(protocol.Requests.UpdateBuffer));
+            queue.enqueue(createRequest(protocol.Requests.UpdateBuffer));
+            queue.dequeue(protocol.Requests.UpdateBuffer, sent[0].id);
+            queue.drain();
+
+            expect(sent).to.have.lengthOf(2);
+        });
+    });
+
+    suite('Prioritization', () => {
+        const options = {
+            concurrency: { priority: 1, normal: 8, deferred: 1 },
+            priorities: {},
+            agingThreshold: 10000
+        };
+
+        function createRequestFor(command: string, fileName: string): Request {
+            return { ...createRequest(command), data: { FileName: fileName } };
+        }
+
+        test('Concurrency limits can be configured', () => {
+            queue.configure({ ...options, concurrency: { priority: 2, normal: 8, deferred: 1 } });
+            queue.enqueue(createRequest(protocol.Requests.UpdateBuffer));
+            queue.enqueue(createRequest(protocol.Requests.UpdateBuffer));
+
+            expect(sent).to.have.lengthOf(2);
+        });
+
+        test('Overridden commands are sent with their configured priority', () => {
+            queue.configure({ ...options, priorities: { [protocol.Requests.CodeCheck]: 'normal' } });
+            queue.enqueue(createRequestFor(protocol.Requests.CodeCheck, 'a.cs'));
+            queue.enqueue(createRequestFor(protocol.Requests.CodeCheck, 'b.cs'));
+
+            expect(sent).to.have.lengthOf(2);
+        });
+
+        test('Deferred requests pending longer than the aging threshold are promoted', () => {
+            queue.configure(options);
+            queue.enqueue(createRequestFor(protocol.Requests.CodeCheck, 'a.cs'));
+            const aged = createRequestFor(protocol.Requests.CodeCheck, 'b.cs');
+            queue.enqueue(aged);
+            expect(sent).to.have.lengthOf(1);
+
+            queue.promoteAgedRequests(aged.enqueueTime + 9999);
+            expect(sent).to.have.lengthOf(1);
+
+            queue.promoteAgedRequests(aged.enqueueTime + 10000);
+            expect(sent).to.deep.equal([sent[0], aged]);
+            expect(queue.dequeue(protocol.Requests.CodeCheck, aged.id)).to.equal(aged);
+        });
+
+        test('Deferred requests are never promoted when aging is disabled', () => {
+            queue.configure({ ...options, agingThreshold: 0 });
+            queue.enqueue(createRequestFor(protocol.Requests.CodeCheck, 'a.cs'));
+            queue.enqueue(createRequestFor(protocol.Requests.CodeCheck, 'b.cs'));
+
+            queue.promoteAgedRequests(Number.MAX_SAFE_INTEGER);
+            expect(sent).to.have.lengthOf(1);
+        });
+
+        test('Requests for the active document are not deferred', () => {
+            queue.configure({ ...options, getActiveDocument: () => 'active.cs' });
+            queue.enqueue(createRequestFor(protocol.Requests.CodeCheck, 'a.cs'));
+            queue.enqueue(createRequestFor(protocol.Requests.CodeCheck, 'b.cs'));
+            queue.enqueue(createRequestFor(protocol.Requests.CodeCheck, 'active.cs'));
+
+            expect(sent.map(request => request.data.FileName)).to.deep.equal(['a.cs', 'active.cs']);
+        });
+    });
+});
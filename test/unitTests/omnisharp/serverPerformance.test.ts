@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { formatPerformanceReports, ServerPerformanceTracker } from '../../../src/omnisharp/serverPerformance';
+
+suite(`${ServerPerformanceTracker.name}`, () => {
+    let tracker: ServerPerformanceTracker;
+
+    setup(() => {
+        tracker = new ServerPerformanceTracker();
+    });
+
+    test('Latencies are aggregated per command', () => {
+        tracker.reportRequest('/completion', 10);
+        tracker.reportRequest('/completion', 30);
+        tracker.reportRequest('/codecheck', 4000);
+
+        const [completion, codeCheck] = tracker.getCommandPerformance();
+
+        expect(completion).to.include({ command: '/completion', count: 2, averageTime: 20, maxTime: 30 });
+        expect(completion.delays).to.include({ immediateDelays: 1, nearImmediateDelays: 1 });
+        expect(codeCheck).to.include({ command: '/codecheck', count: 1, averageTime: 4000, maxTime: 4000 });
+        expect(codeCheck.delays).to.include({ bigDelays: 1 });
+    });
+
+    test('The slowest requests are returned slowest first', () => {
+        tracker.reportRequest('/completion', 10, 'a.cs');
+        tracker.reportRequest('/codecheck', 500, 'b.cs');
+        tracker.reportRequest('/signatureHelp', 100, 'c.cs');
+
+        const slowest = tracker.getSlowestRequests(2);
+
+        expect(slowest.map(request => request.fileName)).to.deep.equal(['b.cs', 'c.cs']);
+    });
+
+    test('Only the most recent requests are considered for the slowest requests', () => {
+        tracker.reportRequest('/codecheck', 10000);
+        for (let i = 0; i < 500; i++) {
+            tracker.reportRequest('/completion', 10);
+        }
+
+        expect(tracker.getSlowestRequests(1)[0].command).to.equal('/completion');
+        expect(tracker.getCommandPerformance()[1]).to.include({ command: '/codecheck', maxTime: 10000 });
+    });
+
+    test('Unsuccessful requests are measured along with their outcome', () => {
+        tracker.reportRequest('/codecheck', 30000, 'a.cs', 'timedOut');
+        tracker.reportRequest('/codecheck', 200, 'a.cs');
+
+        expect(tracker.getCommandPerformance()[0]).to.include({ command: '/codecheck', count: 2, failures: 1, maxTime: 30000 });
+        expect(tracker.getSlowestRequests(1)[0]).to.include({ elapsedTime: 30000, outcome: 'timedOut' });
+    });
+
+    test('Clearing removes all measures', () => {
+        tracker.reportRequest('/completion', 10);
+        tracker.clear();
+
+        expect(tracker.getCommandPerformance()).to.be.empty;
+        expect(tracker.getSlowestRequests()).to.be.empty;
+    });
+});
+
+suite('formatPerformanceReports', () => {
+    test('Lists the queues, commands and slowest requests of every server', () => {
+        const tracker = new ServerPerformanceTracker();
+        tracker.reportRequest('/completion', 42, 'a.cs');
+
+        const text = formatPerformanceReports([{
+            target: '/work/app.sln',
+            createdAt: '2021-01-01T00:00:00.000Z',
+            queues: [{ name: 'Normal', pending: 3, waiting: 8 }],
+            commands: tracker.getCommandPerformance(),
+            slowestRequests: tracker.getSlowestRequests()
+        }]);
+
+        expect(text).to.contain('## /work/app.sln');
+        expect(text).to.contain('| Normal | 3 | 8 |');
+        expect(text).to.contain('| /completion | 1 | 0 | 42 | 42 | 0 | 1 | 0 | 0 | 0 | 0 | 0 |');
+        expect(text).to.match(/\| \/completion \| a\.cs \| 42 \| succeeded \| .+ \|/);
+    });
+
+    test('Reports that no server is running', () => {
+        expect(formatPerformanceReports([])).to.contain('No OmniSharp server is running.');
+    });
+});
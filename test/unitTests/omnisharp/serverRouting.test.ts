@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { RoutedServer, selectServer } from '../../../src/omnisharp/serverRouting';
+
+suite(selectServer.name, () => {
+    interface FakeServer extends RoutedServer {
+        folder: string;
+        running: boolean;
+    }
+
+    let primary: FakeServer;
+    let secondary: FakeServer;
+    let servers: FakeServer[];
+
+    function createServer(folder: string): FakeServer {
+        const server: FakeServer = { folder, running: true, isRunning: () => server.running };
+        return server;
+    }
+
+    function getServerForPath(fileName: string): FakeServer | undefined {
+        return servers.find(server => fileName.startsWith(`${server.folder}/`));
+    }
+
+    setup(() => {
+        primary = createServer('/work/App');
+        secondary = createServer('/work/Lib');
+        servers = [primary, secondary];
+    });
+
+    test('Requests about a file go to the server of its workspace folder', () => {
+        expect(selectServer({ FileName: '/work/Lib/Calculator.cs' }, primary, servers, getServerForPath)).to.equal(secondary);
+        expect(selectServer({ FileName: '/work/App/Program.cs' }, primary, servers, getServerForPath)).to.equal(primary);
+    });
+
+    test('Requests that name the file in lower case are routed too', () => {
+        expect(selectServer({ fileName: '/work/Lib/Calculator.cs' }, primary, servers, getServerForPath)).to.equal(secondary);
+    });
+
+    test('Requests about a file outside of the workspace folders are left to the primary server', () => {
+        expect(selectServer({ FileName: '/other/Script.cs' }, primary, servers, getServerForPath)).to.equal(undefined);
+    });
+
+    test('Requests about a file of a stopped server are not answered by another server', () => {
+        secondary.running = false;
+        expect(selectServer({ FileName: '/work/Lib/Calculator.cs' }, primary, servers, getServerForPath)).to.equal(secondary);
+    });
+
+    test('Workspace-wide requests go to the primary server while it runs', () => {
+        expect(selectServer({ Filter: 'Calc' }, primary, servers, getServerForPath)).to.equal(primary);
+        expect(selectServer(undefined, primary, servers, getServerForPath)).to.equal(primary);
+    });
+
+    test('Workspace-wide requests go to a running server while the primary one is stopped', () => {
+        primary.running = false;
+        expect(selectServer({ Filter: 'Calc' }, primary, servers, getServerForPath)).to.equal(secondary);
+
+        secondary.running = false;
+        expect(selectServer({ Filter: 'Calc' }, primary, servers, getServerForPath)).to.equal(undefined);
+    });
+});
@@ -0,0 +1,181 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as net from 'net';
+import { use as chaiUse, expect } from 'chai';
+import { parseServerAddress, ReplayTransport, SocketTransport } from '../../../src/omnisharp/serverTransport';
+import { RecordedPacket } from '../../../src/omnisharp/protocolRecording';
+
+chaiUse(require('chai-as-promised'));
+
+suite('parseServerAddress', () => {
+    [
+        { address: 'localhost:2000', expected: { host: 'localhost', port: 2000 } },
+        { address: 'tcp://10.0.0.5:2000', expected: { host: '10.0.0.5', port: 2000 } },
+        { address: '[::1]:2000', expected: { host: '::1', port: 2000 } },
+        { address: '2000', expected: { host: 'localhost', port: 2000 } },
+        { address: 'unix:///tmp/omnisharp.sock', expected: { path: '/tmp/omnisharp.sock' } },
+        { address: '/tmp/omnisharp.sock', expected: { path: '/tmp/omnisharp.sock' } },
+        { address: '\\\\.\\pipe\\omnisharp', expected: { path: '\\\\.\\pipe\\omnisharp' } },
+    ].forEach(data => {
+        test(`Parses '${data.address}'`, () => {
+            expect(parseServerAddress(data.address)).to.deep.equal(data.expected);
+        });
+    });
+
+    test('Throws for a TCP address without a port', () => {
+        expect(() => parseServerAddress('tcp://localhost')).to.throw();
+    });
+});
+
+suite(`${SocketTransport.name}`, () => {
+    let server: net.Server;
+    let connections: net.Socket[];
+    let port: number;
+
+    setup(async () => {
+        connections = [];
+        server = net.createServer(socket => connections.push(socket));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        port = (<net.AddressInfo>server.address()).port;
+    });
+
+    teardown(async () => {
+        connections.forEach(socket => socket.destroy());
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    test('Lines written by the server are received and written lines are sent', async () => {
+        const transport = new SocketTransport(`127.0.0.1:${port}`, { maxAttempts: 0, delay: 1 });
+        await transport.connect();
+
+        const received = new Promise<string>(resolve => transport.onLine(resolve));
+        const sent = new Promise<string>(resolve => connections[0].once('data', data => resolve(data.toString())));
+
+        connections[0].write('{"Type":"event"}\n');
+        transport.write('{"Type":"request"}\n');
+
+        expect(await received).to.equal('{"Type":"event"}');
+        expect(await sent).to.equal('{"Type":"request"}\n');
+
+        await transport.stop();
+    });
+
+    test('Reconnects when the connection is lost', async () => {
+        const transport = new SocketTransport(`127.0.0.1:${port}`, { maxAttempts: 2, delay: 1 });
+        await transport.connect();
+
+        const reconnected = new Promise<void>(resolve => server.once('connection', () => resolve()));
+        connections[0].destroy();
+        await reconnected;
+
+        expect(connections).to.have.lengthOf(2);
+        await transport.stop();
+    });
+
+    test('Reports the lost connection before reconnecting', async () => {
+        const transport = new SocketTransport(`127.0.0.1:${port}`, { maxAttempts: 2, delay: 1 });
+        await transport.connect();
+
+        const disconnected = new Promise<Error>(resolve => transport.onDisconnected(resolve));
+        const reconnected = new Promise<void>(resolve => server.once('connection', () => resolve()));
+        connections[0].destroy();
+
+        expect(await disconnected).to.be.an('error');
+        await reconnected;
+        await transport.stop();
+    });
+
+    test('Reports the transport as closed once the reconnect attempts are exhausted', async () => {
+        const transport = new SocketTransport(`127.0.0.1:${port}`, { maxAttempts: 2, delay: 1 });
+        await transport.connect();
+
+        let attempts = 0;
+        transport.onReconnecting(attempt => attempts = attempt);
+        const closed = new Promise<Error>(resolve => transport.onClosed(resolve));
+
+        server.close();
+        connections[0].destroy();
+
+        expect(await closed).to.be.an('error');
+        expect(attempts).to.equal(2);
+
+        server = net.createServer();
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    });
+
+    test('Rejects when the server cannot be reached', async () => {
+        const transport = new SocketTransport(`127.0.0.1:${port}`, { maxAttempts: 0, delay: 1 });
+        await new Promise<void>(resolve => server.close(() => resolve()));
+
+        await expect(transport.connect()).to.be.rejected;
+
+        server = net.createServer();
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    });
+});
+
+suite(`${ReplayTransport.name}`, () => {
+    const timestamp = '2021-01-01T00:00:00.000Z';
+    const recording: RecordedPacket[] = [
+        { timestamp, packet: <any>{ Type: 'event', Seq: 1, Event: 'started', Body: null } },
+        { timestamp, packet: <any>{ Type: 'request', Seq: 1, Command: '/completion', Arguments: { Line: 1 } } },
+        { timestamp, packet: <any>{ Type: 'request', Seq: 2, Command: '/completion', Arguments: { Line: 2 } } },
+        { timestamp, packet: <any>{ Type: 'response', Seq: 2, Command: '/completion', Request_seq: 2, Success: true, Body: 'second' } },
+        { timestamp, packet: <any>{ Type: 'response', Seq: 3, Command: '/completion', Request_seq: 1, Success: true, Body: 'first' } },
+        { timestamp, packet: <any>{ Type: 'event', Seq: 4, Event: 'Diagnostic', Body: null } },
+    ];
+
+    async function replay(transport: ReplayTransport, request: any, count: number): Promise<any[]> {
+        const packets: any[] = [];
+        const received = new Promise<void>(resolve => transport.onLine(line => {
+            packets.push(JSON.parse(line));
+            if (packets.length === count) {
+                resolve();
+            }
+        }));
+
+        transport.write(JSON.stringify(request) + '\n');
+        await received;
+        return packets;
+    }
+
+    test('Events recorded before the first response are replayed right away', async () => {
+        const transport = new ReplayTransport(recording);
+        const line = await new Promise<string>(resolve => transport.onLine(resolve));
+
+        expect(JSON.parse(line).Event).to.equal('started');
+        await transport.stop();
+    });
+
+    test('Requests are answered with the response to the request with the same arguments', async () => {
+        const transport = new ReplayTransport(recording);
+
+        const packets = await replay(transport, { Type: 'request', Seq: 10, Command: '/completion', Arguments: { Line: 1 } }, 3);
+
+        expect(packets[1]).to.include({ Type: 'response', Request_seq: 10, Body: 'first' });
+        expect(packets[2]).to.include({ Type: 'event', Event: 'Diagnostic' });
+        await transport.stop();
+    });
+
+    test('Requests with unknown arguments are answered with the first response to the same command that was not replayed', async () => {
+        const transport = new ReplayTransport(recording);
+
+        await replay(transport, { Type: 'request', Seq: 10, Command: '/completion', Arguments: { Line: 1 } }, 3);
+        const packets = await replay(transport, { Type: 'request', Seq: 11, Command: '/completion', Arguments: { Line: 42 } }, 1);
+
+        expect(packets[0]).to.include({ Type: 'response', Request_seq: 11, Body: 'second' });
+        await transport.stop();
+    });
+
+    test('Requests for commands that were not recorded fail', async () => {
+        const transport = new ReplayTransport(recording);
+
+        const packets = await replay(transport, { Type: 'request', Seq: 10, Command: '/rename', Arguments: {} }, 2);
+
+        expect(packets[1]).to.include({ Type: 'response', Request_seq: 10, Success: false });
+        await transport.stop();
+    });
+});
@@ -0,0 +1,110 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import { EventStream } from '../../../src/EventStream';
+import { EventType } from '../../../src/omnisharp/EventType';
+import { BaseEvent, OmnisharpServerUnresponsive } from '../../../src/omnisharp/loggingEvents';
+import { ServerWatchdog } from '../../../src/omnisharp/serverWatchdog';
+
+suite(`${ServerWatchdog.name}`, () => {
+    let events: BaseEvent[];
+    let probes: { resolve: () => void, reject: (err: any) => void }[];
+    let lastResponseTime: number;
+    let watchdog: ServerWatchdog;
+
+    function addProbe(resolve: () => void, reject: (err: any) => void) {
+        probes.push({ resolve, reject });
+    }
+
+    // Lets the watchdog observe a settled probe.
+    async function flush(): Promise<void> {
+        return new Promise<void>(resolve => setImmediate(resolve));
+    }
+
+    setup(() => {
+        events = [];
+        probes = [];
+        lastResponseTime = 0;
+
+        const eventStream = new EventStream();
+        eventStream.subscribe(event => events.push(event));
+
+        watchdog = new ServerWatchdog(
+            '/work/app.sln',
+            1000,
+            5000,
+            async () => new Promise<void>((resolve, reject) => addProbe(resolve, reject)),
+            () => lastResponseTime,
+            () => [{ name: 'Normal', pending: 2, waiting: 8 }],
+            eventStream);
+    });
+
+    test('Probes are sent at the configured interval while none is outstanding', async () => {
+        watchdog.check(1000);
+        watchdog.check(1500);
+        expect(probes).to.have.lengthOf(1);
+
+        lastResponseTime = 1200;
+        probes[0].resolve();
+        await flush();
+
+        watchdog.check(1900);
+        expect(probes).to.have.lengthOf(1);
+        watchdog.check(2000);
+        expect(probes).to.have.lengthOf(2);
+    });
+
+    test('A server that answers neither the probe nor any other request is reported as unresponsive', () => {
+        watchdog.check(1000);
+        watchdog.check(5999);
+        expect(watchdog.isUnresponsive).to.be.false;
+
+        watchdog.check(6000);
+        expect(watchdog.isUnresponsive).to.be.true;
+
+        const event = <OmnisharpServerUnresponsive>events.find(e => e.type === EventType.OmnisharpServerUnresponsive);
+        expect(event.target).to.equal('/work/app.sln');
+        expect(event.silentTime).to.equal(5000);
+        expect(event.queues).to.deep.equal([{ name: 'Normal', pending: 2, waiting: 8 }]);
+    });
+
+    test('A busy server that still answers other requests is not reported as unresponsive', () => {
+        watchdog.check(1000);
+        lastResponseTime = 5500;
+        watchdog.check(6000);
+
+        expect(watchdog.isUnresponsive).to.be.false;
+        expect(events).to.be.empty;
+    });
+
+    test('The server is reported as responsive again once the probe is answered', async () => {
+        watchdog.check(1000);
+        watchdog.check(6000);
+
+        probes[0].resolve();
+        await flush();
+
+        expect(watchdog.isUnresponsive).to.be.false;
+        expect(events.map(e => e.type)).to.deep.equal([EventType.OmnisharpServerUnresponsive, EventType.OmnisharpServerResponsive]);
+    });
+
+    test('A failed probe is sent again later', async () => {
+        watchdog.check(1000);
+        probes[0].reject(new Error('OmniSharp server is not running.'));
+        await flush();
+
+        watchdog.check(2000);
+        expect(probes).to.have.lengthOf(2);
+        expect(events).to.be.empty;
+    });
+
+    test('Probes are disabled with an interval of 0', () => {
+        const disabled = new ServerWatchdog('/work/app.sln', 0, 5000, async () => Promise.resolve(), () => 0, () => [], new EventStream());
+        disabled.check(Number.MAX_SAFE_INTEGER);
+
+        expect(disabled.getHealth().outstandingProbeTime).to.be.undefined;
+    });
+});
@@ -0,0 +1,114 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { expect } from 'chai';
+import { CreateTmpDir, TmpAsset } from '../../../src/CreateTmpAsset';
+import { addTransitiveReferences, createSolutionText, getSolutionFilterPath, readSolutionFilterProjects, readSolutionProjects, writeProjectsSolution, writeSolutionFilter } from '../../../src/omnisharp/solutionFile';
+
+suite('solutionFile', () => {
+    let tmpDir: TmpAsset;
+
+    setup(async () => {
+        tmpDir = await CreateTmpDir(true);
+    });
+
+    teardown(() => {
+        tmpDir.dispose();
+    });
+
+    test('The solution references every project by its absolute path', () => {
+        const text = createSolutionText(['/work/App/App.csproj', '/work/Lib/Lib.csproj']);
+
+        expect(text).to.contain('Microsoft Visual Studio Solution File, Format Version 12.00');
+        expect(text).to.match(/Project\("\{[0-9A-F-]+\}"\) = "App", "\/work\/App\/App.csproj", "\{[0-9A-F-]+\}"/);
+        expect(text).to.contain('"Lib", "/work/Lib/Lib.csproj"');
+    });
+
+    test('The same projects are written to the same solution regardless of their order', async () => {
+        const first = await writeProjectsSolution(['/work/App/App.csproj', '/work/Lib/Lib.csproj'], tmpDir.name);
+        const second = await writeProjectsSolution(['/work/Lib/Lib.csproj', '/work/App/App.csproj'], tmpDir.name);
+        const other = await writeProjectsSolution(['/work/App/App.csproj'], tmpDir.name);
+
+        expect(second).to.equal(first);
+        expect(other).to.not.equal(first);
+        expect(path.dirname(first)).to.equal(tmpDir.name);
+        expect(fs.readFileSync(first, 'utf8')).to.contain('/work/Lib/Lib.csproj');
+    });
+
+    suite('Solution filters', () => {
+        const folderGuid = '{2150E333-8FDC-42A3-9474-1A3956D46DE8}';
+        const projectGuid = '{9A19103F-16F7-4668-BE54-9A1E7A4F7556}';
+        let solutionPath: string;
+
+        function writeProject(relativePath: string, references: string[]) {
+            const projectPath = path.join(tmpDir.name, relativePath);
+            fs.mkdirSync(path.dirname(projectPath), { recursive: true });
+            fs.writeFileSync(projectPath, `<Project Sdk="Microsoft.NET.Sdk">
+  <ItemGroup>
+${references.map(reference => `    <ProjectReference Include="${reference}" />`).join('\n')}
+  </ItemGroup>
+</Project>`);
+            return projectPath;
+        }
+
+        setup(() => {
+            writeProject('src/App/App.csproj', ['..\\Lib\\Lib.csproj']);
+            writeProject('src/Lib/Lib.csproj', ['../Core/Core.csproj']);
+            writeProject('src/Core/Core.csproj', []);
+            writeProject('test/Tests/Tests.csproj', ['..\\..\\src\\App\\App.csproj']);
+
+            solutionPath = path.join(tmpDir.name, 'Big.sln');
+            fs.writeFileSync(solutionPath, [
+                'Microsoft Visual Studio Solution File, Format Version 12.00',
+                `Project("${folderGuid}") = "src", "src", "{00000000-0000-0000-0000-000000000001}"`,
+                'EndProject',
+                `Project("${projectGuid}") = "App", "src\\App\\App.csproj", "{00000000-0000-0000-0000-000000000002}"`,
+                'EndProject',
+                `Project("${projectGuid}") = "Lib", "src\\Lib\\Lib.csproj", "{00000000-0000-0000-0000-000000000003}"`,
+                'EndProject',
+                `Project("${projectGuid}") = "Core", "src\\Core\\Core.csproj", "{00000000-0000-0000-0000-000000000004}"`,
+                'EndProject',
+                `Project("${projectGuid}") = "Tests", "test\\Tests\\Tests.csproj", "{00000000-0000-0000-0000-000000000005}"`,
+                'EndProject',
+                'Global',
+                'EndGlobal'
+            ].join('\r\n'));
+        });
+
+        test('The projects of a solution are read without its solution folders', async () => {
+            const projects = await readSolutionProjects(solutionPath);
+
+            expect(projects.map(project => project.name)).to.deep.equal(['App', 'Lib', 'Core', 'Tests']);
+            expect(projects[0].path).to.equal(path.join(tmpDir.name, 'src', 'App', 'App.csproj'));
+        });
+
+        test('Transitive project references are added', async () => {
+            const app = path.join(tmpDir.name, 'src', 'App', 'App.csproj');
+
+            const projects = await addTransitiveReferences([app]);
+
+            expect(projects.sort()).to.deep.equal([
+                app,
+                path.join(tmpDir.name, 'src', 'Core', 'Core.csproj'),
+                path.join(tmpDir.name, 'src', 'Lib', 'Lib.csproj')
+            ].sort());
+        });
+
+        test('The filter lists the selected projects as written in the solution and can be read back', async () => {
+            const solutionProjects = await readSolutionProjects(solutionPath);
+            const filterPath = getSolutionFilterPath(solutionPath);
+
+            await writeSolutionFilter(filterPath, solutionPath, solutionProjects, [solutionProjects[1].path, '/elsewhere/Other.csproj']);
+
+            expect(path.basename(filterPath)).to.equal('Big.filtered.slnf');
+            expect(JSON.parse(fs.readFileSync(filterPath, 'utf8'))).to.deep.equal({
+                solution: { path: 'Big.sln', projects: ['src\\Lib\\Lib.csproj'] }
+            });
+            expect(await readSolutionFilterProjects(filterPath)).to.deep.equal([solutionProjects[1].path]);
+        });
+    });
+});
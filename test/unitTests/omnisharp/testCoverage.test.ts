@@ -0,0 +1,139 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import * as path from 'path';
+import { CoverageStore, createCoverageRunSettings, formatCoverageSummary, parseCoberturaReport } from '../../../src/omnisharp/testCoverage';
+
+suite('Test coverage', () => {
+    suite(createCoverageRunSettings.name, () => {
+        test('Creates RunSettings that enable the coverage data collector', () => {
+            const text = createCoverageRunSettings(undefined, '/tmp/coverage');
+
+            expect(text).to.contain('<RunConfiguration><ResultsDirectory>/tmp/coverage</ResultsDirectory></RunConfiguration>');
+            expect(text).to.contain('<DataCollectionRunSettings><DataCollectors><DataCollector friendlyName="XPlat Code Coverage">');
+            expect(text).to.match(/<\/DataCollectionRunSettings>\s*<\/RunSettings>/);
+        });
+
+        test('Extends the RunSettings of the user', () => {
+            const text = createCoverageRunSettings([
+                '<RunSettings>',
+                '  <RunConfiguration><ResultsDirectory>./TestResults</ResultsDirectory></RunConfiguration>',
+                '  <DataCollectionRunSettings><DataCollectors><DataCollector friendlyName="blame" /></DataCollectors></DataCollectionRunSettings>',
+                '</RunSettings>'
+            ].join('\n'), '/tmp/coverage');
+
+            expect(text).to.contain('<RunConfiguration><ResultsDirectory>/tmp/coverage</ResultsDirectory></RunConfiguration>');
+            expect(text).to.not.contain('./TestResults');
+            expect(text).to.match(/<DataCollector friendlyName="blame" \/><DataCollector friendlyName="XPlat Code Coverage">.*<\/DataCollector>\s*<\/DataCollectors>/);
+        });
+
+        test('Keeps the coverage data collector the user configured', () => {
+            const runSettings = '<RunSettings><DataCollectionRunSettings><DataCollectors><DataCollector friendlyName="XPlat Code Coverage"><Configuration><Format>cobertura</Format><Exclude>[*]Generated.*</Exclude></Configuration></DataCollector></DataCollectors></DataCollectionRunSettings></RunSettings>';
+            const text = createCoverageRunSettings(runSettings, '/tmp/coverage');
+
+            expect(text.match(/XPlat Code Coverage/g).length).to.equal(1);
+            expect(text).to.contain('<Exclude>[*]Generated.*</Exclude>');
+        });
+    });
+
+    suite(parseCoberturaReport.name, () => {
+        const report = `<?xml version="1.0" encoding="utf-8"?>
+<coverage line-rate="0.6" version="1.9">
+  <sources>
+    <source>/work/Lib/</source>
+  </sources>
+  <packages>
+    <package name="Lib" line-rate="0.6">
+      <classes>
+        <class name="Lib.Calculator" filename="Calculator.cs" line-rate="0.5">
+          <methods>
+            <method name="Add" signature="(System.Int32,System.Int32)">
+              <lines>
+                <line number="5" hits="3" branch="false" />
+              </lines>
+            </method>
+          </methods>
+          <lines>
+            <line number="5" hits="3" branch="false" />
+            <line number="9" hits="0" branch="true" condition-coverage="50% (1/2)" />
+          </lines>
+        </class>
+        <class name="Lib.Calculator/&lt;&gt;c" filename="Calculator.cs" line-rate="1">
+          <lines>
+            <line number="12" hits="1" branch="false" />
+          </lines>
+        </class>
+        <class name="Lib.Parser" filename="/work/Shared/Parser.cs" line-rate="1">
+          <lines>
+            <line number="3" hits="2" branch="false" />
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+
+        test('Returns the coverage of each file once', () => {
+            const files = parseCoberturaReport(report);
+
+            expect(files.map(file => file.fileName)).to.deep.equal([path.join('/work/Lib/', 'Calculator.cs'), '/work/Shared/Parser.cs']);
+            expect(files[0].projectName).to.equal('Lib');
+            expect(files[0].lines).to.deep.equal([{ line: 4, hits: 3 }, { line: 8, hits: 0 }, { line: 11, hits: 1 }]);
+        });
+
+        test('Returns no coverage for an empty report', () => {
+            expect(parseCoberturaReport('<coverage><packages /></coverage>')).to.deep.equal([]);
+        });
+    });
+
+    suite(`${CoverageStore.name}`, () => {
+        test('Summarizes the coverage per project and file', () => {
+            const store = new CoverageStore();
+            store.update([
+                { fileName: '/work/Lib/B.cs', projectName: 'Lib', lines: [{ line: 0, hits: 1 }, { line: 1, hits: 0 }] },
+                { fileName: '/work/Lib/A.cs', projectName: 'Lib', lines: [{ line: 0, hits: 2 }] },
+                { fileName: '/work/App/Program.cs', projectName: 'App', lines: [{ line: 0, hits: 0 }] }
+            ], /* runId */ 1);
+
+            const summary = store.getSummary();
+            expect(summary.map(project => project.projectName)).to.deep.equal(['App', 'Lib']);
+            expect(summary[1]).to.include({ coveredLines: 2, totalLines: 3 });
+            expect(summary[1].files.map(file => file.fileName)).to.deep.equal(['/work/Lib/A.cs', '/work/Lib/B.cs']);
+        });
+
+        test('Merges the reports of one run', () => {
+            const store = new CoverageStore();
+            store.update([{ fileName: '/work/Lib/A.cs', projectName: 'Lib', lines: [{ line: 0, hits: 1 }, { line: 1, hits: 0 }] }], /* runId */ 1);
+            store.update([{ fileName: '/work/Lib/A.cs', projectName: 'Lib', lines: [{ line: 1, hits: 3 }, { line: 2, hits: 0 }] }], /* runId */ 1);
+
+            expect(store.getFile('/work/Lib/A.cs').lines).to.deep.equal([{ line: 0, hits: 1 }, { line: 1, hits: 3 }, { line: 2, hits: 0 }]);
+        });
+
+        test('Replaces the coverage of a file with the first report of a new run', () => {
+            const store = new CoverageStore();
+            store.update([{ fileName: '/work/Lib/A.cs', projectName: 'Lib', lines: [{ line: 0, hits: 1 }] }], /* runId */ 1);
+            store.update([{ fileName: '/work/Lib/A.cs', projectName: 'Lib', lines: [{ line: 0, hits: 0 }] }], /* runId */ 2);
+
+            expect(store.getFile('/work/Lib/A.cs').lines).to.deep.equal([{ line: 0, hits: 0 }]);
+        });
+
+        test('Forgets the coverage of an invalidated file', () => {
+            const store = new CoverageStore();
+            store.update([{ fileName: '/work/Lib/A.cs', projectName: 'Lib', lines: [{ line: 0, hits: 2 }] }], /* runId */ 1);
+
+            expect(store.invalidate('/work/Lib/A.cs')).to.equal(true);
+            expect(store.invalidate('/work/Lib/A.cs')).to.equal(false);
+            expect(store.getFile('/work/Lib/A.cs')).to.equal(undefined);
+        });
+    });
+
+    suite(formatCoverageSummary.name, () => {
+        test('Formats the share of covered lines', () => {
+            expect(formatCoverageSummary({ coveredLines: 6, totalLines: 7 })).to.equal('85.7% (6/7 lines)');
+            expect(formatCoverageSummary({ coveredLines: 0, totalLines: 0 })).to.equal('100% (0/0 lines)');
+        });
+    });
+});
@@ -0,0 +1,68 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import * as protocol from '../../../src/omnisharp/protocol';
+import { parseStackTrace, TestFailureTracker } from '../../../src/omnisharp/testFailures';
+
+suite('Test failures', () => {
+    const stackTrace = [
+        '   at Xunit.Assert.Equal[T](T expected, T actual)',
+        '   at Contoso.Helpers.Check(Int32 value) in /work/Tests/Helpers.cs:line 8',
+        '   at Contoso.MathTests.Adds() in /work/Tests/MathTests.cs:line 12'
+    ].join('\n');
+
+    function createResult(methodName: string, outcome: string, errorStackTrace: string = null): protocol.V2.DotNetTestResult {
+        return { MethodName: methodName, Outcome: outcome, ErrorMessage: 'Expected 1 but was 2', ErrorStackTrace: errorStackTrace, StandardOutput: [], StandardError: [] };
+    }
+
+    suite(parseStackTrace.name, () => {
+        test('Returns the frames that name a source file', () => {
+            expect(parseStackTrace(stackTrace)).to.deep.equal([
+                { method: 'Contoso.Helpers.Check(Int32 value)', fileName: '/work/Tests/Helpers.cs', line: 7 },
+                { method: 'Contoso.MathTests.Adds()', fileName: '/work/Tests/MathTests.cs', line: 11 }
+            ]);
+        });
+
+        test('Parses Windows paths and Mono frames', () => {
+            expect(parseStackTrace('  at Contoso.MathTests.Adds() in C:\\work\\Tests\\MathTests.cs:line 12\r\n')[0]).to.deep.equal(
+                { method: 'Contoso.MathTests.Adds()', fileName: 'C:\\work\\Tests\\MathTests.cs', line: 11 });
+            expect(parseStackTrace('  at Contoso.MathTests.Adds () [0x00001] in /work/Tests/MathTests.cs:12')[0]).to.deep.equal(
+                { method: 'Contoso.MathTests.Adds ()', fileName: '/work/Tests/MathTests.cs', line: 11 });
+        });
+
+        test('Returns no frames without a stack trace', () => {
+            expect(parseStackTrace(null)).to.deep.equal([]);
+        });
+    });
+
+    suite(`${TestFailureTracker.name}`, () => {
+        test('Groups the failures by the file of their failing line', () => {
+            const tracker = new TestFailureTracker();
+            tracker.update([createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed, stackTrace)]);
+
+            const failures = tracker.getFailuresByFile().get('/work/Tests/Helpers.cs');
+            expect(failures.length).to.equal(1);
+            expect(failures[0]).to.include({ testName: 'Contoso.MathTests.Adds', errorMessage: 'Expected 1 but was 2' });
+            expect(failures[0].frames.length).to.equal(2);
+        });
+
+        test('Forgets the failure of a test that passes again', () => {
+            const tracker = new TestFailureTracker();
+            tracker.update([createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed, stackTrace)]);
+            tracker.update([createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Passed)]);
+
+            expect(tracker.getFailuresByFile().size).to.equal(0);
+        });
+
+        test('Keeps the failures of tests that were not run again', () => {
+            const tracker = new TestFailureTracker();
+            tracker.update([createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed, stackTrace)]);
+            tracker.update([createResult('Contoso.MathTests.Subtracts', protocol.V2.TestOutcomes.Passed)]);
+
+            expect(tracker.getFailuresByFile().size).to.equal(1);
+        });
+    });
+});
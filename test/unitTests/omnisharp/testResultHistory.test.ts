@@ -0,0 +1,104 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import * as protocol from '../../../src/omnisharp/protocol';
+import TestResultHistory, { formatTestHistory, TestHistoryState } from '../../../src/omnisharp/testResultHistory';
+
+suite(`${TestResultHistory.name}`, () => {
+    let values: { [key: string]: any };
+    let history: TestResultHistory;
+
+    function createResult(methodName: string, outcome: string, errorMessage: string = null): protocol.V2.DotNetTestResult {
+        return { MethodName: methodName, Outcome: outcome, ErrorMessage: errorMessage, ErrorStackTrace: null, StandardOutput: [], StandardError: [] };
+    }
+
+    async function recordRun(...results: protocol.V2.DotNetTestResult[]) {
+        await history.record({ results, fileName: '/work/Tests/MathTests.cs', testFrameworkName: 'xunit', duration: 120, timestamp: 1000 });
+    }
+
+    setup(() => {
+        values = {};
+        const state: TestHistoryState = {
+            get: <T>(key: string) => <T>values[key],
+            update: async (key: string, value: any) => { values[key] = value; }
+        };
+
+        history = new TestResultHistory(state);
+    });
+
+    test('Records the results of a test, the latest first', async () => {
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed, 'Expected 1'));
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Passed));
+
+        const test = history.getTest('Contoso.MathTests.Adds');
+        expect(test).to.include({ fileName: '/work/Tests/MathTests.cs', testFrameworkName: 'xunit' });
+        expect(test.records.map(record => record.outcome)).to.deep.equal([protocol.V2.TestOutcomes.Passed, protocol.V2.TestOutcomes.Failed]);
+        expect(test.records[1]).to.include({ errorMessage: 'Expected 1', duration: 120, runId: 1 });
+    });
+
+    test('The duration of a run of several tests is not recorded', async () => {
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Passed), createResult('Contoso.MathTests.Subtracts', protocol.V2.TestOutcomes.Passed));
+
+        expect(history.getTest('Contoso.MathTests.Adds').records[0].duration).to.equal(undefined);
+    });
+
+    test('Keeps only the latest results of a test', async () => {
+        for (let i = 0; i < TestResultHistory.MaxRecordsPerTest + 5; i++) {
+            await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Passed));
+        }
+
+        const records = history.getTest('Contoso.MathTests.Adds').records;
+        expect(records.length).to.equal(TestResultHistory.MaxRecordsPerTest);
+        expect(records[0].runId).to.equal(TestResultHistory.MaxRecordsPerTest + 5);
+    });
+
+    test('A test that passed and failed against the same code is flaky', async () => {
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Passed));
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed));
+
+        expect(history.isFlaky('Contoso.MathTests.Adds')).to.equal(true);
+        expect(history.getFlakyTests().map(test => test.testName)).to.deep.equal(['Contoso.MathTests.Adds']);
+    });
+
+    test('A test that failed after the code changed is not flaky', async () => {
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Passed));
+        await history.markCodeChanged();
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed));
+
+        expect(history.isFlaky('Contoso.MathTests.Adds')).to.equal(false);
+    });
+
+    test('Returns the tests that failed in the latest run', async () => {
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed), createResult('Contoso.MathTests.Subtracts', protocol.V2.TestOutcomes.Failed));
+        await recordRun(createResult('Contoso.MathTests.Subtracts', protocol.V2.TestOutcomes.Failed), createResult('Contoso.MathTests.Divides', protocol.V2.TestOutcomes.Passed));
+
+        expect(history.getFailedTestsOfLastRun().map(test => test.testName)).to.deep.equal(['Contoso.MathTests.Subtracts']);
+    });
+
+    test('Returns the failed tests of every request of the latest run', async () => {
+        await history.record({ results: [createResult('Contoso.OldTests.Fails', protocol.V2.TestOutcomes.Failed)], timestamp: 1000, runId: 1 });
+        await history.record({ results: [createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed)], timestamp: 2000, runId: 2 });
+        await history.record({ results: [createResult('Contoso.StringTests.Joins', protocol.V2.TestOutcomes.Failed)], timestamp: 3000, runId: 2 });
+
+        expect(history.getFailedTestsOfLastRun().map(test => test.testName)).to.deep.equal(['Contoso.MathTests.Adds', 'Contoso.StringTests.Joins']);
+    });
+
+    test('Clearing removes the recorded results', async () => {
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Passed));
+        await history.clear();
+
+        expect(history.getTests()).to.deep.equal([]);
+    });
+
+    test('Formats the history as a Markdown table', async () => {
+        await recordRun(createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Failed, 'Expected 1 | 2\nActual 3'));
+
+        const text = formatTestHistory(history.getTest('Contoso.MathTests.Adds'), /* flaky */ true);
+        expect(text).to.contain('# Contoso.MathTests.Adds');
+        expect(text).to.contain('**This test may be flaky:**');
+        expect(text).to.contain(`| 1970-01-01T00:00:01.000Z | ${protocol.V2.TestOutcomes.Failed} | 120 ms | Expected 1 \\| 2 Actual 3 |`);
+    });
+});
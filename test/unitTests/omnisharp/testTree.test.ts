@@ -0,0 +1,87 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import * as protocol from '../../../src/omnisharp/protocol';
+import { createProjectTestNodes, detectTestFramework, splitTestName, summarizeTestResults } from '../../../src/omnisharp/testTree';
+
+suite('Test tree', () => {
+    function createTest(fullyQualifiedName: string, lineNumber: number = 10): protocol.V2.TestInfo {
+        return { FullyQualifiedName: fullyQualifiedName, DisplayName: fullyQualifiedName, Source: '/work/Tests/bin/Tests.dll', CodeFilePath: '/work/Tests/MathTests.cs', LineNumber: lineNumber };
+    }
+
+    function createResult(methodName: string, outcome: string, errorMessage: string = null): protocol.V2.DotNetTestResult {
+        return { MethodName: methodName, Outcome: outcome, ErrorMessage: errorMessage, ErrorStackTrace: null, StandardOutput: [], StandardError: [] };
+    }
+
+    suite(detectTestFramework.name, () => {
+        test('Detects the framework from its package reference', () => {
+            expect(detectTestFramework('<PackageReference Include="xunit" Version="2.4.1" />')).to.equal('xunit');
+            expect(detectTestFramework('<PackageReference Include="NUnit" Version="3.13.2" />')).to.equal('nunit');
+            expect(detectTestFramework('<PackageReference Include="MSTest.TestFramework" Version="2.2.7" />')).to.equal('mstest');
+        });
+
+        test('Returns undefined for a project without tests', () => {
+            expect(detectTestFramework('<PackageReference Include="Newtonsoft.Json" Version="13.0.1" />')).to.equal(undefined);
+        });
+    });
+
+    suite(splitTestName.name, () => {
+        test('Splits the namespace, class and method', () => {
+            expect(splitTestName('Contoso.Tests.MathTests.Adds')).to.deep.equal({ namespaceName: 'Contoso.Tests', className: 'MathTests', methodName: 'Adds' });
+        });
+
+        test('Leaves out the arguments of a parameterized test', () => {
+            expect(splitTestName('Contoso.MathTests.Divides(x: 1.5, y: 0.5)')).to.deep.equal({ namespaceName: 'Contoso', className: 'MathTests', methodName: 'Divides' });
+        });
+    });
+
+    suite(createProjectTestNodes.name, () => {
+        test('Groups the tests by namespace and class', () => {
+            const nodes = createProjectTestNodes('/work/Tests/Tests.csproj', [
+                createTest('Contoso.MathTests.Adds', 10),
+                createTest('Contoso.MathTests.Subtracts', 20),
+                createTest('Contoso.Text.ParserTests.Parses')
+            ]);
+
+            expect(nodes.map(node => node.label)).to.deep.equal(['Contoso', 'Contoso.Text']);
+            const mathTests = nodes[0].children[0];
+            expect(mathTests).to.include({ kind: 'class', label: 'MathTests', fullyQualifiedName: 'Contoso.MathTests' });
+            expect(mathTests.children.map(node => node.fullyQualifiedName)).to.deep.equal(['Contoso.MathTests.Adds', 'Contoso.MathTests.Subtracts']);
+            expect(mathTests.children[1]).to.include({ id: '/work/Tests/Tests.csproj|Contoso.MathTests.Subtracts', line: 19 });
+        });
+
+        test('Shows a parameterized test once', () => {
+            const nodes = createProjectTestNodes('/work/Tests/Tests.csproj', [
+                createTest('Contoso.MathTests.Divides(x: 1)'),
+                createTest('Contoso.MathTests.Divides(x: 2)')
+            ]);
+
+            expect(nodes[0].children[0].children.map(node => node.label)).to.deep.equal(['Divides']);
+        });
+    });
+
+    suite(summarizeTestResults.name, () => {
+        test('Reports the outcome and error of each method', () => {
+            const summaries = summarizeTestResults([
+                createResult('Contoso.MathTests.Adds', protocol.V2.TestOutcomes.Passed),
+                createResult('Contoso.MathTests.Subtracts', protocol.V2.TestOutcomes.Failed, 'Expected 1 but was 2')
+            ]);
+
+            expect(summaries.get('Contoso.MathTests.Adds').outcome).to.equal('passed');
+            expect(summaries.get('Contoso.MathTests.Subtracts')).to.include({ outcome: 'failed', errorMessage: 'Expected 1 but was 2' });
+        });
+
+        test('A parameterized test fails when any of its cases fails', () => {
+            const summaries = summarizeTestResults([
+                createResult('Contoso.MathTests.Divides(x: 1)', protocol.V2.TestOutcomes.Passed),
+                createResult('Contoso.MathTests.Divides(x: 0)', protocol.V2.TestOutcomes.Failed, 'Division by zero'),
+                createResult('Contoso.MathTests.Divides(x: 2)', protocol.V2.TestOutcomes.Passed)
+            ]);
+
+            expect(summaries.get('Contoso.MathTests.Divides')).to.include({ outcome: 'failed', errorMessage: 'Division by zero' });
+        });
+    });
+});
@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { expect } from 'chai';
+import { findPackageReference, formatPackageDependency, UnresolvedDependencyTracker } from '../../../src/omnisharp/unresolvedDependencies';
+
+suite(`${UnresolvedDependencyTracker.name}`, () => {
+    const appProject = path.resolve('/work/src/App/App.csproj');
+    const libProject = path.resolve('/work/src/Lib/Lib.csproj');
+    const toolProject = path.resolve('/work/tools/Tool/Tool.csproj');
+    let tracker: UnresolvedDependencyTracker;
+
+    setup(() => {
+        tracker = new UnresolvedDependencyTracker();
+        tracker.update({ FileName: appProject, UnresolvedDependencies: [{ Name: 'Newtonsoft.Json', Version: '13.0.1' }] });
+        tracker.update({ FileName: libProject, UnresolvedDependencies: [{ Name: 'Serilog', Version: '2.10.0' }] });
+        tracker.update({ FileName: toolProject, UnresolvedDependencies: [{ Name: 'xunit', Version: '2.4.1' }] });
+    });
+
+    test('Unresolved dependencies are collected per project', () => {
+        expect(tracker.getProjects().map(project => project.projectPath)).to.deep.equal([appProject, libProject, toolProject]);
+    });
+
+    test('A project without unresolved dependencies is forgotten', () => {
+        tracker.update({ FileName: appProject, UnresolvedDependencies: [] });
+
+        expect(tracker.getProjects().map(project => project.projectPath)).to.deep.equal([libProject, toolProject]);
+    });
+
+    test('Restoring a project clears its unresolved dependencies', () => {
+        expect(tracker.clear(libProject)).to.deep.equal([libProject]);
+        expect(tracker.getProjects().map(project => project.projectPath)).to.deep.equal([appProject, toolProject]);
+    });
+
+    test('Restoring a folder clears the unresolved dependencies of the projects within it', () => {
+        expect(tracker.clear(path.resolve('/work/src'))).to.deep.equal([appProject, libProject]);
+        expect(tracker.getProjects().map(project => project.projectPath)).to.deep.equal([toolProject]);
+    });
+});
+
+suite('findPackageReference', () => {
+    const projectText = [
+        '<Project Sdk="Microsoft.NET.Sdk">',
+        '  <ItemGroup>',
+        '    <PackageReference Include="Newtonsoft.Json" Version="13.0.1" />',
+        '  </ItemGroup>',
+        '</Project>'
+    ].join('\n');
+
+    test('Finds the PackageReference item of a package', () => {
+        expect(findPackageReference(projectText, 'newtonsoft.json')).to.deep.equal({ line: 2, startCharacter: 4, endCharacter: 47 });
+    });
+
+    test('Transitive dependencies have no location', () => {
+        expect(findPackageReference(projectText, 'Newtonsoft')).to.be.undefined;
+    });
+
+    test('Packages are formatted with their version', () => {
+        expect(formatPackageDependency({ Name: 'Serilog', Version: '2.10.0' })).to.equal('Serilog 2.10.0');
+    });
+});
@@ -37,6 +37,25 @@ suite("Options tests", () => {
         options.analyzeOpenDocumentsOnly.should.equal(false);
         expect(options.testRunSettings).to.be.undefined;
         expect(options.defaultLaunchSolution).to.be.undefined;
+        expect(options.serverAddress).to.be.undefined;
+        options.serverReconnectAttempts.should.equal(5);
+        options.serverRestartAttempts.should.equal(3);
+        options.requestTimeouts.should.deep.equal({ '/completion': 30, '/completion/resolve': 30, '/signatureHelp': 30, '/codecheck': 300 });
+        expect(options.protocolRecordingPath).to.be.undefined;
+        expect(options.protocolReplayPath).to.be.undefined;
+        options.serverPerWorkspaceFolder.should.equal(false);
+        options.requestQueueConcurrency.should.deep.equal({ priority: 1, normal: 8, deferred: 2 });
+        options.requestPriorities.should.deep.equal({});
+        options.deferredRequestAgingThreshold.should.equal(10);
+        options.prioritizeActiveDocument.should.equal(true);
+        options.watchdogProbeInterval.should.equal(15);
+        options.watchdogUnresponsiveThreshold.should.equal(30);
+        options.msbuildProfiles.should.deep.equal({});
+        options.msbuildProfile.should.equal('');
+        options.continueLoadingAfterTimeout.should.equal(false);
+        options.continuousTesting.should.equal(false);
+        options.continuousTestingDelay.should.equal(1000);
+        options.continuousTestingUseFindUsages.should.equal(false);
     });
 
     test('Verify return no excluded paths when files.exclude empty', () => {
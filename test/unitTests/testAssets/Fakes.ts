@@ -8,7 +8,7 @@ import * as protocol from '../../../src/omnisharp/protocol';
 import { DocumentSelector, MessageItem, TextDocument, Uri, GlobPattern, ConfigurationChangeEvent, Disposable } from '../../../src/vscodeAdapter';
 import { ITelemetryReporter } from '../../../src/observers/TelemetryObserver';
 import { MSBuildDiagnosticsMessage } from '../../../src/omnisharp/protocol';
-import { OmnisharpServerMsBuildProjectDiagnostics, OmnisharpServerOnError, OmnisharpServerUnresolvedDependencies, WorkspaceInformationUpdated } from '../../../src/omnisharp/loggingEvents';
+import { OmnisharpServerMsBuildProjectDiagnostics, OmnisharpServerOnError, UnresolvedDependenciesUpdated, WorkspaceInformationUpdated } from '../../../src/omnisharp/loggingEvents';
 
 export const getNullChannel = (): vscode.OutputChannel => {
     let returnChannel: vscode.OutputChannel = {
@@ -90,11 +90,11 @@ export function getOmnisharpServerOnErrorEvent(text: string, fileName: string, l
     });
 }
 
-export function getUnresolvedDependenices(fileName: string): OmnisharpServerUnresolvedDependencies {
-    return new OmnisharpServerUnresolvedDependencies({
-        UnresolvedDependencies: [],
-        FileName: fileName
-    });
+export function getUnresolvedDependenciesUpdated(projectPath: string): UnresolvedDependenciesUpdated {
+    return new UnresolvedDependenciesUpdated([{
+        projectPath,
+        dependencies: [{ Name: 'Newtonsoft.Json', Version: '13.0.1' }]
+    }]);
 }
 
 export function getFakeVsCode(): vscode.vscode {